@@ -2,11 +2,13 @@ import { useState, useEffect } from 'react';
 import { AdminLogin } from './components/AdminLogin';
 import { AdminDashboard } from './components/AdminDashboard';
 import { StudentPortal } from './components/StudentPortal';
+import { AcceptInvite } from './components/AcceptInvite';
 import { supabase } from './utils/supabase/client';
-import { projectId, publicAnonKey } from './utils/supabase/info';
+import { fetchAccess } from './utils/access';
+import { navigate, useRoute } from './utils/router';
 
 export default function App() {
-  const [currentPage, setCurrentPage] = useState<'student' | 'admin-login' | 'admin-dashboard'>('student');
+  const route = useRoute();
   const [adminToken, setAdminToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -26,9 +28,12 @@ export default function App() {
       
       const { data: { session } } = await Promise.race([sessionPromise, timeoutPromise]) as any;
       
+      // Students sign in with the same auth, so only staff sessions open the dashboard
       if (session?.access_token) {
-        setAdminToken(session.access_token);
-        setCurrentPage('admin-dashboard');
+        const access = await fetchAccess(session.access_token);
+        if (access && access.permissions.length > 0) {
+          setAdminToken(session.access_token);
+        }
       }
     } catch (error) {
       console.error('Error checking session:', error);
@@ -38,11 +43,33 @@ export default function App() {
     }
   };
 
+  // Keep the token current when it is refreshed or a two-factor check raises its
+  // assurance level. Sign-ins go through handleAdminLogin so the login page can
+  // finish its two-factor step first.
+  useEffect(() => {
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if ((event === 'TOKEN_REFRESHED' || event === 'MFA_CHALLENGE_VERIFIED') && session) {
+        setAdminToken((current) => (current ? session.access_token : current));
+      }
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  // Logging in from a dashboard link keeps that URL; the login and invite pages go to the dashboard
   const handleAdminLogin = (token: string) => {
     setAdminToken(token);
-    setCurrentPage('admin-dashboard');
+    if (route.page === 'admin-login' || route.page === 'accept-invite') {
+      navigate({ page: 'admin-dashboard', tab: 'content' }, { replace: true });
+    }
   };
 
+  // Signed-in admins don't need the login page
+  useEffect(() => {
+    if (!isLoading && adminToken && route.page === 'admin-login') {
+      navigate({ page: 'admin-dashboard', tab: 'content' }, { replace: true });
+    }
+  }, [isLoading, adminToken, route.page]);
+
   const handleAdminLogout = async () => {
     try {
       // Add timeout to logout as well
@@ -55,91 +82,24 @@ export default function App() {
       await Promise.race([logoutPromise, timeoutPromise]);
       
       setAdminToken(null);
-      setCurrentPage('student');
+      navigate({ page: 'student' });
     } catch (error) {
       console.error('Logout error:', error);
       // Force logout on client side even if server logout fails
       setAdminToken(null);
-      setCurrentPage('student');
+      navigate({ page: 'student' });
     }
   };
 
-  const showAdminLogin = () => {
-    setCurrentPage('admin-login');
+  // Leave the dashboard without signing out, so a student stays signed in to the portal
+  const handleLeaveDashboard = () => {
+    setAdminToken(null);
+    navigate({ page: 'student' });
   };
 
-  // Initialize admin user on first load (only run once)
-  useEffect(() => {
-    const checkServerHealth = async () => {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout for health check
-        
-        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/health`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (response.ok) {
-          console.log('Server is healthy, initializing admin user...');
-          await initializeAdmin();
-        } else {
-          console.log('Server health check failed, skipping admin initialization');
-        }
-      } catch (error) {
-        console.log('Server health check failed:', error.name === 'AbortError' ? 'timeout' : error.message);
-      }
-    };
-    
-    const initializeAdmin = async () => {
-      try {
-        // Add timeout to prevent hanging
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 8000); // 8 second timeout
-        
-        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/signup`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          // Don't try to parse JSON if response is not ok
-          console.log('Admin initialization response not ok:', response.status, response.statusText);
-          return;
-        }
-        
-        const result = await response.json();
-        
-        if (result.error && result.error.includes('email_exists')) {
-          console.log('Admin user already exists - this is normal');
-        } else {
-          console.log('Admin user initialized successfully');
-        }
-      } catch (error) {
-        if (error.name === 'AbortError') {
-          console.log('Admin initialization timed out - continuing without blocking app');
-        } else {
-          console.log('Admin user may already exist or initialization failed:', error);
-        }
-      }
-    };
-
-    // Run server health check and admin initialization in the background without blocking the UI
-    setTimeout(() => {
-      checkServerHealth();
-    }, 2000); // Delay to let the main UI load first
-  }, []);
+  const showAdminLogin = () => {
+    navigate({ page: 'admin-login' });
+  };
 
   // Show loading screen while checking session
   if (isLoading) {
@@ -154,13 +114,17 @@ export default function App() {
     );
   }
 
-  if (currentPage === 'admin-login') {
-    return <AdminLogin onLogin={handleAdminLogin} />;
+  if (route.page === 'student') {
+    return <StudentPortal route={route} onAdminClick={showAdminLogin} />;
+  }
+
+  if (route.page === 'accept-invite') {
+    return <AcceptInvite token={route.token} onLogin={handleAdminLogin} />;
   }
 
-  if (currentPage === 'admin-dashboard' && adminToken) {
-    return <AdminDashboard token={adminToken} onLogout={handleAdminLogout} />;
+  if (route.page === 'admin-dashboard' && adminToken) {
+    return <AdminDashboard route={route} token={adminToken} onLogout={handleAdminLogout} onLeave={handleLeaveDashboard} />;
   }
 
-  return <StudentPortal onAdminClick={showAdminLogin} />;
+  return <AdminLogin onLogin={handleAdminLogin} />;
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { KeyRound, Shield } from 'lucide-react';
+import { supabase } from '../utils/supabase/client';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { Invite, ROLE_LABELS } from '../utils/access';
+
+interface AcceptInviteProps {
+  token: string;
+  onLogin: (token: string) => void;
+}
+
+// Lets an invited admin or moderator choose a password and signs them in
+export function AcceptInvite({ token, onLogin }: AcceptInviteProps) {
+  const [invite, setInvite] = useState<Pick<Invite, 'email' | 'role' | 'departments' | 'expiresAt'> | null>(null);
+  const [loadingInvite, setLoadingInvite] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchInvite = async () => {
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/invites/${encodeURIComponent(token)}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${publicAnonKey}`,
+            },
+          }
+        );
+        const data = await response.json();
+        if (response.ok) {
+          setInvite(data);
+        } else {
+          setError(data.error || 'This invite link is invalid or has expired');
+        }
+      } catch (err) {
+        console.error('Error fetching invite:', err);
+        setError('The invite could not be loaded. Please try again.');
+      } finally {
+        setLoadingInvite(false);
+      }
+    };
+    fetchInvite();
+  }, [token]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/invites/${encodeURIComponent(token)}/accept`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`,
+          },
+          body: JSON.stringify({ password }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'The invite could not be accepted');
+        return;
+      }
+
+      const { data: session, error: signInError } = await supabase.auth.signInWithPassword({
+        email: invite.email,
+        password,
+      });
+      if (signInError) {
+        setError(signInError.message);
+        return;
+      }
+      if (session.session?.access_token) {
+        onLogin(session.session.access_token);
+      }
+    } catch (err) {
+      setError('The invite could not be accepted. Please try again.');
+      console.error('Accept invite error:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4 relative overflow-hidden">
+      {/* Animated background */}
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-primary/10 rounded-full blur-3xl animate-pulse-custom"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-blue-600/10 rounded-full blur-3xl animate-pulse-custom animate-delay-300"></div>
+      </div>
+
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0, y: 50 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        transition={{ duration: 0.8, ease: "easeOut" }}
+        className="relative z-10"
+      >
+        <Card className="w-full max-w-md glass-morphism border-border/50 shadow-2xl">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2 text-foreground">
+              <Shield className="h-6 w-6 text-primary animate-glow" />
+              Accept Invite
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Choose a password for your ANH Atria Notes Hub account
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {loadingInvite ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : invite ? (
+              <form onSubmit={handleAccept} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email" className="text-foreground">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={invite.email}
+                    disabled
+                    className="bg-input/50 border-border text-muted-foreground"
+                  />
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">{ROLE_LABELS[invite.role]}</Badge>
+                    {invite.departments.map((department) => (
+                      <Badge key={department} variant="outline">{department}</Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-password" className="text-foreground">Password</Label>
+                  <Input
+                    id="invite-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    placeholder="At least 8 characters"
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-confirm-password" className="text-foreground">Confirm password</Label>
+                  <Input
+                    id="invite-confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
+                    <AlertDescription className="text-destructive">{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-300 hover-lift"
+                  disabled={submitting}
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {submitting ? 'Creating account...' : 'Create Account'}
+                </Button>
+              </form>
+            ) : (
+              <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
+                <AlertDescription className="text-destructive">{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { Fragment, useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChevronDown, ChevronRight, Download, History } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+
+interface AuditEntry {
+  id: string;
+  at: string;
+  actor: { userId: string | null; email: string };
+  action: string;
+  target: { type: string; id?: string; label: string; department?: string };
+  ip: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface ActivityLogProps {
+  token: string;
+  // Departments the viewer can filter by
+  departments: string[];
+}
+
+const ACTION_GROUPS: Record<string, string> = {
+  file: 'Files',
+  subject: 'Subjects',
+  department: 'Departments',
+  semester: 'Semesters',
+  category: 'Categories',
+  role: 'Roles',
+  invite: 'Invites',
+  account: 'Two-factor',
+  search: 'Search index',
+  contribution: 'Contributions',
+};
+
+const ALL = 'all';
+const FILTER_DELAY_MS = 300;
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+export function ActivityLog({ token, departments }: ActivityLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [action, setAction] = useState(ALL);
+  const [department, setDepartment] = useState(ALL);
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const filterParams = () => {
+    const params = new URLSearchParams();
+    if (action !== ALL) params.set('action', action);
+    if (department !== ALL) params.set('department', department);
+    if (actor.trim()) params.set('actor', actor.trim());
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (query.trim()) params.set('q', query.trim());
+    return params;
+  };
+
+  // Refetch once the filters stop changing; stale responses are ignored
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/audit?${filterParams()}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${token}`,
+            },
+          }
+        );
+        if (cancelled) return;
+        if (response.ok) {
+          const data = await response.json();
+          setEntries(data.entries);
+        } else {
+          console.error('Failed to fetch activity:', response.statusText);
+        }
+      } catch (error) {
+        console.error('Error fetching activity:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, FILTER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, action, department, actor, from, to, query]);
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/audit/export?${filterParams()}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        }
+      );
+      if (!response.ok) {
+        console.error('Failed to export activity:', response.statusText);
+        return;
+      }
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await response.blob());
+      link.download = `activity-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Error exporting activity:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <History className="h-5 w-5 text-primary" />
+              Activity
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Every change made by admins and moderators. Without a From date, the last 12 months are shown.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={exportCsv}
+            disabled={exporting}
+            className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+            <div>
+              <Label className="text-foreground">Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger className="bg-input/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {Object.entries(ACTION_GROUPS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-foreground">Department</Label>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger className="bg-input/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-foreground">Actor</Label>
+              <Input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Email" className="bg-input/50 border-border" />
+            </div>
+            <div>
+              <Label className="text-foreground">From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-input/50 border-border" />
+            </div>
+            <div>
+              <Label className="text-foreground">To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="bg-input/50 border-border" />
+            </div>
+            <div>
+              <Label className="text-foreground">Search</Label>
+              <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="File, subject..." className="bg-input/50 border-border" />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8"></TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                    {loading ? 'Loading activity...' : 'No activity matches these filters'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {entries.map((entry) => {
+                const hasDetails = entry.before !== undefined || entry.after !== undefined;
+                const isExpanded = expanded === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      onClick={() => hasDetails && setExpanded(isExpanded ? null : entry.id)}
+                      className={hasDetails ? 'cursor-pointer' : ''}
+                    >
+                      <TableCell>
+                        {hasDetails && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{new Date(entry.at).toLocaleString()}</TableCell>
+                      <TableCell>{entry.actor.email}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="border-primary/30 font-mono">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate" title={entry.target.label}>{entry.target.label}</TableCell>
+                      <TableCell className="text-muted-foreground font-mono">{entry.ip ?? '-'}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={6}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Before</p>
+                              <pre className="text-xs whitespace-pre-wrap break-all rounded bg-card/50 border border-border p-2">{entry.before === undefined ? '-' : formatJson(entry.before)}</pre>
+                            </div>
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">After</p>
+                              <pre className="text-xs whitespace-pre-wrap break-all rounded bg-card/50 border border-border p-2">{entry.after === undefined ? '-' : formatJson(entry.after)}</pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {entries.length >= 500 && (
+            <p className="text-xs text-muted-foreground text-center">Showing the latest 500 entries. Narrow the filters or export to CSV for the rest.</p>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -8,63 +8,136 @@ import { Label } from './ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Alert, AlertDescription } from './ui/alert';
 import { Badge } from './ui/badge';
-import { Upload, FileText, Trash2, LogOut, Plus, Download, Shield, Settings, Database } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable';
+import { useIsMobile } from './ui/use-mobile';
+import { Upload, FileText, Trash2, LogOut, Plus, Download, Shield, Settings, Database, Layers, Link2, Eye, Users, ShieldCheck, History, RefreshCw, Undo2, Tags, BarChart3, Grid3x3, Flag, Inbox, ExternalLink, BookOpen } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { useCatalog, getLayout, getSubjects, isSubjectArchived, placementLabel, subjectCategories } from '../utils/catalog';
+import { FileLocation, FileRecord, SubjectContent, categoryFiles, downloadVersion, metadataLabels, previewKind } from '../utils/files';
+import { useRecentItems } from '../utils/recent';
+import { AdminRoute, AdminTab, navigate } from '../utils/router';
+import { ROLE_LABELS, can, canManageDepartment, useAccess } from '../utils/access';
+import { CatalogManager } from './CatalogManager';
+import { CommandPalette, uploadActions } from './CommandPalette';
+import { FilePreview } from './FilePreview';
+import { RoleManager } from './RoleManager';
+import { ActivityLog } from './ActivityLog';
+import { InsightsPanel } from './InsightsPanel';
+import { CoverageReport } from './CoverageReport';
+import { TrashBin } from './TrashBin';
+import { ModerationQueue } from './ModerationQueue';
+import { ContributionQueue } from './ContributionQueue';
+import { BulkUpload } from './BulkUpload';
+import { ZipImport } from './ZipImport';
+import { EMPTY_METADATA, MetadataDraft, MetadataField, PaperMetadataDialog, PaperMetadataFields, applicableFields, hasPaperMetadata } from './PaperMetadataFields';
+import { MfaChallenge } from './MfaChallenge';
+import { MfaEnrollment } from './MfaEnrollment';
 
-interface FileRecord {
-  id: string;
-  name: string;
-  path: string;
-  uploadedAt: string;
-}
+// Per-field messages returned by the upload service for invalid uploads
+type UploadFieldErrors = Partial<Record<'file' | 'url' | 'title' | 'department' | 'semester' | 'subject' | 'contentType' | 'module' | MetadataField, string>>;
 
-interface ContentStructure {
-  previousYearPapers: FileRecord[];
-  iaPapers: FileRecord[];
-  notes: {
-    [module: string]: FileRecord[];
-  };
+// An upload whose bytes already exist in the subject, awaiting "link existing"
+interface PendingDuplicate {
+  file: File;
+  existing: { file: FileRecord; contentType: string; module?: number };
+  canLink: boolean;
 }
 
+
 interface AdminDashboardProps {
+  route: AdminRoute;
   token: string;
   onLogout: () => void;
+  // Back to the student portal, keeping the session
+  onLeave: () => void;
 }
 
-export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
-  const [selectedDepartment, setSelectedDepartment] = useState<string>('');
-  const [selectedSemester, setSelectedSemester] = useState<string>('');
-  const [selectedSubject, setSelectedSubject] = useState<string>('');
+export function AdminDashboard({ route, token, onLogout, onLeave }: AdminDashboardProps) {
   const [selectedContentType, setSelectedContentType] = useState<string>('');
   const [selectedModule, setSelectedModule] = useState<string>('');
   const [newSubjectName, setNewSubjectName] = useState<string>('');
-  const [contentStructure, setContentStructure] = useState<ContentStructure | null>(null);
+  const [contentStructure, setContentStructure] = useState<SubjectContent | null>(null);
   const [uploading, setUploading] = useState(false);
   const [message, setMessage] = useState<string>('');
+  const [fieldErrors, setFieldErrors] = useState<UploadFieldErrors>({});
+  // Paper details for the next upload; kept between uploads of the same batch of papers
+  const [uploadMetadata, setUploadMetadata] = useState<MetadataDraft>(EMPTY_METADATA);
+  const [metadataTarget, setMetadataTarget] = useState<{ file: FileRecord; contentType: FileLocation['contentType'] } | null>(null);
+  const [pendingDuplicate, setPendingDuplicate] = useState<PendingDuplicate | null>(null);
+  // Title and address of the next link, for categories that hold links
+  const [linkTitle, setLinkTitle] = useState('');
+  const [linkUrl, setLinkUrl] = useState('');
+  // Set by the palette's upload actions; opens the file picker once it is enabled
+  const [pickFileRequested, setPickFileRequested] = useState(false);
+  const [previewFile, setPreviewFile] = useState<FileRecord | null>(null);
+  const [replaceTarget, setReplaceTarget] = useState<FileRecord | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [mfaSetupOpen, setMfaSetupOpen] = useState(false);
+  const isMobile = useIsMobile();
+
+  // The selected subject and tab live in the URL
+  const selectedDepartment = route.department ?? '';
+  const selectedSemester = route.semester ?? '';
+  const selectedSubject = route.subject ?? '';
+  const activeTab = route.tab;
 
-  // Static data
-  const departments = ['CSE', 'AI&ML', 'ISE', 'CIVIL', 'MECH', 'ECE'];
-  const semesters = [1, 2, 3, 4, 5, 6, 7, 8];
-
-  // Get subjects based on department
-  const getSubjects = (department: string) => {
-    const subjectMap: Record<string, string[]> = {
-      'CSE': ['Mathematics', 'Data Structures', 'Computer Networks', 'Operating Systems', 'Software Engineering'],
-      'AI&ML': ['Mathematics', 'Machine Learning', 'Data Science', 'Artificial Intelligence', 'Statistics'],
-      'ISE': ['Mathematics', 'Information Systems', 'Database Management', 'Systems Analysis', 'Project Management'],
-      'ECE': ['Mathematics', 'Circuit Analysis', 'Digital Electronics', 'Communication Systems', 'Control Systems'],
-      'MECH': ['Mathematics', 'Thermodynamics', 'Fluid Mechanics', 'Machine Design', 'Manufacturing Processes'],
-      'CIVIL': ['Mathematics', 'Structural Analysis', 'Concrete Technology', 'Surveying', 'Construction Management']
-    };
-    return subjectMap[department] || [];
+  const go = (changes: Partial<AdminRoute>, replace = false) => {
+    navigate({
+      page: 'admin-dashboard',
+      tab: route.tab,
+      department: selectedDepartment || undefined,
+      semester: selectedSemester || undefined,
+      subject: selectedSubject || undefined,
+      ...changes,
+    }, { replace });
   };
 
-  const subjects = selectedDepartment ? getSubjects(selectedDepartment) : [];
+  const setSelectedDepartment = (department: string) => go({ department });
+  const setSelectedSemester = (semester: string) => go({ semester });
+  const setSelectedSubject = (subject: string) => go({ subject: subject || undefined }, !subject);
+  const setActiveTab = (tab: string) => go({ tab: tab as AdminTab });
+
+  const { catalog, setCatalog, loading: catalogLoading, refresh: refreshCatalog } = useCatalog(token, true);
+  const subjects = getSubjects(catalog, selectedDepartment, selectedSemester);
+  const categories = subjectCategories(catalog, selectedDepartment, selectedSemester, selectedSubject);
+  const moduleCount = getLayout(catalog, selectedDepartment, selectedSemester, selectedSubject).modules;
+  const isModular = (contentType: string) => categories.some((category) => category.id === contentType && category.modular);
+  const holdsLinks = (contentType: string) => categories.some((category) => category.id === contentType && category.links);
+  const { recent, remember } = useRecentItems('anh_recent_admin');
+
+  // What the signed-in user may do; department admins only see their departments
+  const { access, loading: accessLoading } = useAccess(token);
+  const manageableDepartments = catalog.departments.filter((dept) => canManageDepartment(access, dept));
+  const canUpload = can(access, 'files:upload');
+  const canModerate = can(access, 'files:moderate') && canManageDepartment(access, selectedDepartment);
+  // Upload rights in the selected department, needed to add or replace its files
+  const canUploadHere = canUpload && canManageDepartment(access, selectedDepartment);
+  const canManageCatalog = can(access, 'catalog:structure') || can(access, 'catalog:subjects');
+
+  // Clear the subject when it isn't offered in the newly selected department/semester
+  useEffect(() => {
+    if (!catalogLoading && selectedSubject && !subjects.includes(selectedSubject)) {
+      setSelectedSubject('');
+    }
+  }, [catalogLoading, subjects, selectedSubject]);
 
   // Fetch content when subject is selected
   useEffect(() => {
     if (selectedDepartment && selectedSemester && selectedSubject) {
       fetchContent();
+      setPreviewFile(null);
+      remember({ kind: 'subject', department: selectedDepartment, semester: selectedSemester, subject: selectedSubject });
     } else {
       setContentStructure(null);
     }
@@ -86,19 +159,11 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
         setContentStructure(data);
       } else {
         console.error('Failed to fetch content:', response.statusText);
-        setContentStructure({
-          previousYearPapers: [],
-          iaPapers: [],
-          notes: {}
-        });
+        setContentStructure({});
       }
     } catch (error) {
       console.error('Error fetching content:', error);
-      setContentStructure({
-        previousYearPapers: [],
-        iaPapers: [],
-        notes: {}
-      });
+      setContentStructure({});
     }
   };
 
@@ -126,9 +191,11 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
       );
 
       if (response.ok) {
+        const data = await response.json();
         setMessage('Subject added successfully!');
         setNewSubjectName('');
-        // You might want to refresh the subjects list here
+        await refreshCatalog();
+        setSelectedSubject(data.subject);
       } else {
         const errorData = await response.json();
         setMessage(`Failed to add subject: ${errorData.error || 'Unknown error'}`);
@@ -138,22 +205,12 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (!selectedDepartment || !selectedSemester || !selectedSubject || !selectedContentType) {
-      setMessage('Please select department, semester, subject, and content type before uploading.');
-      return;
-    }
-
-    if (selectedContentType === 'notes' && !selectedModule) {
-      setMessage('Please select a module for notes upload.');
-      return;
-    }
-
+  // Send a file to the upload service. Returns true once the file is stored or linked.
+  const uploadFile = async (file: File, duplicateAction?: 'link') => {
     setUploading(true);
     setMessage('');
+    setFieldErrors({});
+    setPendingDuplicate(null);
 
     try {
       const formData = new FormData();
@@ -162,9 +219,13 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
       formData.append('semester', selectedSemester);
       formData.append('subject', selectedSubject);
       formData.append('contentType', selectedContentType);
-      if (selectedContentType === 'notes') {
+      if (isModular(selectedContentType)) {
         formData.append('module', selectedModule);
       }
+      Object.entries(applicableFields(selectedContentType, uploadMetadata)).forEach(([name, value]) => value && formData.append(name, value));
+      if (duplicateAction) {
+        formData.append('duplicateAction', duplicateAction);
+      }
 
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/upload`,
@@ -178,18 +239,87 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
       );
 
       if (response.ok) {
-        setMessage('File uploaded successfully!');
+        setMessage(duplicateAction === 'link' ? 'Existing file linked successfully!' : 'File uploaded successfully!');
         fetchContent(); // Refresh content
-        event.target.value = ''; // Clear file input
-      } else {
-        const errorData = await response.json();
-        setMessage(`Upload failed: ${errorData.error || 'Unknown error'}`);
+        return true;
+      }
+
+      const errorData = await response.json();
+      if (response.status === 409 && errorData.duplicate) {
+        setPendingDuplicate({ file, existing: errorData.duplicate, canLink: errorData.canLink });
+        return false;
       }
+      setFieldErrors(errorData.fieldErrors || {});
+      setMessage(`Upload failed: ${errorData.error || 'Unknown error'}`);
     } catch (error) {
       setMessage(`Upload error: ${error}`);
     } finally {
       setUploading(false);
     }
+    return false;
+  };
+
+  const addLink = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setUploading(true);
+    setMessage('');
+    setFieldErrors({});
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/links`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            department: selectedDepartment,
+            semester: selectedSemester,
+            subject: selectedSubject,
+            contentType: selectedContentType,
+            title: linkTitle,
+            url: linkUrl,
+          }),
+        }
+      );
+
+      if (response.ok) {
+        setMessage('Link added successfully!');
+        setLinkTitle('');
+        setLinkUrl('');
+        fetchContent();
+        return;
+      }
+
+      const errorData = await response.json();
+      setFieldErrors(errorData.fieldErrors || {});
+      setMessage(`Adding link failed: ${errorData.error || 'Unknown error'}`);
+    } catch (error) {
+      setMessage(`Error adding link: ${error}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    if (!selectedDepartment || !selectedSemester || !selectedSubject || !selectedContentType) {
+      setMessage('Please select department, semester, subject, and content type before uploading.');
+      return;
+    }
+
+    if (isModular(selectedContentType) && !selectedModule) {
+      setMessage('Please select a module for this upload.');
+      return;
+    }
+
+    await uploadFile(file);
+    input.value = ''; // Clear file input
   };
 
   const handleDeleteFile = async (fileId: string) => {
@@ -205,7 +335,7 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
       );
 
       if (response.ok) {
-        setMessage('File deleted successfully!');
+        setMessage('File moved to trash successfully!');
         fetchContent(); // Refresh content
       } else {
         const errorData = await response.json();
@@ -216,10 +346,75 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
     }
   };
 
-  const downloadFile = async (filePath: string, fileName: string) => {
+  // Upload a new version of the file picked with the Replace button
+  const handleReplaceFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    const target = replaceTarget;
+    input.value = ''; // Clear file input
+    setReplaceTarget(null);
+    if (!file || !target) return;
+
+    setUploading(true);
+    setMessage('');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/files/${target.id}/replace`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          body: formData,
+        }
+      );
+
+      if (response.ok) {
+        setMessage(`${target.name} replaced successfully!`);
+        fetchContent(); // Refresh content
+      } else {
+        const errorData = await response.json();
+        setMessage(`Replace failed: ${errorData.fieldErrors?.file || errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      setMessage(`Replace error: ${error}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRollback = async (file: FileRecord, version: number) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/files/${file.id}/rollback`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ version }),
+        }
+      );
+
+      if (response.ok) {
+        setMessage(`Version ${version} of ${file.name} restored successfully!`);
+        fetchContent(); // Refresh content
+      } else {
+        const errorData = await response.json();
+        setMessage(`Restore failed: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      setMessage(`Restore error: ${error}`);
+    }
+  };
+
+  const downloadFile = async ({ id, name: fileName }: Pick<FileRecord, 'id' | 'name'>) => {
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/download/${encodeURIComponent(filePath)}`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/download/${encodeURIComponent(id)}`,
         {
           method: 'GET',
           headers: {
@@ -244,7 +439,32 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
     }
   };
 
-  const renderFileList = (files: FileRecord[], canDelete = true) => (
+  const selectSubject = (department: string, semester: string, subject: string) => {
+    go({ tab: 'content', department, semester, subject });
+  };
+
+  const selectUploadTarget = (department: string, semester: string, subject: string, contentType: string, module?: number) => {
+    selectSubject(department, semester, subject);
+    setSelectedContentType(contentType);
+    setSelectedModule(module ? String(module) : '');
+    setFieldErrors({});
+    setPickFileRequested(true);
+  };
+
+  useEffect(() => {
+    const input = document.getElementById('admin-upload-file') as HTMLInputElement | null;
+    if (pickFileRequested && input && !input.disabled) {
+      setPickFileRequested(false);
+      input.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      input.click();
+    }
+  }, [pickFileRequested, selectedDepartment, selectedSemester, selectedSubject, selectedContentType, selectedModule, uploading, activeTab]);
+
+  const renderFieldError = (field: keyof UploadFieldErrors) => fieldErrors[field] && (
+    <p className="text-sm text-destructive mt-1">{fieldErrors[field]}</p>
+  );
+
+  const renderFileList = (files: FileRecord[], placement: Pick<FileLocation, 'contentType' | 'module'>, canDelete = canModerate) => (
     <div className="space-y-2">
       {files.length === 0 ? (
         <motion.div 
@@ -261,40 +481,280 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
             initial={{ x: -50, opacity: 0 }}
             animate={{ x: 0, opacity: 1 }}
             transition={{ delay: index * 0.1 }}
-            className="flex items-center justify-between p-3 border border-border rounded-lg bg-card/30 hover:bg-card/50 hover:border-primary/30 transition-all duration-300 hover-lift"
+            className="p-3 border border-border rounded-lg bg-card/30 hover:bg-card/50 hover:border-primary/30 transition-all duration-300 hover-lift"
           >
+          <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <div className="p-1 bg-primary/10 rounded">
-                <FileText className="h-4 w-4 text-primary" />
+                {file.url ? <ExternalLink className="h-4 w-4 text-primary" /> : <FileText className="h-4 w-4 text-primary" />}
               </div>
               <span className="text-sm font-medium text-foreground">{file.name}</span>
+              {file.version && file.version > 1 && (
+                <Badge variant="outline" className="border-primary/30 text-xs" title={file.updatedAt && `Updated ${new Date(file.updatedAt).toLocaleString()}`}>
+                  v{file.version}
+                </Badge>
+              )}
+              {metadataLabels(file.metadata).map((label) => (
+                <Badge key={label} variant="secondary" className="bg-primary/10 text-primary text-xs">{label}</Badge>
+              ))}
+              {file.contributedBy && (
+                <Badge variant="outline" className="border-green-500/30 text-green-400 text-xs">By {file.contributedBy}</Badge>
+              )}
             </div>
             <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => downloadFile(file.path, file.name)}
-                className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
-              >
-                <Download className="h-4 w-4" />
-              </Button>
-              {canDelete && (
+              {canUploadHere && hasPaperMetadata(placement.contentType) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMetadataTarget({ file, contentType: placement.contentType })}
+                  title="Paper details"
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  <Tags className="h-4 w-4" />
+                </Button>
+              )}
+              {file.versions && file.versions.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHistoryFileId(historyFileId === file.id ? null : file.id)}
+                  title="Version history"
+                  className={`hover-scale border-primary/30 hover:border-primary hover:bg-primary/10 ${historyFileId === file.id ? 'bg-primary/10 border-primary' : ''}`}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
+              {canUploadHere && !file.url && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setReplaceTarget(file);
+                    document.getElementById('admin-replace-file')?.click();
+                  }}
+                  disabled={uploading}
+                  title="Upload a new version"
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+              {!file.url && previewKind(file) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPreviewFile(file)}
+                  className={`hover-scale border-primary/30 hover:border-primary hover:bg-primary/10 ${previewFile?.id === file.id ? 'bg-primary/10 border-primary' : ''}`}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              {file.url ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                  title="Open link"
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  <a href={file.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              ) : (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleDeleteFile(file.id)}
-                  className="hover-scale border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+                  onClick={() => {
+                    remember({
+                      kind: 'file',
+                      file: { id: file.id, name: file.name, path: file.path },
+                      location: { department: selectedDepartment, semester: selectedSemester, subject: selectedSubject, ...placement },
+                    });
+                    downloadFile(file);
+                  }}
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
                 >
-                  <Trash2 className="h-4 w-4" />
+                  <Download className="h-4 w-4" />
                 </Button>
               )}
+              {canDelete && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="hover-scale border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="bg-card border-border">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {file.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The file is moved to the trash. It can be restored from the Trash tab until it is purged.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDeleteFile(file.id)} className="bg-destructive hover:bg-destructive/90">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+          {historyFileId === file.id && file.versions && (
+            <div className="mt-3 space-y-1 border-t border-border pt-2">
+              {file.versions.map((version) => (
+                <div key={version.version} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground truncate">
+                    v{version.version} · {version.name} · {new Date(version.uploadedAt).toLocaleString()}
+                    {version.restoredFrom && ` · restored from v${version.restoredFrom}`}
+                  </span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadVersion(file.id, version, token)}
+                      title={`Download v${version.version}`}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {canUploadHere && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRollback(file, version.version)}
+                        title={`Restore v${version.version}`}
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
             </div>
+          )}
           </motion.div>
         ))
       )}
     </div>
   );
 
+  const fileTabs = contentStructure && categories.length > 0 && (
+    <Tabs key={selectedSubject} defaultValue={categories[0].id} className="w-full">
+      <input id="admin-replace-file" type="file" hidden onChange={handleReplaceFile} accept=".pdf,.doc,.docx,.txt,.ppt,.pptx" />
+      <PaperMetadataDialog
+        token={token}
+        file={metadataTarget?.file ?? null}
+        contentType={metadataTarget?.contentType ?? 'previousYearPaper'}
+        onClose={() => setMetadataTarget(null)}
+        onSaved={(savedMessage) => {
+          setMessage(savedMessage);
+          fetchContent(); // Refresh content
+        }}
+      />
+      <TabsList className="flex flex-wrap h-auto w-full bg-card/50 border border-border">
+        {categories.map((category) => (
+          <TabsTrigger
+            key={category.id}
+            value={category.id}
+            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+          >
+            {category.label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {categories.map((category) => (
+        <TabsContent key={category.id} value={category.id} className="mt-6">
+          {category.modular ? (
+            <div className="space-y-6">
+              {Array.from({ length: moduleCount }, (_, i) => i + 1).map((module) => (
+                <div key={module}>
+                  <h4 className="font-medium mb-3 text-foreground border-b border-border pb-2">
+                    Module {module}
+                  </h4>
+                  {renderFileList(categoryFiles(contentStructure, category.id, module), { contentType: category.id, module })}
+                </div>
+              ))}
+            </div>
+          ) : (
+            renderFileList(categoryFiles(contentStructure, category.id), { contentType: category.id })
+          )}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+
+  if (accessLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // A session restored without its two-factor step has to finish it here
+  if (access?.mfa === 'pending' && access.permissions.length > 0) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="glass-morphism border-border/50 max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Two-factor verification
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">{access.email}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {/* The new token reaches the dashboard through the auth state listener in App */}
+            <MfaChallenge token={token} onComplete={() => {}} />
+            <Button onClick={onLogout} variant="outline" className="w-full">
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Signed-in students (and users whose access couldn't be loaded) have nothing to manage here
+  if (!access || access.permissions.length === 0) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="glass-morphism border-border/50 max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <Shield className="h-5 w-5 text-primary" />
+              No admin access
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              {access?.email || 'This account'} doesn't have permission to manage content. Ask a super admin to grant you a role.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button onClick={onLeave} className="w-full bg-primary hover:bg-primary/90">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Back to the notes
+            </Button>
+            {access?.role !== 'student' && (
+              <Button onClick={onLogout} variant="outline" className="w-full">
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Animated background */}
@@ -322,14 +782,47 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-foreground gradient-text">Admin Dashboard</h1>
-                <p className="text-muted-foreground">ANH Atria Notes Hub Management</p>
+                <p className="text-muted-foreground flex items-center gap-2">
+                  ANH Atria Notes Hub Management
+                  {access && (
+                    <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">{ROLE_LABELS[access.role]}</Badge>
+                  )}
+                </p>
               </div>
             </motion.div>
             <motion.div
               initial={{ x: 50, opacity: 0 }}
               animate={{ x: 0, opacity: 1 }}
               transition={{ duration: 0.6, delay: 0.4 }}
+              className="flex items-center gap-3"
             >
+              <CommandPalette
+                catalog={catalog}
+                recent={recent}
+                onSelectSubject={selectSubject}
+                onSelectFile={({ file, location }) => {
+                  selectSubject(location.department, location.semester, location.subject);
+                  downloadFile(file);
+                }}
+                actionGroups={[
+                  {
+                    heading: 'Dashboard',
+                    actions: [
+                      { id: 'open content', label: 'Manage content', icon: Upload, onSelect: () => setActiveTab('content') },
+                      ...(canManageCatalog ? [{ id: 'open catalog', label: 'Manage catalog', keywords: ['departments', 'semesters', 'subjects'], icon: Layers, onSelect: () => setActiveTab('catalog') }] : []),
+                      ...(can(access, 'files:moderate') ? [{ id: 'open contributions', label: 'Review contributions', keywords: ['students', 'submissions', 'pending', 'approve'], icon: Inbox, onSelect: () => setActiveTab('contributions') }] : []),
+                      ...(can(access, 'files:moderate') ? [{ id: 'open reports', label: 'Review reports', keywords: ['flags', 'moderation', 'problems'], icon: Flag, onSelect: () => setActiveTab('reports') }] : []),
+                      ...(can(access, 'files:moderate') ? [{ id: 'open trash', label: 'Open trash', keywords: ['deleted', 'restore'], icon: Trash2, onSelect: () => setActiveTab('trash') }] : []),
+                      ...(canUpload ? [{ id: 'open coverage', label: 'View coverage', keywords: ['gaps', 'missing', 'empty'], icon: Grid3x3, onSelect: () => setActiveTab('coverage') }] : []),
+                      ...(can(access, 'insights:view') ? [{ id: 'open insights', label: 'View insights', keywords: ['analytics', 'downloads', 'usage'], icon: BarChart3, onSelect: () => setActiveTab('insights') }] : []),
+                      ...(can(access, 'audit:view') ? [{ id: 'open activity', label: 'View activity', keywords: ['audit', 'history', 'log'], icon: History, onSelect: () => setActiveTab('activity') }] : []),
+                      ...(can(access, 'roles:manage') ? [{ id: 'open users', label: 'Manage users', keywords: ['roles', 'admins', 'moderators'], icon: Users, onSelect: () => setActiveTab('users') }] : []),
+                      { id: 'logout', label: 'Logout', keywords: ['sign out'], icon: LogOut, onSelect: onLogout },
+                    ],
+                  },
+                  { heading: 'Upload', actions: canUpload ? uploadActions({ ...catalog, departments: manageableDepartments }, selectUploadTarget, Upload) : [] },
+                ]}
+              />
               <Button 
                 onClick={onLogout} 
                 variant="outline"
@@ -363,242 +856,497 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
           </motion.div>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-6">
-          {/* Selection Panel */}
-          <motion.div
-            initial={{ x: -100, opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            transition={{ duration: 0.6, delay: 0.1 }}
-          >
-            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-foreground">
-                  <Settings className="h-5 w-5 text-primary" />
-                  Content Selection
-                </CardTitle>
-                <CardDescription className="text-muted-foreground">Select department, semester, and subject</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label className="text-foreground">Department</Label>
-                  <Select value={selectedDepartment} onValueChange={setSelectedDepartment}>
-                    <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
-                      <SelectValue placeholder="Select department" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border">
-                      {departments.map((dept) => (
-                        <SelectItem key={dept} value={dept} className="hover:bg-primary/10">{dept}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+        {access.mfa === 'not-enrolled' && (
+          <Alert className="mt-4 border-yellow-500/20 bg-yellow-500/10 text-yellow-400">
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>Set up two-factor authentication to make changes. Until then the dashboard is read-only.</span>
+              <Button size="sm" onClick={() => setMfaSetupOpen(true)} className="bg-primary hover:bg-primary/90">
+                <ShieldCheck className="h-4 w-4" />
+                Set up
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+        <MfaEnrollment open={mfaSetupOpen} onOpenChange={setMfaSetupOpen} onMessage={setMessage} />
 
-                <div>
-                  <Label className="text-foreground">Semester</Label>
-                  <Select value={selectedSemester} onValueChange={setSelectedSemester}>
-                    <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
-                      <SelectValue placeholder="Select semester" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border">
-                      {semesters.map((sem) => (
-                        <SelectItem key={sem} value={sem.toString()} className="hover:bg-primary/10">{sem}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full mt-6">
+          <TabsList className="bg-card/50 border border-border">
+            <TabsTrigger value="content" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              <Upload className="h-4 w-4" />
+              Content
+            </TabsTrigger>
+            {canManageCatalog && (
+              <TabsTrigger value="catalog" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Layers className="h-4 w-4" />
+                Catalog
+              </TabsTrigger>
+            )}
+            {canUpload && (
+              <TabsTrigger value="coverage" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Grid3x3 className="h-4 w-4" />
+                Coverage
+              </TabsTrigger>
+            )}
+            {can(access, 'files:moderate') && (
+              <TabsTrigger value="contributions" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Inbox className="h-4 w-4" />
+                Contributions
+              </TabsTrigger>
+            )}
+            {can(access, 'files:moderate') && (
+              <TabsTrigger value="reports" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Flag className="h-4 w-4" />
+                Reports
+              </TabsTrigger>
+            )}
+            {can(access, 'files:moderate') && (
+              <TabsTrigger value="trash" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Trash2 className="h-4 w-4" />
+                Trash
+              </TabsTrigger>
+            )}
+            {can(access, 'insights:view') && (
+              <TabsTrigger value="insights" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <BarChart3 className="h-4 w-4" />
+                Insights
+              </TabsTrigger>
+            )}
+            {can(access, 'audit:view') && (
+              <TabsTrigger value="activity" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <History className="h-4 w-4" />
+                Activity
+              </TabsTrigger>
+            )}
+            {can(access, 'roles:manage') && (
+              <TabsTrigger value="users" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                <Users className="h-4 w-4" />
+                Users
+              </TabsTrigger>
+            )}
+          </TabsList>
 
-                <div>
-                  <Label className="text-foreground">Subject</Label>
-                  <div className="space-y-2">
-                    <Select value={selectedSubject} onValueChange={setSelectedSubject}>
-                      <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
-                        <SelectValue placeholder="Select or add subject" />
-                      </SelectTrigger>
-                      <SelectContent className="bg-card border-border">
-                        {subjects.map((subject) => (
-                          <SelectItem key={subject} value={subject} className="hover:bg-primary/10">{subject}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <div className="flex gap-2">
-                      <Input
-                        placeholder="New subject name"
-                        value={newSubjectName}
-                        onChange={(e) => setNewSubjectName(e.target.value)}
-                        className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
-                      />
-                      <Button 
-                        onClick={addNewSubject} 
-                        size="sm"
-                        className="bg-primary hover:bg-primary/90 hover-scale"
-                      >
-                        <Plus className="h-4 w-4" />
-                      </Button>
+          <TabsContent value="content">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-6">
+              {/* Selection Panel */}
+              <motion.div
+                initial={{ x: -100, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ duration: 0.6, delay: 0.1 }}
+              >
+                <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-foreground">
+                      <Settings className="h-5 w-5 text-primary" />
+                      Content Selection
+                    </CardTitle>
+                    <CardDescription className="text-muted-foreground">Select department, semester, and subject</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label className="text-foreground">Department</Label>
+                      <Select value={selectedDepartment} onValueChange={setSelectedDepartment}>
+                        <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                          <SelectValue placeholder="Select department" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-card border-border">
+                          {manageableDepartments.map((dept) => (
+                            <SelectItem key={dept} value={dept} className="hover:bg-primary/10">
+                              {dept}{catalog.archivedDepartments.includes(dept) ? ' (archived)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {renderFieldError('department')}
                     </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
 
-          {/* Upload Panel */}
-          <motion.div
-            initial={{ y: 100, opacity: 0 }}
-            animate={{ y: 0, opacity: 1 }}
-            transition={{ duration: 0.6, delay: 0.2 }}
-          >
-            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-foreground">
-                  <Upload className="h-5 w-5 text-primary" />
-                  Upload Content
-                </CardTitle>
-                <CardDescription className="text-muted-foreground">Upload files for the selected subject</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label className="text-foreground">Content Type</Label>
-                  <Select value={selectedContentType} onValueChange={setSelectedContentType}>
-                    <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
-                      <SelectValue placeholder="Select content type" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border">
-                      <SelectItem value="previousYearPaper" className="hover:bg-primary/10">Previous Year Paper</SelectItem>
-                      <SelectItem value="iaPaper" className="hover:bg-primary/10">IA Paper</SelectItem>
-                      <SelectItem value="notes" className="hover:bg-primary/10">Notes</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    <div>
+                      <Label className="text-foreground">Semester</Label>
+                      <Select value={selectedSemester} onValueChange={setSelectedSemester}>
+                        <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                          <SelectValue placeholder="Select semester" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-card border-border">
+                          {catalog.semesters.map((sem) => (
+                            <SelectItem key={sem} value={sem.toString()} className="hover:bg-primary/10">{sem}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {renderFieldError('semester')}
+                    </div>
 
-                {selectedContentType === 'notes' && (
-                  <div>
-                    <Label className="text-foreground">Module</Label>
-                    <Select value={selectedModule} onValueChange={setSelectedModule}>
-                      <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
-                        <SelectValue placeholder="Select module" />
-                      </SelectTrigger>
-                      <SelectContent className="bg-card border-border">
-                        <SelectItem value="1" className="hover:bg-primary/10">Module 1</SelectItem>
-                        <SelectItem value="2" className="hover:bg-primary/10">Module 2</SelectItem>
-                        <SelectItem value="3" className="hover:bg-primary/10">Module 3</SelectItem>
-                        <SelectItem value="4" className="hover:bg-primary/10">Module 4</SelectItem>
-                        <SelectItem value="5" className="hover:bg-primary/10">Module 5</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                )}
-
-                <div>
-                  <Label className="text-foreground">File</Label>
-                  <Input
-                    type="file"
-                    onChange={handleFileUpload}
-                    disabled={uploading || !selectedDepartment || !selectedSemester || !selectedSubject || !selectedContentType}
-                    accept=".pdf,.doc,.docx,.txt,.ppt,.pptx"
-                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
-                  />
-                  {uploading && (
-                    <div className="text-sm text-primary mt-2 flex items-center gap-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-                      Uploading...
+                    <div>
+                      <Label className="text-foreground">Subject</Label>
+                      <div className="space-y-2">
+                        <Select value={selectedSubject} onValueChange={setSelectedSubject}>
+                          <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                            <SelectValue placeholder="Select or add subject" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card border-border">
+                            {subjects.map((subject) => (
+                              <SelectItem key={subject} value={subject} className="hover:bg-primary/10">
+                                {subject}{isSubjectArchived(catalog, selectedDepartment, selectedSemester, subject) ? ' (archived)' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {renderFieldError('subject')}
+                        {can(access, 'catalog:subjects') && (
+                          <div className="flex gap-2">
+                            <Input
+                              placeholder="New subject name"
+                              value={newSubjectName}
+                              onChange={(e) => setNewSubjectName(e.target.value)}
+                              className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                            />
+                            <Button 
+                              onClick={addNewSubject} 
+                              size="sm"
+                              className="bg-primary hover:bg-primary/90 hover-scale"
+                            >
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
+                  </CardContent>
+                </Card>
+              </motion.div>
 
-          {/* Status Panel */}
-          <motion.div
-            initial={{ x: 100, opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            transition={{ duration: 0.6, delay: 0.3 }}
-          >
-            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-foreground">
-                  <Database className="h-5 w-5 text-primary" />
-                  Current Selection
-                </CardTitle>
-                <CardDescription className="text-muted-foreground">Selected content details</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-muted-foreground">Department:</span>
-                    <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
-                      {selectedDepartment || 'None'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-muted-foreground">Semester:</span>
-                    <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
-                      {selectedSemester || 'None'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-muted-foreground">Subject:</span>
-                    <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
-                      {selectedSubject || 'None'}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
-        </div>
+              {/* Upload Panel */}
+              {canUpload && (
+                <motion.div
+                  initial={{ y: 100, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ duration: 0.6, delay: 0.2 }}
+                >
+                  <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-foreground">
+                        <Upload className="h-5 w-5 text-primary" />
+                        Upload Content
+                      </CardTitle>
+                      <CardDescription className="text-muted-foreground">Upload files for the selected subject</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <Label className="text-foreground">Content Type</Label>
+                        <Select value={selectedContentType} onValueChange={setSelectedContentType}>
+                          <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                            <SelectValue placeholder="Select content type" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card border-border">
+                            {categories.map(({ id, label }) => (
+                              <SelectItem key={id} value={id} className="hover:bg-primary/10">{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {renderFieldError('contentType')}
+                      </div>
 
-        {/* Content Management */}
-        {contentStructure && selectedSubject && (
-          <motion.div
-            initial={{ y: 100, opacity: 0 }}
-            animate={{ y: 0, opacity: 1 }}
-            transition={{ duration: 0.8, delay: 0.4 }}
-          >
-            <Card className="mt-8 glass-morphism border-border/50 shadow-2xl">
-              <CardHeader className="gradient-bg-secondary border-b border-border/50">
-                <CardTitle className="text-foreground">Manage Content for {selectedSubject}</CardTitle>
-                <CardDescription className="text-muted-foreground">{selectedDepartment} - Semester {selectedSemester}</CardDescription>
-              </CardHeader>
-              <CardContent className="p-6">
-                <Tabs defaultValue="previous-year" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3 bg-card/50 border border-border">
-                    <TabsTrigger value="previous-year" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      Previous Year Papers
-                    </TabsTrigger>
-                    <TabsTrigger value="ia" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      IA Papers
-                    </TabsTrigger>
-                    <TabsTrigger value="notes" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      Notes
-                    </TabsTrigger>
-                  </TabsList>
-
-                  <TabsContent value="previous-year" className="mt-6">
-                    {renderFileList(contentStructure.previousYearPapers)}
-                  </TabsContent>
-
-                  <TabsContent value="ia" className="mt-6">
-                    {renderFileList(contentStructure.iaPapers)}
-                  </TabsContent>
-
-                  <TabsContent value="notes" className="mt-6">
-                    <div className="space-y-6">
-                      {Object.entries(contentStructure.notes).map(([module, files]) => (
-                        <div key={module}>
-                          <h4 className="font-medium mb-3 text-foreground capitalize border-b border-border pb-2">
-                            {module.replace('module', 'Module ')}
-                          </h4>
-                          {renderFileList(files)}
+                      {isModular(selectedContentType) && (
+                        <div>
+                          <Label className="text-foreground">Module</Label>
+                          <Select value={selectedModule} onValueChange={setSelectedModule}>
+                            <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                              <SelectValue placeholder="Select module" />
+                            </SelectTrigger>
+                            <SelectContent className="bg-card border-border">
+                              {Array.from({ length: moduleCount }, (_, i) => String(i + 1)).map((module) => (
+                                <SelectItem key={module} value={module} className="hover:bg-primary/10">Module {module}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {renderFieldError('module')}
                         </div>
-                      ))}
+                      )}
+
+                      {hasPaperMetadata(selectedContentType) && (
+                        <PaperMetadataFields
+                          contentType={selectedContentType}
+                          value={uploadMetadata}
+                          onChange={setUploadMetadata}
+                          errors={fieldErrors}
+                        />
+                      )}
+
+                      {holdsLinks(selectedContentType) ? (
+                        <form onSubmit={addLink} className="space-y-4">
+                          <div>
+                            <Label htmlFor="admin-link-title" className="text-foreground">Title</Label>
+                            <Input
+                              id="admin-link-title"
+                              value={linkTitle}
+                              onChange={(e) => setLinkTitle(e.target.value)}
+                              maxLength={200}
+                              placeholder="e.g. Module 1 lecture"
+                              className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                            />
+                            {renderFieldError('title')}
+                          </div>
+                          <div>
+                            <Label htmlFor="admin-link-url" className="text-foreground">URL</Label>
+                            <Input
+                              id="admin-link-url"
+                              type="url"
+                              value={linkUrl}
+                              onChange={(e) => setLinkUrl(e.target.value)}
+                              placeholder="https://youtu.be/..."
+                              className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                            />
+                            {renderFieldError('url')}
+                          </div>
+                          <Button
+                            type="submit"
+                            disabled={uploading || !selectedSubject || !linkTitle.trim() || !linkUrl.trim()}
+                            className="w-full bg-primary hover:bg-primary/90 hover-scale"
+                          >
+                            <Plus className="h-4 w-4 mr-2" />
+                            {uploading ? 'Adding...' : 'Add link'}
+                          </Button>
+                        </form>
+                      ) : (
+                        <div>
+                          <Label htmlFor="admin-upload-file" className="text-foreground">File</Label>
+                          <Input
+                            id="admin-upload-file"
+                            type="file"
+                            onChange={handleFileUpload}
+                            disabled={uploading || !selectedDepartment || !selectedSemester || !selectedSubject || !selectedContentType}
+                            accept=".pdf,.doc,.docx,.txt,.ppt,.pptx"
+                            className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                          />
+                          {renderFieldError('file')}
+                          {pendingDuplicate && (
+                            <Alert className="mt-2 border-yellow-500/20 bg-yellow-500/10 text-yellow-400">
+                              <AlertDescription>
+                                <p>
+                                  {pendingDuplicate.existing.file.name} with identical contents is already filed under{' '}
+                                  {placementLabel(catalog.categories, pendingDuplicate.existing)}.
+                                </p>
+                                <div className="flex gap-2 mt-2">
+                                  {pendingDuplicate.canLink && (
+                                    <Button
+                                      size="sm"
+                                      onClick={() => uploadFile(pendingDuplicate.file, 'link')}
+                                      className="bg-primary hover:bg-primary/90 hover-scale"
+                                    >
+                                      <Link2 className="h-4 w-4" />
+                                      Link existing
+                                    </Button>
+                                  )}
+                                  <Button size="sm" variant="outline" onClick={() => setPendingDuplicate(null)}>
+                                    Dismiss
+                                  </Button>
+                                </div>
+                              </AlertDescription>
+                            </Alert>
+                          )}
+                          {uploading && (
+                            <div className="text-sm text-primary mt-2 flex items-center gap-2">
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+                              Uploading...
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )}
+
+              {/* Status Panel */}
+              <motion.div
+                initial={{ x: 100, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ duration: 0.6, delay: 0.3 }}
+              >
+                <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300 hover-lift">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-foreground">
+                      <Database className="h-5 w-5 text-primary" />
+                      Current Selection
+                    </CardTitle>
+                    <CardDescription className="text-muted-foreground">Selected content details</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">Department:</span>
+                        <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
+                          {selectedDepartment || 'None'}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">Semester:</span>
+                        <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
+                          {selectedSemester || 'None'}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">Subject:</span>
+                        <Badge variant="outline" className="border-primary/30 hover:border-primary hover-scale">
+                          {selectedSubject || 'None'}
+                        </Badge>
+                      </div>
                     </div>
-                  </TabsContent>
-                </Tabs>
-              </CardContent>
-            </Card>
-          </motion.div>
-        )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            </div>
+
+            {canUploadHere && selectedSubject && (
+              <BulkUpload
+                key={`${selectedDepartment}/${selectedSemester}/${selectedSubject}`}
+                token={token}
+                department={selectedDepartment}
+                semester={selectedSemester}
+                subject={selectedSubject}
+                categories={categories}
+                modules={moduleCount}
+                defaultContentType={selectedContentType}
+                defaultModule={selectedModule}
+                onUploaded={fetchContent}
+              />
+            )}
+
+            {canUpload && (
+              <ZipImport
+                token={token}
+                categories={catalog.categories}
+                onMessage={setMessage}
+                onImported={() => {
+                  refreshCatalog();
+                  if (selectedSubject) fetchContent();
+                }}
+              />
+            )}
+
+            {/* Content Management */}
+            {contentStructure && selectedSubject && (
+              <motion.div
+                initial={{ y: 100, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ duration: 0.8, delay: 0.4 }}
+              >
+                <Card className="mt-8 glass-morphism border-border/50 shadow-2xl">
+                  <CardHeader className="gradient-bg-secondary border-b border-border/50">
+                    <CardTitle className="text-foreground">Manage Content for {selectedSubject}</CardTitle>
+                    <CardDescription className="text-muted-foreground">{selectedDepartment} - Semester {selectedSemester}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    {previewFile ? (
+                      <ResizablePanelGroup
+                        direction={isMobile ? 'vertical' : 'horizontal'}
+                        className="min-h-[75vh] rounded-lg border border-border"
+                      >
+                        <ResizablePanel defaultSize={45} minSize={25} className="!overflow-auto p-4">
+                          {fileTabs}
+                        </ResizablePanel>
+                        <ResizableHandle withHandle />
+                        <ResizablePanel defaultSize={55} minSize={30}>
+                          <FilePreview
+                            file={previewFile}
+                            token={token}
+                            onDownload={() => downloadFile(previewFile)}
+                            onClose={() => setPreviewFile(null)}
+                          />
+                        </ResizablePanel>
+                      </ResizablePanelGroup>
+                    ) : (
+                      fileTabs
+                    )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
+          </TabsContent>
+
+          {canManageCatalog && (
+            <TabsContent value="catalog">
+              <CatalogManager
+                token={token}
+                catalog={catalog}
+                onCatalogChange={setCatalog}
+                onMessage={setMessage}
+                canEditStructure={can(access, 'catalog:structure')}
+                subjectDepartments={can(access, 'catalog:subjects') ? manageableDepartments : []}
+              />
+            </TabsContent>
+          )}
+
+          {canUpload && (
+            <TabsContent value="coverage">
+              <CoverageReport token={token} departments={manageableDepartments} onUpload={selectUploadTarget} />
+            </TabsContent>
+          )}
+
+          {can(access, 'files:moderate') && (
+            <TabsContent value="contributions">
+              <ContributionQueue
+                token={token}
+                catalog={catalog}
+                departments={manageableDepartments}
+                onMessage={setMessage}
+                onPublished={(location) => {
+                  if (location.department === selectedDepartment && location.semester === selectedSemester && location.subject === selectedSubject) {
+                    fetchContent();
+                  }
+                }}
+              />
+            </TabsContent>
+          )}
+
+          {can(access, 'files:moderate') && (
+            <TabsContent value="reports">
+              <ModerationQueue
+                token={token}
+                catalog={catalog}
+                departments={manageableDepartments}
+                onMessage={setMessage}
+                onFileChanged={(location) => {
+                  if (location.department === selectedDepartment && location.semester === selectedSemester && location.subject === selectedSubject) {
+                    fetchContent();
+                  }
+                }}
+              />
+            </TabsContent>
+          )}
+
+          {can(access, 'files:moderate') && (
+            <TabsContent value="trash">
+              <TrashBin
+                token={token}
+                categories={catalog.categories}
+                onMessage={setMessage}
+                onRestore={(location) => {
+                  refreshCatalog(); // Restoring recreates a subject deleted in the meantime
+                  if (location.department === selectedDepartment && location.semester === selectedSemester && location.subject === selectedSubject) {
+                    fetchContent();
+                  }
+                }}
+              />
+            </TabsContent>
+          )}
+
+          {can(access, 'insights:view') && (
+            <TabsContent value="insights">
+              <InsightsPanel token={token} categories={catalog.categories} />
+            </TabsContent>
+          )}
+
+          {can(access, 'audit:view') && (
+            <TabsContent value="activity">
+              <ActivityLog token={token} departments={manageableDepartments} />
+            </TabsContent>
+          )}
+
+          {access && can(access, 'roles:manage') && (
+            <TabsContent value="users">
+              <RoleManager token={token} currentUserId={access.userId} departments={catalog.departments} onMessage={setMessage} />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </div>
   );
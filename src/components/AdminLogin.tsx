@@ -7,17 +7,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Alert, AlertDescription } from './ui/alert';
 import { Eye, EyeOff, LogIn, Shield, Sparkles } from 'lucide-react';
 import { supabase } from '../utils/supabase/client';
+import { needsMfaChallenge } from '../utils/mfa';
+import { MfaChallenge } from './MfaChallenge';
 
 interface AdminLoginProps {
   onLogin: (token: string) => void;
 }
 
 export function AdminLogin({ onLogin }: AdminLoginProps) {
-  const [email, setEmail] = useState('dhanush@atrianotes.com');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  // Set after the password step when the account also needs an authenticator code
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,7 +40,11 @@ export function AdminLogin({ onLogin }: AdminLoginProps) {
       }
 
       if (data.session?.access_token) {
-        onLogin(data.session.access_token);
+        if (await needsMfaChallenge()) {
+          setMfaToken(data.session.access_token);
+        } else {
+          onLogin(data.session.access_token);
+        }
       }
     } catch (err) {
       setError('Login failed. Please check your credentials.');
@@ -78,96 +86,100 @@ export function AdminLogin({ onLogin }: AdminLoginProps) {
                   Admin Access
                 </CardTitle>
                 <CardDescription className="text-muted-foreground">
-                  Secure access to ANH Atria Notes Hub administration
+                  {mfaToken ? 'Two-factor verification' : 'Secure access to ANH Atria Notes Hub administration'}
                 </CardDescription>
               </div>
             </CardHeader>
           </motion.div>
           
           <CardContent>
-            <motion.form 
-              onSubmit={handleLogin} 
-              className="space-y-4"
-              initial={{ y: 20, opacity: 0 }}
-              animate={{ y: 0, opacity: 1 }}
-              transition={{ delay: 0.5, duration: 0.6 }}
-            >
-              <div className="space-y-2">
-                <Label htmlFor="email" className="text-foreground">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  disabled
-                  className="bg-input/50 border-border text-muted-foreground"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-foreground">Password</Label>
-                <div className="relative">
+            {mfaToken ? (
+              <MfaChallenge token={mfaToken} onComplete={onLogin} />
+            ) : (
+              <motion.form 
+                onSubmit={handleLogin} 
+                className="space-y-4"
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.5, duration: 0.6 }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="email" className="text-foreground">Email</Label>
                   <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
                     required
-                    placeholder="Enter your password"
-                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors pr-12"
+                    placeholder="Enter your email"
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
                   />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-primary/10 hover-scale"
-                    onClick={() => setShowPassword(!showPassword)}
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-foreground">Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      placeholder="Enter your password"
+                      className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors pr-12"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-primary/10 hover-scale"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4 text-muted-foreground hover:text-primary transition-colors" />
+                      ) : (
+                        <Eye className="h-4 w-4 text-muted-foreground hover:text-primary transition-colors" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+                
+                {error && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3 }}
                   >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4 text-muted-foreground hover:text-primary transition-colors" />
+                    <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
+                      <AlertDescription className="text-destructive">{error}</AlertDescription>
+                    </Alert>
+                  </motion.div>
+                )}
+                
+                <motion.div
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Button 
+                    type="submit" 
+                    className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-300 hover-lift" 
+                    disabled={loading}
+                  >
+                    {loading ? (
+                      <div className="flex items-center gap-2">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground"></div>
+                        Signing In...
+                      </div>
                     ) : (
-                      <Eye className="h-4 w-4 text-muted-foreground hover:text-primary transition-colors" />
+                      <div className="flex items-center gap-2">
+                        <LogIn className="h-4 w-4" />
+                        Sign In
+                      </div>
                     )}
                   </Button>
-                </div>
-              </div>
-              
-              {error && (
-                <motion.div
-                  initial={{ opacity: 0, y: -10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ duration: 0.3 }}
-                >
-                  <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
-                    <AlertDescription className="text-destructive">{error}</AlertDescription>
-                  </Alert>
                 </motion.div>
-              )}
-              
-              <motion.div
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <Button 
-                  type="submit" 
-                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-300 hover-lift" 
-                  disabled={loading}
-                >
-                  {loading ? (
-                    <div className="flex items-center gap-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground"></div>
-                      Signing In...
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-2">
-                      <LogIn className="h-4 w-4" />
-                      Sign In
-                    </div>
-                  )}
-                </Button>
-              </motion.div>
-            </motion.form>
+              </motion.form>
+            )}
           </CardContent>
         </Card>
       </motion.div>
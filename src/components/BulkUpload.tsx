@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Progress } from './ui/progress';
+import { FolderOpen, Files, RotateCw, Upload, X } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Category } from '../utils/catalog';
+
+type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  // Path inside a dropped or chosen folder, used to infer the placement
+  relativePath: string;
+  contentType: string;
+  module: string;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+}
+
+interface BulkUploadProps {
+  token: string;
+  department: string;
+  semester: string;
+  subject: string;
+  // The categories the subject offers and its number of modules
+  categories: Category[];
+  modules: number;
+  // Placement for files whose folders don't say where they belong
+  defaultContentType: string;
+  defaultModule: string;
+  onUploaded: () => void;
+}
+
+const ACCEPTED_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt', 'ppt', 'pptx'];
+const PARALLEL_UPLOADS = 3;
+
+// Folder names for the original categories; other categories match their label
+const FOLDER_PATTERNS: Record<string, RegExp> = {
+  notes: /\bnotes?\b/,
+  iaPaper: /\bia\b|internal/,
+  previousYearPaper: /\bpyqs?\b|previous|question[\s_-]*papers?/,
+};
+
+// "Lab Manuals" matches folders like "lab manual" or "lab_manuals"
+const labelPattern = (label: string) => new RegExp(`\\b${
+  label.toLowerCase().trim().split(/\s+/).map((word) => word.replace(/s$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s_-]*')
+}s?\\b`);
+
+// Guess a file's category and module from the folders it sits in,
+// e.g. "Notes/Module 3/intro.pdf" or "IA/ia1.pdf"
+function inferPlacement(relativePath: string, categories: Category[], modules: number): { contentType?: string; module?: string } {
+  const folders = relativePath.toLowerCase().split('/').slice(0, -1).join('/');
+  const found = folders.match(/\bmod(?:ule)?[\s_-]*(\d+)/)?.[1];
+  const module = found && Number(found) >= 1 && Number(found) <= modules ? found : undefined;
+  const category = categories.find(({ id, label }) => (FOLDER_PATTERNS[id] ?? labelPattern(label)).test(folders));
+  if (category) {
+    return { contentType: category.id, module: category.modular ? module : undefined };
+  }
+  // A module folder on its own goes to the first category filed by module
+  const modular = categories.find((c) => c.modular);
+  return module && modular ? { contentType: modular.id, module } : {};
+}
+
+const isAccepted = (file: File) =>
+  !file.name.startsWith('.') && ACCEPTED_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+
+// Read every file inside a dropped folder, keeping its path
+async function readEntry(entry: FileSystemEntry, path = ''): Promise<Array<{ file: File; relativePath: string }>> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, relativePath: `${path}${file.name}` }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns at most 100 entries per call
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map((child) => readEntry(child, `${path}${entry.name}/`)));
+  return nested.flat();
+}
+
+// POST one file to the upload service, reporting upload progress (fetch can't)
+function sendUpload(formData: FormData, token: string, onProgress: (percent: number) => void): Promise<{ ok: boolean; data: any }> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/upload`);
+    request.setRequestHeader('Authorization', `Bearer ${token}`);
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    request.onload = () => {
+      let data: any = {};
+      try {
+        data = JSON.parse(request.responseText);
+      } catch {
+        data = { error: request.statusText };
+      }
+      resolve({ ok: request.status >= 200 && request.status < 300, data });
+    };
+    request.onerror = () => reject(new Error('Network error'));
+    request.send(formData);
+  });
+}
+
+const uploadError = (data: any) => {
+  if (data.duplicate) {
+    return `Identical to ${data.duplicate.file.name}, already in this subject`;
+  }
+  const fieldErrors: string[] = Object.values(data.fieldErrors ?? {});
+  return fieldErrors[0] ?? data.error ?? 'Upload failed';
+};
+
+// Drop zone for uploading many files to the selected subject at once
+export function BulkUpload({ token, department, semester, subject, categories, modules, defaultContentType, defaultModule, onUploaded }: BulkUploadProps) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [skipped, setSkipped] = useState(0);
+
+  const isModular = (contentType: string) => categories.some((c) => c.id === contentType && c.modular);
+  const offered = (contentType: string) => categories.some((c) => c.id === contentType);
+
+  const update = (id: string, changes: Partial<UploadItem>) =>
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+  const addFiles = (files: Array<{ file: File; relativePath: string }>) => {
+    const accepted = files.filter(({ file }) => isAccepted(file));
+    setSkipped(files.length - accepted.length);
+    setItems((current) => [
+      ...current,
+      ...accepted.map(({ file, relativePath }) => {
+        const inferred = inferPlacement(relativePath, categories, modules);
+        const contentType = inferred.contentType ?? (offered(defaultContentType) ? defaultContentType : '');
+        return {
+          id: crypto.randomUUID(),
+          file,
+          relativePath,
+          contentType,
+          module: inferred.module ?? (isModular(contentType) ? defaultModule : ''),
+          status: 'queued' as const,
+          progress: 0,
+        };
+      }),
+    ]);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const entries = Array.from(event.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length > 0) {
+      addFiles((await Promise.all(entries.map((entry) => readEntry(entry)))).flat());
+    } else {
+      addFiles(Array.from(event.dataTransfer.files).map((file) => ({ file, relativePath: file.name })));
+    }
+  };
+
+  const handlePick = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    addFiles(Array.from(input.files ?? []).map((file) => ({ file, relativePath: file.webkitRelativePath || file.name })));
+    input.value = ''; // Clear file input
+  };
+
+  const uploadItem = async (item: UploadItem) => {
+    update(item.id, { status: 'uploading', progress: 0, error: undefined });
+    try {
+      const formData = new FormData();
+      formData.append('file', item.file);
+      formData.append('department', department);
+      formData.append('semester', semester);
+      formData.append('subject', subject);
+      formData.append('contentType', item.contentType);
+      if (isModular(item.contentType)) {
+        formData.append('module', item.module);
+      }
+
+      const { ok, data } = await sendUpload(formData, token, (progress) => update(item.id, { progress }));
+      update(item.id, ok ? { status: 'done', progress: 100 } : { status: 'failed', error: uploadError(data) });
+      return ok;
+    } catch (error) {
+      update(item.id, { status: 'failed', error: String(error) });
+      return false;
+    }
+  };
+
+  // Upload the given items a few at a time, then refresh the file list once
+  const uploadAll = async (batch: UploadItem[]) => {
+    const queue = [...batch];
+    let uploaded = 0;
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        if (await uploadItem(item)) uploaded++;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PARALLEL_UPLOADS, queue.length) }, worker));
+    if (uploaded > 0) {
+      onUploaded();
+    }
+  };
+
+  const unplaced = (item: UploadItem) => !item.contentType || (isModular(item.contentType) && !item.module);
+  const queued = items.filter((item) => item.status === 'queued');
+  const busy = items.some((item) => item.status === 'uploading');
+  const finished = items.filter((item) => item.status === 'done').length;
+
+  return (
+    <motion.div
+      initial={{ y: 100, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="mt-8"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Files className="h-5 w-5 text-primary" />
+            Bulk Upload
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Drop files or whole folders for {subject}. Folders named like "Notes/Module 2", "IA", "PYQ" or a category name set where files go.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            onDragOver={(event) => {
+              event.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+              dragging ? 'border-primary bg-primary/10' : 'border-border bg-card/30'
+            }`}
+          >
+            <Upload className="h-8 w-8 text-primary" />
+            <p className="text-sm text-muted-foreground">Drag files or folders here</p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => document.getElementById('bulk-upload-files')?.click()}>
+                <Files className="h-4 w-4 mr-2" />
+                Choose files
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => document.getElementById('bulk-upload-folder')?.click()}>
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Choose folder
+              </Button>
+            </div>
+            <input id="bulk-upload-files" type="file" multiple hidden onChange={handlePick} accept={ACCEPTED_EXTENSIONS.map((ext) => `.${ext}`).join(',')} />
+            <input id="bulk-upload-folder" type="file" multiple hidden onChange={handlePick} {...{ webkitdirectory: '' }} />
+          </div>
+
+          {skipped > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Skipped {skipped} file{skipped === 1 ? '' : 's'} that aren't {ACCEPTED_EXTENSIONS.join(', ')}.
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.id} className="rounded-lg border border-border bg-card/30 p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="flex-1 min-w-40 truncate text-sm font-medium text-foreground" title={item.relativePath}>
+                      {item.relativePath}
+                    </span>
+                    <Select
+                      value={item.contentType}
+                      onValueChange={(value) => update(item.id, { contentType: value, module: isModular(value) ? item.module || defaultModule : '' })}
+                      disabled={item.status === 'uploading' || item.status === 'done'}
+                    >
+                      <SelectTrigger className="w-48 bg-input/50 border-border">
+                        <SelectValue placeholder="Content type" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-card border-border">
+                        {categories.map(({ id, label }) => (
+                          <SelectItem key={id} value={id}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isModular(item.contentType) && (
+                      <Select
+                        value={item.module}
+                        onValueChange={(module) => update(item.id, { module })}
+                        disabled={item.status === 'uploading' || item.status === 'done'}
+                      >
+                        <SelectTrigger className="w-32 bg-input/50 border-border">
+                          <SelectValue placeholder="Module" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-card border-border">
+                          {Array.from({ length: modules }, (_, i) => i + 1).map((module) => (
+                            <SelectItem key={module} value={String(module)}>Module {module}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {item.status === 'failed' && (
+                      <Button variant="ghost" size="sm" onClick={() => uploadAll([item])} disabled={unplaced(item)} title="Retry">
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {item.status !== 'uploading' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setItems((current) => current.filter((other) => other.id !== item.id))}
+                        title="Remove from list"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {item.status !== 'queued' && (
+                    <Progress value={item.progress} className={item.status === 'failed' ? 'bg-destructive/20' : ''} />
+                  )}
+                  {item.status === 'done' && <p className="text-xs text-green-400">Uploaded</p>}
+                  {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+                <span className="text-sm text-muted-foreground">
+                  {finished} of {items.length} uploaded
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setItems((current) => current.filter((item) => item.status !== 'done'))}
+                    disabled={finished === 0}
+                  >
+                    Clear uploaded
+                  </Button>
+                  <Button
+                    onClick={() => uploadAll(queued)}
+                    disabled={busy || queued.length === 0 || queued.some(unplaced)}
+                    className="bg-primary hover:bg-primary/90 hover-scale"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload {queued.length} file{queued.length === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              </div>
+              {queued.some(unplaced) && (
+                <p className="text-sm text-destructive">Choose a category and module for every file before uploading.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,651 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Building2, CalendarRange, BookOpen, Check, FolderTree, LayoutList, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Catalog, Category, MAX_MODULES, SubjectLayout, getLayout, getSubjects, isSubjectArchived } from '../utils/catalog';
+
+interface CatalogManagerProps {
+  token: string;
+  catalog: Catalog;
+  onCatalogChange: (catalog: Catalog) => void;
+  onMessage: (message: string) => void;
+  // Whether departments and semesters can be edited, not just subjects
+  canEditStructure: boolean;
+  // Departments whose subjects can be managed
+  subjectDepartments: string[];
+}
+
+interface CatalogEntryRowProps {
+  name: string;
+  archived: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  deleteWarning: string;
+  onMove: (offset: -1 | 1) => void;
+  onRename: (name: string) => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+  // Shown for subjects, to edit their categories and modules
+  onEditLayout?: () => void;
+}
+
+// Swap an entry with its neighbour, returning the new order
+const moveEntry = (list: string[], index: number, offset: -1 | 1) => {
+  const order = [...list];
+  [order[index], order[index + offset]] = [order[index + offset], order[index]];
+  return order;
+};
+
+function CatalogEntryRow({
+  name,
+  archived,
+  canMoveUp,
+  canMoveDown,
+  deleteWarning,
+  onMove,
+  onRename,
+  onToggleArchive,
+  onDelete,
+  onEditLayout,
+}: CatalogEntryRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(name);
+
+  const submitRename = () => {
+    setEditing(false);
+    if (draft.trim() && draft.trim() !== name) {
+      onRename(draft.trim());
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 border border-border rounded-lg bg-card/30 hover:bg-card/50 hover:border-primary/30 transition-all duration-300">
+      {editing ? (
+        <div className="flex flex-1 items-center gap-2">
+          <Input
+            value={draft}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitRename();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            className="bg-input/50 border-border focus:border-primary"
+          />
+          <Button variant="ghost" size="sm" onClick={submitRename}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className={`text-sm font-medium ${archived ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
+            {name}
+          </span>
+          {archived && <Badge variant="outline" className="border-border text-muted-foreground">Archived</Badge>}
+        </div>
+      )}
+      {!editing && (
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" disabled={!canMoveUp} onClick={() => onMove(-1)}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!canMoveDown} onClick={() => onMove(1)}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setDraft(name);
+              setEditing(true);
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          {onEditLayout && (
+            <Button variant="ghost" size="sm" onClick={onEditLayout} title="Categories and modules">
+              <LayoutList className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onToggleArchive} title={archived ? 'Restore' : 'Archive'}>
+            {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-destructive hover:bg-destructive/10">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="bg-card border-border">
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {name}?</AlertDialogTitle>
+                <AlertDialogDescription>{deleteWarning}</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CategoryRowProps {
+  category: Category;
+  onRename: (label: string) => void;
+  onDelete: () => void;
+}
+
+function CategoryRow({ category, onRename, onDelete }: CategoryRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(category.label);
+
+  const submitRename = () => {
+    setEditing(false);
+    if (draft.trim() && draft.trim() !== category.label) {
+      onRename(draft.trim());
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 border border-border rounded-lg bg-card/30 hover:bg-card/50 hover:border-primary/30 transition-all duration-300">
+      {editing ? (
+        <div className="flex flex-1 items-center gap-2">
+          <Input
+            value={draft}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitRename();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            className="bg-input/50 border-border focus:border-primary"
+          />
+          <Button variant="ghost" size="sm" onClick={submitRename}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-foreground">{category.label}</span>
+            {category.modular && <Badge variant="outline" className="border-primary/30 text-xs">By module</Badge>}
+            {category.links && <Badge variant="outline" className="border-primary/30 text-xs">Links</Badge>}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(category.label);
+                setEditing(true);
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-destructive hover:bg-destructive/10">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="bg-card border-border">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {category.label}?</AlertDialogTitle>
+                  <AlertDialogDescription>Only categories that no subject offers can be deleted.</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface SubjectLayoutDialogProps {
+  // The subject being edited; the dialog is closed while null
+  subject: string | null;
+  layout: SubjectLayout;
+  categories: Category[];
+  onClose: () => void;
+  onSave: (layout: SubjectLayout) => Promise<boolean>;
+}
+
+// Choose which categories a subject offers, their tab order and its module count
+function SubjectLayoutDialog({ subject, layout, categories, onClose, onSave }: SubjectLayoutDialogProps) {
+  const [offered, setOffered] = useState<string[]>(layout.categories);
+  const [modules, setModules] = useState(String(layout.modules));
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved layout whenever a subject is opened
+  useEffect(() => {
+    setOffered(layout.categories);
+    setModules(String(layout.modules));
+  }, [subject]);
+
+  // Offered categories first, in tab order, then the rest
+  const ordered = [
+    ...offered.flatMap((id) => categories.filter((category) => category.id === id)),
+    ...categories.filter((category) => !offered.includes(category.id)),
+  ];
+
+  const save = async () => {
+    setSaving(true);
+    if (await onSave({ categories: offered, modules: Number(modules) })) {
+      onClose();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={subject !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Layout of {subject}</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            The categories students see as tabs, in order, and the number of modules.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {ordered.map((category) => {
+            const index = offered.indexOf(category.id);
+            return (
+              <div key={category.id} className="flex items-center justify-between gap-2 rounded-lg border border-border bg-card/30 px-3 py-2">
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <Checkbox
+                    checked={index >= 0}
+                    onCheckedChange={(checked) =>
+                      setOffered((current) => (checked === true ? [...current, category.id] : current.filter((id) => id !== category.id)))}
+                  />
+                  {category.label}
+                  {category.modular && <Badge variant="outline" className="border-primary/30 text-xs">By module</Badge>}
+                  {category.links && <Badge variant="outline" className="border-primary/30 text-xs">Links</Badge>}
+                </label>
+                {index >= 0 && (
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => setOffered(moveEntry(offered, index, -1))}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={index === offered.length - 1} onClick={() => setOffered(moveEntry(offered, index, 1))}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div>
+          <Label className="text-foreground">Modules</Label>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_MODULES}
+            value={modules}
+            onChange={(e) => setModules(e.target.value)}
+            className="bg-input/50 border-border"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={save} disabled={saving || offered.length === 0} className="bg-primary hover:bg-primary/90">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CatalogManager({ token, catalog, onCatalogChange, onMessage, canEditStructure, subjectDepartments }: CatalogManagerProps) {
+  const [newDepartment, setNewDepartment] = useState('');
+  const [newSemester, setNewSemester] = useState('');
+  const [newSubject, setNewSubject] = useState('');
+  const [department, setDepartment] = useState('');
+  const [semester, setSemester] = useState('');
+  const [newCategory, setNewCategory] = useState('');
+  const [newCategoryModular, setNewCategoryModular] = useState(false);
+  const [newCategoryLinks, setNewCategoryLinks] = useState(false);
+  const [layoutSubject, setLayoutSubject] = useState<string | null>(null);
+
+  const subjects = getSubjects(catalog, department, semester);
+
+  // Send a catalog mutation; the server answers with the updated catalog
+  const mutate = async (method: string, path: string, body: unknown, success: string) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/${path}`,
+        {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }
+      );
+
+      const data = await response.json();
+      if (response.ok) {
+        onCatalogChange(data);
+        onMessage(success);
+        return true;
+      }
+      onMessage(`Catalog update failed: ${data.error || 'Unknown error'}`);
+    } catch (error) {
+      onMessage(`Catalog update error: ${error}`);
+    }
+    return false;
+  };
+
+  const departmentPath = (name: string) => `admin/catalog/departments/${encodeURIComponent(name)}`;
+  const categoryPath = (id: string) => `admin/catalog/categories/${encodeURIComponent(id)}`;
+  const subjectsPath = `admin/catalog/subjects/${encodeURIComponent(department)}/${encodeURIComponent(semester)}`;
+  const subjectPath = (name: string) => `${subjectsPath}/${encodeURIComponent(name)}`;
+
+  const addDepartment = async () => {
+    if (await mutate('POST', 'admin/catalog/departments', { name: newDepartment }, 'Department added successfully!')) {
+      setNewDepartment('');
+    }
+  };
+
+  const addSemester = async () => {
+    if (await mutate('POST', 'admin/catalog/semesters', { semester: Number(newSemester) }, 'Semester added successfully!')) {
+      setNewSemester('');
+    }
+  };
+
+  const addCategory = async () => {
+    const body = { label: newCategory, modular: newCategoryModular && !newCategoryLinks, links: newCategoryLinks };
+    if (await mutate('POST', 'admin/catalog/categories', body, 'Category added successfully!')) {
+      setNewCategory('');
+      setNewCategoryModular(false);
+      setNewCategoryLinks(false);
+    }
+  };
+
+  const addSubject = async () => {
+    if (!department || !semester) {
+      onMessage('Please select department and semester before adding a subject.');
+      return;
+    }
+    if (await mutate('POST', subjectsPath, { name: newSubject }, 'Subject added successfully!')) {
+      setNewSubject('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-6">
+      {canEditStructure && (
+        <>
+          {/* Departments */}
+          <motion.div
+            initial={{ x: -100, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            transition={{ duration: 0.6, delay: 0.1 }}
+          >
+            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-foreground">
+                  <Building2 className="h-5 w-5 text-primary" />
+                  Departments
+                </CardTitle>
+                <CardDescription className="text-muted-foreground">Rename, reorder, archive or remove departments</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {catalog.departments.map((name, index) => (
+                  <CatalogEntryRow
+                    key={name}
+                    name={name}
+                    archived={catalog.archivedDepartments.includes(name)}
+                    canMoveUp={index > 0}
+                    canMoveDown={index < catalog.departments.length - 1}
+                    deleteWarning="Only departments without subjects can be deleted."
+                    onMove={(offset) => mutate('PUT', 'admin/catalog/departments', { order: moveEntry(catalog.departments, index, offset) }, 'Departments reordered successfully!')}
+                    onRename={(renamed) => mutate('PUT', departmentPath(name), { name: renamed }, 'Department renamed successfully!')}
+                    onToggleArchive={() => mutate('PUT', departmentPath(name), { archived: !catalog.archivedDepartments.includes(name) }, 'Department updated successfully!')}
+                    onDelete={() => mutate('DELETE', departmentPath(name), undefined, 'Department deleted successfully!')}
+                  />
+                ))}
+                <div className="flex gap-2 pt-2">
+                  <Input
+                    placeholder="New department name"
+                    value={newDepartment}
+                    onChange={(e) => setNewDepartment(e.target.value)}
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                  <Button onClick={addDepartment} size="sm" className="bg-primary hover:bg-primary/90 hover-scale">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* Semesters */}
+          <motion.div
+            initial={{ y: 100, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.6, delay: 0.2 }}
+          >
+            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-foreground">
+                  <CalendarRange className="h-5 w-5 text-primary" />
+                  Semesters
+                </CardTitle>
+                <CardDescription className="text-muted-foreground">Add semesters for lateral-entry or longer programs</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {catalog.semesters.map((sem) => (
+                    <Badge key={sem} variant="outline" className="border-primary/30 gap-1 pr-1">
+                      Semester {sem}
+                      <button
+                        type="button"
+                        onClick={() => mutate('DELETE', `admin/catalog/semesters/${sem}`, undefined, 'Semester deleted successfully!')}
+                        className="rounded hover:bg-destructive/20 hover:text-destructive p-0.5"
+                        title="Delete semester"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Semester number"
+                    value={newSemester}
+                    onChange={(e) => setNewSemester(e.target.value)}
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                  <Button onClick={addSemester} size="sm" className="bg-primary hover:bg-primary/90 hover-scale">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* Categories */}
+          <motion.div
+            initial={{ y: 100, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.6, delay: 0.25 }}
+          >
+            <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-foreground">
+                  <FolderTree className="h-5 w-5 text-primary" />
+                  Categories
+                </CardTitle>
+                <CardDescription className="text-muted-foreground">Kinds of content subjects can offer, such as lab manuals or syllabus</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {catalog.categories.map((category) => (
+                  <CategoryRow
+                    key={category.id}
+                    category={category}
+                    onRename={(label) => mutate('PUT', categoryPath(category.id), { label }, 'Category renamed successfully!')}
+                    onDelete={() => mutate('DELETE', categoryPath(category.id), undefined, 'Category deleted successfully!')}
+                  />
+                ))}
+                <div className="flex gap-2 pt-2">
+                  <Input
+                    placeholder="New category name"
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                  <Button onClick={addCategory} size="sm" className="bg-primary hover:bg-primary/90 hover-scale">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Checkbox
+                    checked={newCategoryModular && !newCategoryLinks}
+                    disabled={newCategoryLinks}
+                    onCheckedChange={(checked) => setNewCategoryModular(checked === true)}
+                  />
+                  File by module, like notes
+                </label>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Checkbox checked={newCategoryLinks} onCheckedChange={(checked) => setNewCategoryLinks(checked === true)} />
+                  Holds web links, like lecture videos
+                </label>
+              </CardContent>
+            </Card>
+          </motion.div>
+        </>
+      )}
+
+      {/* Subjects */}
+      <motion.div
+        initial={{ x: 100, opacity: 0 }}
+        animate={{ x: 0, opacity: 1 }}
+        transition={{ duration: 0.6, delay: 0.3 }}
+      >
+        <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <BookOpen className="h-5 w-5 text-primary" />
+              Subjects
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">Manage the subjects of a department and semester</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-foreground">Department</Label>
+                <Select value={department} onValueChange={setDepartment}>
+                  <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                    <SelectValue placeholder="Department" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {subjectDepartments.map((dept) => (
+                      <SelectItem key={dept} value={dept} className="hover:bg-primary/10">{dept}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-foreground">Semester</Label>
+                <Select value={semester} onValueChange={setSemester}>
+                  <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+                    <SelectValue placeholder="Semester" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {catalog.semesters.map((sem) => (
+                      <SelectItem key={sem} value={sem.toString()} className="hover:bg-primary/10">{sem}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {department && semester && (
+              <div className="space-y-2">
+                {subjects.length === 0 && (
+                  <div className="text-muted-foreground text-sm text-center py-4">No subjects yet</div>
+                )}
+                {subjects.map((name, index) => (
+                  <CatalogEntryRow
+                    key={name}
+                    name={name}
+                    archived={isSubjectArchived(catalog, department, semester, name)}
+                    canMoveUp={index > 0}
+                    canMoveDown={index < subjects.length - 1}
+                    deleteWarning="Its files are moved to the trash and can be restored from the Trash tab until they are purged."
+                    onMove={(offset) => mutate('PUT', subjectsPath, { order: moveEntry(subjects, index, offset) }, 'Subjects reordered successfully!')}
+                    onRename={(renamed) => mutate('PUT', subjectPath(name), { name: renamed }, 'Subject renamed successfully!')}
+                    onToggleArchive={() => mutate('PUT', subjectPath(name), { archived: !isSubjectArchived(catalog, department, semester, name) }, 'Subject updated successfully!')}
+                    onDelete={() => mutate('DELETE', subjectPath(name), undefined, 'Subject deleted successfully!')}
+                    onEditLayout={() => setLayoutSubject(name)}
+                  />
+                ))}
+                <div className="flex gap-2 pt-2">
+                  <Input
+                    placeholder="New subject name"
+                    value={newSubject}
+                    onChange={(e) => setNewSubject(e.target.value)}
+                    className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+                  />
+                  <Button onClick={addSubject} size="sm" className="bg-primary hover:bg-primary/90 hover-scale">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <SubjectLayoutDialog
+        subject={layoutSubject}
+        layout={getLayout(catalog, department, semester, layoutSubject ?? '')}
+        categories={catalog.categories}
+        onClose={() => setLayoutSubject(null)}
+        onSave={(layout) => mutate('PUT', `${subjectPath(layoutSubject ?? '')}/layout`, layout, 'Subject layout saved successfully!')}
+      />
+    </div>
+  );
+}
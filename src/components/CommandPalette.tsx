@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import { BookOpen, Clock, FileText, Search } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from './ui/command';
+import { Catalog, subjectCategories, getLayout } from '../utils/catalog';
+import { RecentItem } from '../utils/recent';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  // Extra words the filter should match, e.g. abbreviations
+  keywords?: string[];
+  icon: LucideIcon;
+  onSelect: () => void;
+}
+
+export interface PaletteActionGroup {
+  heading: string;
+  actions: PaletteAction[];
+}
+
+interface CommandPaletteProps {
+  catalog: Catalog;
+  recent: RecentItem[];
+  onSelectSubject: (department: string, semester: string, subject: string) => void;
+  onSelectFile: (item: Extract<RecentItem, { kind: 'file' }>) => void;
+  actionGroups?: PaletteActionGroup[];
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Every department/semester/subject combination in catalog order
+function subjectEntries(catalog: Catalog) {
+  return catalog.departments.flatMap((department) =>
+    catalog.semesters.flatMap((semester) =>
+      (catalog.subjects[department]?.[semester] ?? []).map((subject) => ({ department, semester: String(semester), subject }))
+    )
+  );
+}
+
+// Ctrl/Cmd+K palette for jumping to subjects, recent files and portal actions
+export function CommandPalette({ catalog, recent, onSelectSubject, onSelectFile, actionGroups = [] }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="hover-lift border-border hover:border-primary/50 hover:bg-primary/10 text-muted-foreground transition-all duration-300"
+      >
+        <Search className="h-4 w-4 mr-2" />
+        Jump to...
+        <kbd className="ml-3 rounded border border-border bg-muted px-1.5 text-xs">{isMac ? '⌘' : 'Ctrl'} K</kbd>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Jump to"
+        description="Search subjects, recent files and actions"
+      >
+        <CommandInput placeholder="Type a subject, department, semester or action..." />
+        <CommandList>
+          <CommandEmpty>No matches found.</CommandEmpty>
+
+          {recent.length > 0 && (
+            <CommandGroup heading="Recent">
+              {recent.map((item) =>
+                item.kind === 'file' ? (
+                  <CommandItem
+                    key={`file:${item.file.id}`}
+                    value={`recent file ${item.file.id}`}
+                    keywords={[item.file.name, item.location.department, item.location.subject]}
+                    onSelect={() => run(() => onSelectFile(item))}
+                  >
+                    <FileText />
+                    <span className="truncate">{item.file.name}</span>
+                    <CommandShortcut>{item.location.department} · Sem {item.location.semester} · {item.location.subject}</CommandShortcut>
+                  </CommandItem>
+                ) : (
+                  <CommandItem
+                    key={`subject:${item.department}/${item.semester}/${item.subject}`}
+                    value={`recent subject ${item.department} ${item.semester} ${item.subject}`}
+                    keywords={[item.subject, item.department, `sem ${item.semester}`]}
+                    onSelect={() => run(() => onSelectSubject(item.department, item.semester, item.subject))}
+                  >
+                    <Clock />
+                    <span className="truncate">{item.subject}</span>
+                    <CommandShortcut>{item.department} · Sem {item.semester}</CommandShortcut>
+                  </CommandItem>
+                )
+              )}
+            </CommandGroup>
+          )}
+
+          <CommandGroup heading="Subjects">
+            {subjectEntries(catalog).map(({ department, semester, subject }) => (
+              <CommandItem
+                key={`${department}/${semester}/${subject}`}
+                value={`${department} sem ${semester} ${subject}`}
+                keywords={[`semester ${semester}`]}
+                onSelect={() => run(() => onSelectSubject(department, semester, subject))}
+              >
+                <BookOpen />
+                <span className="truncate">{department} Sem {semester} {subject}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+
+          {actionGroups.filter((group) => group.actions.length > 0).map((group) => (
+            <div key={group.heading}>
+              <CommandSeparator />
+              <CommandGroup heading={group.heading}>
+                {group.actions.map((action) => (
+                  <CommandItem
+                    key={action.id}
+                    value={action.id}
+                    keywords={[action.label, ...(action.keywords ?? [])]}
+                    onSelect={() => run(action.onSelect)}
+                  >
+                    <action.icon />
+                    <span className="truncate">{action.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </div>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
+
+// Upload shortcuts for every subject, e.g. "Upload to CSE Sem 5 Data Structures Module 3"
+export function uploadActions(
+  catalog: Catalog,
+  onSelect: (department: string, semester: string, subject: string, contentType: string, module?: number) => void,
+  icon: LucideIcon,
+): PaletteAction[] {
+  return subjectEntries(catalog).flatMap(({ department, semester, subject }) => {
+    const target = `${department} Sem ${semester} ${subject}`;
+    const modules = Array.from({ length: getLayout(catalog, department, semester, subject).modules }, (_, i) => i + 1);
+    return subjectCategories(catalog, department, semester, subject).flatMap((category) =>
+      category.modular
+        ? modules.map((module) => ({
+            id: `upload ${target} ${category.id} module ${module}`,
+            label: `Upload to ${target} ${category.label} Module ${module}`,
+            keywords: [category.label.toLowerCase()],
+            icon,
+            onSelect: () => onSelect(department, semester, subject, category.id, module),
+          }))
+        : [{
+            id: `upload ${target} ${category.id}`,
+            label: `Upload to ${target} ${category.label}`,
+            icon,
+            onSelect: () => onSelect(department, semester, subject, category.id),
+          }]
+    );
+  });
+}
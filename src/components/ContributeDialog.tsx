@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Upload } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Catalog, placementLabel } from '../utils/catalog';
+import { FileLocation } from '../utils/files';
+import { CONTRIBUTION_STATUS_LABELS, Contribution, ContributionStatus } from '../utils/contributions';
+import { EMPTY_LOCATION, LocationDraft, LocationField, LocationFields, isLocationComplete, toLocationDraft } from './LocationFields';
+import { EMPTY_METADATA, MetadataDraft, MetadataField, PaperMetadataFields, applicableFields, hasPaperMetadata } from './PaperMetadataFields';
+
+type FieldErrors = Partial<Record<LocationField | MetadataField | 'file', string>>;
+
+const MAX_NOTE_LENGTH = 500;
+
+const STATUS_CLASSES: Record<ContributionStatus, string> = {
+  pending: 'border-yellow-500/30 text-yellow-400',
+  approved: 'border-green-500/30 text-green-400',
+  rejected: 'border-destructive/30 text-destructive',
+};
+
+interface ContributeDialogProps {
+  open: boolean;
+  catalog: Catalog;
+  // The signed-in student's token
+  token: string;
+  // Where the student is browsing, to start the form from
+  initial: Partial<FileLocation>;
+  onClose: () => void;
+}
+
+// Submit notes or papers for the moderators to review, and follow what
+// happened to earlier submissions
+export function ContributeDialog({ open, catalog, token, initial, onClose }: ContributeDialogProps) {
+  const [location, setLocation] = useState<LocationDraft>(EMPTY_LOCATION);
+  const [metadata, setMetadata] = useState<MetadataDraft>(EMPTY_METADATA);
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [working, setWorking] = useState(false);
+  // Bumped after each submission to clear the file input
+  const [submitted, setSubmitted] = useState(0);
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+
+  const contributionsUrl = `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/student/contributions`;
+
+  const fetchContributions = async () => {
+    try {
+      const response = await fetch(contributionsUrl, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (response.ok) {
+        setContributions((await response.json()).contributions);
+      } else {
+        console.error('Failed to fetch contributions:', response.statusText);
+      }
+    } catch (err) {
+      console.error('Error fetching contributions:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setLocation(toLocationDraft({ department: '', semester: '', subject: '', contentType: '', ...initial }));
+    setMetadata(EMPTY_METADATA);
+    setFile(null);
+    setNote('');
+    setErrors({});
+    setError('');
+    setNotice('');
+    fetchContributions();
+  }, [open]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setWorking(true);
+    setErrors({});
+    setError('');
+    setNotice('');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      Object.entries(location).forEach(([name, value]) => value && formData.append(name, value));
+      Object.entries(applicableFields(location.contentType, metadata)).forEach(([name, value]) => value && formData.append(name, value));
+      formData.append('note', note);
+
+      const response = await fetch(contributionsUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.fieldErrors || {});
+        setError(data.error || 'Unknown error');
+        return;
+      }
+      setNotice(data.message);
+      setFile(null);
+      setSubmitted((count) => count + 1);
+      setNote('');
+      setMetadata(EMPTY_METADATA);
+      setContributions((current) => [data.contribution, ...current]);
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Contribute a file</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Share notes or papers with your classmates. Moderators check every file before it is published, with credit to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={submit} className="space-y-3">
+          <LocationFields catalog={catalog} departments={catalog.departments} value={location} onChange={setLocation} errors={errors} />
+          {hasPaperMetadata(location.contentType) && (
+            <PaperMetadataFields contentType={location.contentType} value={metadata} onChange={setMetadata} errors={errors} />
+          )}
+          <div>
+            <Label htmlFor="contribution-file" className="text-foreground">File</Label>
+            <Input
+              id="contribution-file"
+              type="file"
+              key={submitted}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              accept=".pdf,.doc,.docx,.txt,.ppt,.pptx"
+              className="bg-input/50 border-border"
+            />
+            {errors.file && <p className="text-sm text-destructive mt-1">{errors.file}</p>}
+          </div>
+          <div>
+            <Label className="text-foreground">Note for the moderators (optional)</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={MAX_NOTE_LENGTH}
+              placeholder="e.g. Handwritten notes from the 2024 batch"
+              className="bg-input/50 border-border"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
+          <Button type="submit" disabled={working || !file || !isLocationComplete(catalog, location)} className="w-full bg-primary hover:bg-primary/90">
+            <Upload className="h-4 w-4 mr-2" />
+            {working ? 'Submitting...' : 'Submit for review'}
+          </Button>
+        </form>
+
+        {contributions.length > 0 && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <h4 className="font-semibold text-foreground">Your contributions</h4>
+            {contributions.map((contribution) => (
+              <div key={contribution.id} className="p-3 border border-border rounded-lg text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-foreground truncate" title={contribution.name}>{contribution.name}</span>
+                  <Badge variant="outline" className={STATUS_CLASSES[contribution.status]}>
+                    {CONTRIBUTION_STATUS_LABELS[contribution.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {contribution.location.department} Sem {contribution.location.semester} {contribution.location.subject} ·{' '}
+                  {placementLabel(catalog.categories, contribution.location)} · {new Date(contribution.submittedAt).toLocaleDateString()}
+                </p>
+                {contribution.reason && <p className="text-destructive mt-1">{contribution.reason}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable';
+import { useIsMobile } from './ui/use-mobile';
+import { Check, Download, Eye, Inbox, Pencil, X } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Catalog, placementLabel } from '../utils/catalog';
+import { FileLocation, metadataLabels } from '../utils/files';
+import { Contribution, contributionFile, downloadContribution, getContributionUrl } from '../utils/contributions';
+import { FilePreview } from './FilePreview';
+import { EMPTY_LOCATION, LocationDraft, LocationField, LocationFields, isLocationComplete, toLocationDraft } from './LocationFields';
+import { EMPTY_METADATA, MetadataDraft, MetadataField, PaperMetadataFields, applicableFields, hasPaperMetadata, toDraft } from './PaperMetadataFields';
+
+type FieldErrors = Partial<Record<LocationField | MetadataField, string>>;
+
+const MAX_REASON_LENGTH = 500;
+
+interface ContributionQueueProps {
+  token: string;
+  catalog: Catalog;
+  // Departments the moderator may file contributions into
+  departments: string[];
+  onMessage: (message: string) => void;
+  // Called with where a contribution was published, so open file lists can refresh
+  onPublished: (location: FileLocation) => void;
+}
+
+const locationLabel = (catalog: Catalog, location: FileLocation) =>
+  `${location.department} Sem ${location.semester} ${location.subject} · ${placementLabel(catalog.categories, location)}`;
+
+interface EditContributionDialogProps {
+  token: string;
+  catalog: Catalog;
+  departments: string[];
+  // The contribution being edited; the dialog is closed while null
+  contribution: Contribution | null;
+  onClose: () => void;
+  onSaved: (contribution: Contribution, message: string) => void;
+}
+
+// Change where a contribution will be published and its paper details
+function EditContributionDialog({ token, catalog, departments, contribution, onClose, onSaved }: EditContributionDialogProps) {
+  const [location, setLocation] = useState<LocationDraft>(EMPTY_LOCATION);
+  const [metadata, setMetadata] = useState<MetadataDraft>(EMPTY_METADATA);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setLocation(toLocationDraft(contribution?.location));
+    setMetadata(toDraft(contribution?.metadata));
+    setErrors({});
+    setError('');
+  }, [contribution]);
+
+  const save = async () => {
+    if (!contribution) return;
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/contributions/${contribution.id}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ ...location, ...applicableFields(location.contentType, metadata) }),
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data.contribution, data.message);
+        onClose();
+      } else {
+        setErrors(data.fieldErrors || {});
+        setError(data.error || 'Unknown error');
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={contribution !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Edit contribution</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{contribution?.name}</DialogDescription>
+        </DialogHeader>
+        <LocationFields catalog={catalog} departments={departments} value={location} onChange={setLocation} errors={errors} />
+        {hasPaperMetadata(location.contentType) && (
+          <PaperMetadataFields contentType={location.contentType} value={metadata} onChange={setMetadata} errors={errors} />
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={save} disabled={saving || !isLocationComplete(catalog, location)} className="bg-primary hover:bg-primary/90">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Files students submitted, waiting to be published or turned down
+export function ContributionQueue({ token, catalog, departments, onMessage, onPublished }: ContributionQueueProps) {
+  const isMobile = useIsMobile();
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<Contribution | null>(null);
+  const [editing, setEditing] = useState<Contribution | null>(null);
+  const [rejecting, setRejecting] = useState<Contribution | null>(null);
+  const [reason, setReason] = useState('');
+
+  const adminUrl = (path: string) => `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/${path}`;
+
+  const fetchContributions = async () => {
+    try {
+      const response = await fetch(adminUrl('contributions'), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setContributions(data.contributions);
+      } else {
+        console.error('Failed to fetch contributions:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching contributions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchContributions();
+  }, [token]);
+
+  useEffect(() => {
+    setReason('');
+  }, [rejecting]);
+
+  // Drop a reviewed contribution from the queue
+  const remove = (id: string) => {
+    setContributions((current) => current.filter((contribution) => contribution.id !== id));
+    setPreviewing((current) => (current?.id === id ? null : current));
+  };
+
+  const review = async (contribution: Contribution, action: 'approve' | 'reject', body: unknown = {}) => {
+    setBusyId(contribution.id);
+    try {
+      const response = await fetch(adminUrl(`contributions/${contribution.id}/${action}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onMessage(data.message);
+        remove(contribution.id);
+        if (action === 'approve') {
+          onPublished(data.contribution.location);
+        }
+        return true;
+      }
+      onMessage(`${action === 'approve' ? 'Approve' : 'Reject'} failed: ${data.error || 'Unknown error'}`);
+    } catch (error) {
+      onMessage(`${action === 'approve' ? 'Approve' : 'Reject'} failed: ${error}`);
+    } finally {
+      setBusyId(null);
+    }
+    return false;
+  };
+
+  const reject = async () => {
+    if (rejecting && await review(rejecting, 'reject', { reason })) {
+      setRejecting(null);
+    }
+  };
+
+  const list = (
+    <div className="space-y-4">
+      {contributions.length === 0 && (
+        <p className="text-center text-muted-foreground py-6">{loading ? 'Loading contributions...' : 'No contributions waiting for review'}</p>
+      )}
+      {contributions.map((contribution) => (
+        <div
+          key={contribution.id}
+          className={`p-4 border rounded-lg space-y-2 ${previewing?.id === contribution.id ? 'border-primary' : 'border-border'}`}
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="font-medium text-foreground truncate" title={contribution.name}>{contribution.name}</h4>
+              <p className="text-sm text-muted-foreground">{locationLabel(catalog, contribution.location)}</p>
+              <p className="text-xs text-muted-foreground">
+                {contribution.contributor.name} ({contribution.contributor.email}) · {new Date(contribution.submittedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPreviewing(contribution)} title="Preview">
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadContribution(contribution, token)}
+                title="Download"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setEditing(contribution)} disabled={busyId === contribution.id}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => review(contribution, 'approve')}
+                disabled={busyId === contribution.id}
+                className="bg-primary hover:bg-primary/90"
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRejecting(contribution)}
+                disabled={busyId === contribution.id}
+                className="border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          </div>
+          {contribution.metadata && (
+            <div className="flex flex-wrap gap-1">
+              {metadataLabels(contribution.metadata).map((label) => (
+                <Badge key={label} variant="outline" className="border-primary/30 text-xs">{label}</Badge>
+              ))}
+            </div>
+          )}
+          {contribution.note && (
+            <p className="text-sm text-foreground whitespace-pre-wrap border-l-2 border-primary/50 pl-3">{contribution.note}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Inbox className="h-5 w-5 text-primary" />
+            Contributions
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Files students submitted. Approved files are published with credit to the student; rejected ones are deleted and the student sees your reason.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {previewing ? (
+            <ResizablePanelGroup
+              direction={isMobile ? 'vertical' : 'horizontal'}
+              className="min-h-[75vh] rounded-lg border border-border"
+            >
+              <ResizablePanel defaultSize={45} minSize={25} className="!overflow-auto p-4">
+                {list}
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={55} minSize={30}>
+                <FilePreview
+                  file={contributionFile(previewing)}
+                  getUrl={() => getContributionUrl(previewing, token)}
+                  onDownload={() => downloadContribution(previewing, token)}
+                  onClose={() => setPreviewing(null)}
+                />
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          ) : (
+            list
+          )}
+        </CardContent>
+      </Card>
+
+      <EditContributionDialog
+        token={token}
+        catalog={catalog}
+        departments={departments}
+        contribution={editing}
+        onClose={() => setEditing(null)}
+        onSaved={(updated, message) => {
+          onMessage(message);
+          setContributions((current) => current.map((contribution) => (contribution.id === updated.id ? updated : contribution)));
+          setPreviewing((current) => (current?.id === updated.id ? updated : current));
+        }}
+      />
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="bg-card border-border sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Reject contribution</DialogTitle>
+            <DialogDescription className="text-muted-foreground">{rejecting?.name}</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label className="text-foreground">Reason shown to the student</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_REASON_LENGTH}
+              placeholder="e.g. These notes are already available for this module"
+              className="bg-input/50 border-border"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={reject} disabled={!reason.trim() || busyId === rejecting?.id}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
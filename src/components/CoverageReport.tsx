@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Grid3x3, RefreshCw } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Category } from '../utils/catalog';
+
+interface CoverageRow {
+  department: string;
+  semester: string;
+  subject: string;
+  // File counts per offered slot: a category id, or `${category id}/${module}`
+  counts: Record<string, number>;
+  empty: number;
+}
+
+interface Coverage {
+  categories: Category[];
+  modules: number;
+  rows: CoverageRow[];
+  summary: { subjects: number; slots: number; empty: number };
+}
+
+interface Column {
+  contentType: string;
+  module?: number;
+  key: string;
+}
+
+interface CoverageReportProps {
+  token: string;
+  // Departments the viewer can filter by
+  departments: string[];
+  // Open the upload form for an empty (or any) slot
+  onUpload: (department: string, semester: string, subject: string, contentType: string, module?: number) => void;
+}
+
+const ALL = 'all';
+
+// Darker cells hold more files; empty slots stand out in red
+function cellStyle(count: number) {
+  if (count === 0) return 'bg-destructive/20 text-destructive hover:bg-destructive/30';
+  if (count <= 2) return 'bg-primary/15 text-foreground hover:bg-primary/25';
+  if (count <= 5) return 'bg-primary/35 text-foreground hover:bg-primary/45';
+  return 'bg-primary/60 text-primary-foreground hover:bg-primary/70';
+}
+
+// Department × semester × subject matrix of files per category and module
+export function CoverageReport({ token, departments, onUpload }: CoverageReportProps) {
+  const [coverage, setCoverage] = useState<Coverage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [department, setDepartment] = useState(ALL);
+  const [semester, setSemester] = useState(ALL);
+  const [gapsOnly, setGapsOnly] = useState(false);
+
+  const fetchCoverage = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/coverage`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        setCoverage(data);
+      } else {
+        setError(data.error || 'Failed to load coverage');
+      }
+    } catch (err) {
+      console.error('Error fetching coverage:', err);
+      setError('Failed to load coverage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoverage();
+  }, [token]);
+
+  const rows = (coverage?.rows ?? []).filter((row) =>
+    (department === ALL || row.department === department)
+    && (semester === ALL || row.semester === semester)
+    && (!gapsOnly || row.empty > 0));
+  const semesters = [...new Set((coverage?.rows ?? []).map((row) => row.semester))].sort((a, b) => Number(a) - Number(b));
+
+  // Only categories and modules some shown subject offers get a column
+  const offered = new Set(rows.flatMap((row) => Object.keys(row.counts)));
+  const groups = (coverage?.categories ?? []).map((category) => ({
+    category,
+    columns: (category.modular
+      ? Array.from({ length: coverage!.modules }, (_, i) => ({ contentType: category.id, module: i + 1, key: `${category.id}/${i + 1}` }))
+      : [{ contentType: category.id, key: category.id }]
+    ).filter((column: Column) => offered.has(column.key)),
+  })).filter((group) => group.columns.length > 0);
+  const columns = groups.flatMap((group) => group.columns);
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <Grid3x3 className="h-5 w-5 text-primary" />
+              Coverage
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              {coverage
+                ? `${coverage.summary.empty} of ${coverage.summary.slots} slots across ${coverage.summary.subjects} subjects have no files. Click a slot to upload into it.`
+                : 'Files per category and module for every subject'}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={fetchCoverage}
+            disabled={loading}
+            className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-48">
+              <Label className="text-foreground">Department</Label>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger className="bg-input/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-40">
+              <Label className="text-foreground">Semester</Label>
+              <Select value={semester} onValueChange={setSemester}>
+                <SelectTrigger className="bg-input/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL}>All semesters</SelectItem>
+                  {semesters.map((sem) => (
+                    <SelectItem key={sem} value={sem}>Semester {sem}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="coverage-gaps" checked={gapsOnly} onCheckedChange={setGapsOnly} />
+              <Label htmlFor="coverage-gaps" className="text-foreground">Only subjects with gaps</Label>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="max-h-[70vh] overflow-auto rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead rowSpan={2}>Subject</TableHead>
+                  {groups.map(({ category, columns: groupColumns }) => (
+                    <TableHead
+                      key={category.id}
+                      colSpan={groupColumns.length}
+                      rowSpan={category.modular ? 1 : 2}
+                      className="text-center border-l border-border"
+                    >
+                      {category.label}
+                    </TableHead>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  {groups.filter(({ category }) => category.modular).flatMap(({ columns: groupColumns }) =>
+                    groupColumns.map((column, i) => (
+                      <TableHead key={column.key} className={`text-center text-xs ${i === 0 ? 'border-l border-border' : ''}`}>
+                        M{column.module}
+                      </TableHead>
+                    )))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={columns.length + 1} className="text-center text-muted-foreground py-6">
+                      {loading ? 'Loading coverage...' : gapsOnly ? 'No gaps here' : 'No subjects match these filters'}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {rows.map((row) => (
+                  <TableRow key={`${row.department}/${row.semester}/${row.subject}`}>
+                    <TableCell className="whitespace-nowrap">
+                      <span className="block font-medium text-foreground">{row.subject}</span>
+                      <span className="block text-xs text-muted-foreground">{row.department} · Semester {row.semester}</span>
+                    </TableCell>
+                    {columns.map((column) => {
+                      const count = row.counts[column.key];
+                      if (count === undefined) {
+                        return <TableCell key={column.key} className="text-center text-muted-foreground/40">–</TableCell>;
+                      }
+                      return (
+                        <TableCell key={column.key} className="p-1">
+                          <button
+                            type="button"
+                            onClick={() => onUpload(row.department, row.semester, row.subject, column.contentType, column.module)}
+                            title={count === 0 ? 'Empty - click to upload' : `${count} files - click to upload more`}
+                            className={`w-full min-w-10 rounded px-2 py-1 text-center text-sm transition-colors ${cellStyle(count)}`}
+                          >
+                            {count}
+                          </button>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
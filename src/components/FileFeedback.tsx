@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Flag as FlagIcon, LogIn, Star, Trash2 } from 'lucide-react';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { FileRecord } from '../utils/files';
+import { FLAG_REASON_LABELS, FeedbackSummary, FileFeedback, FlagReason } from '../utils/feedback';
+
+interface FileFeedbackDialogProps {
+  // The file being reviewed; the dialog is closed while null
+  file: FileRecord | null;
+  // The signed-in student's token; null when signed out
+  token: string | null;
+  onClose: () => void;
+  onSignIn: () => void;
+  // Called with the new summary after a rating or comment
+  onChanged: (fileId: string, summary: FeedbackSummary) => void;
+}
+
+const MAX_COMMENT_LENGTH = 500;
+
+// Ratings, comments and problem reports for one file
+export function FileFeedbackDialog({ file, token, onClose, onSignIn, onChanged }: FileFeedbackDialogProps) {
+  const [feedback, setFeedback] = useState<FileFeedback | null>(null);
+  const [comment, setComment] = useState('');
+  const [reason, setReason] = useState<FlagReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const fileUrl = (path: string) =>
+    `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/files/${encodeURIComponent(file!.id)}/${path}`;
+
+  useEffect(() => {
+    setFeedback(null);
+    setComment('');
+    setReason('');
+    setDetails('');
+    setError('');
+    setNotice('');
+    if (!file) return;
+
+    let cancelled = false;
+    const fetchFeedback = async () => {
+      try {
+        const response = await fetch(fileUrl('feedback'), {
+          headers: {
+            'Authorization': `Bearer ${token ?? publicAnonKey}`,
+          },
+        });
+        if (cancelled) return;
+        if (response.ok) {
+          setFeedback(await response.json());
+        } else {
+          console.error('Failed to fetch feedback:', response.statusText);
+        }
+      } catch (err) {
+        console.error('Error fetching feedback:', err);
+      }
+    };
+    fetchFeedback();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, token]);
+
+  // Send a change; feedback routes answer with the file's updated feedback
+  const send = async (path: string, method: string, body?: unknown): Promise<any | null> => {
+    if (!file || !token) return null;
+    setWorking(true);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch(fileUrl(path), {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Unknown error');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError(String(err));
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const update = (data: FileFeedback | null) => {
+    if (!data || !file) return;
+    setFeedback(data);
+    onChanged(file.id, data.summary);
+  };
+
+  const rate = async (rating: number) => update(await send('rating', 'PUT', { rating }));
+
+  const postComment = async () => {
+    const data = await send('comments', 'POST', { text: comment });
+    if (data) setComment('');
+    update(data);
+  };
+
+  const deleteComment = async (commentId: string) => update(await send(`comments/${commentId}`, 'DELETE'));
+
+  const report = async () => {
+    const data = await send('flags', 'POST', { reason, details });
+    if (data) {
+      setReason('');
+      setDetails('');
+      setNotice(data.message);
+    }
+  };
+
+  const average = feedback?.summary.average;
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Feedback</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map((stars) => (
+              <button
+                key={stars}
+                type="button"
+                disabled={!token || working}
+                onClick={() => rate(stars)}
+                title={token ? `Rate ${stars} stars` : 'Sign in to rate'}
+                className="p-0.5 disabled:cursor-default"
+              >
+                <Star
+                  className={`h-6 w-6 ${
+                    stars <= (feedback?.myRating ?? Math.round(average ?? 0)) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                  }`}
+                />
+              </button>
+            ))}
+            <span className="ml-2 text-sm text-muted-foreground">
+              {average ? `${average} from ${feedback!.summary.ratings} ratings` : 'No ratings yet'}
+              {feedback?.myRating ? ` · you gave ${feedback.myRating}` : ''}
+            </span>
+          </div>
+        </div>
+
+        {!token && (
+          <Button variant="outline" onClick={onSignIn} className="w-full">
+            <LogIn className="h-4 w-4 mr-2" />
+            Sign in to rate, comment or report a problem
+          </Button>
+        )}
+
+        <div className="space-y-3">
+          <h4 className="font-semibold text-foreground">Comments</h4>
+          {token && (
+            <div className="space-y-2">
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={MAX_COMMENT_LENGTH}
+                placeholder="Was this useful? Anything missing?"
+                className="bg-input/50 border-border"
+              />
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-muted-foreground">{comment.length}/{MAX_COMMENT_LENGTH}</span>
+                <Button size="sm" onClick={postComment} disabled={working || !comment.trim()} className="bg-primary hover:bg-primary/90">
+                  Post
+                </Button>
+              </div>
+            </div>
+          )}
+          {feedback && feedback.comments.length === 0 && <p className="text-sm text-muted-foreground">No comments yet.</p>}
+          <div className="space-y-2">
+            {feedback?.comments.map((entry) => (
+              <div key={entry.id} className="p-3 border border-border rounded-lg">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>{entry.author} · {new Date(entry.at).toLocaleDateString()}</span>
+                  {entry.mine && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => deleteComment(entry.id)} disabled={working} title="Delete comment">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-foreground whitespace-pre-wrap mt-1">{entry.text}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {token && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <h4 className="font-semibold text-foreground flex items-center gap-2">
+              <FlagIcon className="h-4 w-4 text-destructive" />
+              Report a problem
+            </h4>
+            <Label className="text-foreground">What's wrong?</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as FlagReason)}>
+              <SelectTrigger className="bg-input/50 border-border">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {Object.entries(FLAG_REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_COMMENT_LENGTH}
+              placeholder="Details for the moderators (optional), e.g. the subject it belongs to"
+              className="bg-input/50 border-border"
+            />
+            <div className="flex justify-end">
+              <Button size="sm" variant="destructive" onClick={report} disabled={working || !reason}>
+                Send report
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {notice && <p className="text-sm text-green-400">{notice}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
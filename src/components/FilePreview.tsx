@@ -0,0 +1,261 @@
+import { useState, useEffect, useRef } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ChevronLeft, ChevronRight, Download, FileText, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { FileRecord, getFileUrl, previewKind } from '../utils/files';
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+// pdf.js is large, so it is only loaded the first time a PDF is previewed
+async function loadPdfjs() {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+interface PdfPageProps {
+  url: string;
+  page: number;
+  zoom: number;
+  onLoad: (pageCount: number) => void;
+  onError: (message: string) => void;
+}
+
+// Renders one page of a PDF to a canvas at the given zoom
+function PdfPage({ url, page, zoom, onLoad, onError }: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        loaded = await pdfjs.getDocument(url).promise;
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        setPdf(loaded);
+        onLoad(loaded.numPages);
+      } catch (error) {
+        console.error('Error loading PDF:', error);
+        if (!cancelled) onError('This PDF could not be opened.');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+      setPdf(null);
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const pdfPage = await pdf.getPage(page);
+        if (cancelled) return;
+        const pixelRatio = window.devicePixelRatio || 1;
+        const viewport = pdfPage.getViewport({ scale: zoom * pixelRatio });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        canvas.style.width = `${viewport.width / pixelRatio}px`;
+        canvas.style.height = `${viewport.height / pixelRatio}px`;
+        renderTask = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport });
+        await renderTask.promise;
+      } catch (error) {
+        if ((error as Error).name !== 'RenderingCancelledException') {
+          console.error('Error rendering PDF page:', error);
+        }
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, zoom]);
+
+  return <canvas ref={canvasRef} className="mx-auto shadow-lg bg-white" />;
+}
+
+interface FilePreviewProps {
+  file: FileRecord;
+  // Bearer token for the signed URL request; students use the anon key
+  token?: string;
+  // Count opening the preview as a view in the download analytics
+  recordView?: boolean;
+  // Where to sign files that aren't published, such as pending contributions
+  getUrl?: () => Promise<string | null>;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+// Inline viewer for PDFs, images and text. Office documents are rendered by
+// Office Online from the signed URL.
+export function FilePreview({ file, token, recordView = false, getUrl, onDownload, onClose }: FilePreviewProps) {
+  const kind = previewKind(file);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState(1);
+
+  useEffect(() => {
+    setUrl(null);
+    setText(null);
+    setError('');
+    setPage(1);
+    setPageInput('1');
+    setPageCount(0);
+    setZoom(1);
+    if (!kind) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const signedUrl = getUrl
+        ? await getUrl()
+        : await getFileUrl(file.id, token, recordView ? 'view' : undefined);
+      if (cancelled) return;
+      if (!signedUrl) {
+        setError('The file could not be loaded.');
+        return;
+      }
+      setUrl(signedUrl);
+
+      if (kind === 'text') {
+        try {
+          const response = await fetch(signedUrl);
+          const body = await response.text();
+          if (!cancelled) setText(body);
+        } catch (fetchError) {
+          console.error('Error loading text preview:', fetchError);
+          if (!cancelled) setError('The file could not be loaded.');
+        }
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id, file.path, kind, token]);
+
+  const goToPage = (target: number) => {
+    const next = Math.min(Math.max(1, target), pageCount || 1);
+    setPage(next);
+    setPageInput(String(next));
+  };
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+  const canZoom = kind === 'pdf' || kind === 'image' || kind === 'text';
+
+  const renderBody = () => {
+    if (!kind) {
+      return (
+        <div className="text-center py-12">
+          <FileText className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+          <p className="text-muted-foreground">Preview isn't available for this file type.</p>
+        </div>
+      );
+    }
+    if (error) {
+      return <p className="text-center py-12 text-destructive">{error}</p>;
+    }
+    if (!url || (kind === 'text' && text === null)) {
+      return (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading preview...</p>
+        </div>
+      );
+    }
+
+    switch (kind) {
+      case 'pdf':
+        return <PdfPage url={url} page={page} zoom={zoom} onLoad={setPageCount} onError={setError} />;
+      case 'image':
+        return <img src={url} alt={file.name} className="mx-auto max-w-none" style={{ width: `${zoom * 100}%` }} />;
+      case 'text':
+        return (
+          <pre className="whitespace-pre-wrap break-words font-mono text-foreground" style={{ fontSize: `${zoom * 0.875}rem` }}>
+            {text}
+          </pre>
+        );
+      case 'office':
+        return (
+          <iframe
+            title={file.name}
+            src={`https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(url)}`}
+            className="w-full h-full min-h-[70vh] rounded border border-border bg-white"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border p-3">
+        <h3 className="font-medium text-foreground truncate min-w-0 flex-1" title={file.name}>{file.name}</h3>
+        <div className="flex items-center gap-1">
+          {kind === 'pdf' && pageCount > 0 && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1} aria-label="Previous page">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Input
+                value={pageInput}
+                onChange={(e) => setPageInput(e.target.value)}
+                onBlur={() => goToPage(Number(pageInput) || page)}
+                onKeyDown={(e) => e.key === 'Enter' && goToPage(Number(pageInput) || page)}
+                className="h-8 w-12 text-center bg-input/50"
+                aria-label="Page number"
+              />
+              <span className="text-sm text-muted-foreground px-1">/ {pageCount}</span>
+              <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page >= pageCount} aria-label="Next page">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {canZoom && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} aria-label="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground w-12 text-center">{Math.round(zoom * 100)}%</span>
+              <Button variant="outline" size="sm" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} aria-label="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button size="sm" onClick={onDownload} className="bg-primary hover:bg-primary/90" aria-label="Download">
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close preview">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto p-4">
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
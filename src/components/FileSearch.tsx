@@ -0,0 +1,192 @@
+import { useState, useEffect, Fragment } from 'react';
+import { motion } from 'motion/react';
+import { Card, CardContent } from './ui/card';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Download, ExternalLink, Eye, FileText, Search, X } from 'lucide-react';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { FileLocation, FileRecord, previewKind } from '../utils/files';
+import { Category, categoryLabel } from '../utils/catalog';
+
+interface SearchResult {
+  file: FileRecord;
+  location: FileLocation;
+  score: number;
+  snippet: string;
+}
+
+interface FileSearchProps {
+  // Narrow results to the student's current selection when set
+  department?: string;
+  semester?: string;
+  categories: Category[];
+  onDownload: (file: FileRecord, location: FileLocation) => void;
+  onPreview: (file: FileRecord, location: FileLocation) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every occurrence of a search term in <mark>
+function highlight(text: string, terms: string[]) {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-primary/30 text-foreground rounded px-0.5">{part}</mark>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  );
+}
+
+export function FileSearch({ department, semester, categories, onDownload, onPreview }: FileSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+
+  // Search once the student stops typing; stale responses are ignored
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setTerms([]);
+      setSearched(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const params = new URLSearchParams({ q: trimmed });
+        if (department) params.set('department', department);
+        if (semester) params.set('semester', semester);
+
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/search?${params}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${publicAnonKey}`,
+            },
+          }
+        );
+
+        if (cancelled) return;
+        if (response.ok) {
+          const data = await response.json();
+          setResults(data.results);
+          setTerms(data.terms);
+        } else {
+          console.error('Search failed:', response.statusText);
+          setResults([]);
+        }
+      } catch (error) {
+        console.error('Search error:', error);
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+          setSearched(true);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, department, semester]);
+
+  return (
+    <Card className="mb-8 glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+      <CardContent className="pt-6 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={department ? `Search notes and papers in ${department}${semester ? ` Semester ${semester}` : ''}...` : 'Search all notes and papers...'}
+            className="pl-9 pr-9 bg-input/50 border-border hover:border-primary/50 transition-colors"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={() => setQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {searching && (
+          <p className="text-sm text-muted-foreground">Searching...</p>
+        )}
+
+        {!searching && searched && results.length === 0 && (
+          <p className="text-sm text-muted-foreground">No files match "{query.trim()}".</p>
+        )}
+
+        {!searching && results.length > 0 && (
+          <div className="space-y-3">
+            {results.map(({ file, location, snippet }, index) => (
+              <motion.div
+                key={file.id}
+                initial={{ y: 10, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: index * 0.05 }}
+                className="flex items-start justify-between gap-4 p-4 border border-border rounded-lg hover:bg-card/50 hover:border-primary/30 transition-all duration-300"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <FileText className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="min-w-0 space-y-1">
+                    <h4 className="font-medium text-foreground truncate">{highlight(file.name, terms)}</h4>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">{location.department}</Badge>
+                      <Badge variant="secondary" className="bg-blue-400/20 text-blue-400 border-blue-400/30">Semester {location.semester}</Badge>
+                      <Badge variant="secondary" className="bg-cyan-400/20 text-cyan-400 border-cyan-400/30">{location.subject}</Badge>
+                      <Badge variant="outline">
+                        {categoryLabel(categories, location.contentType)}{location.module ? ` - Module ${location.module}` : ''}
+                      </Badge>
+                    </div>
+                    {snippet && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{highlight(snippet, terms)}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {!file.url && previewKind(file) && (
+                    <Button
+                      onClick={() => onPreview(file, location)}
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center gap-2 hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                    >
+                      <Eye className="h-4 w-4" />
+                      Preview
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => onDownload(file, location)}
+                    size="sm"
+                    className="flex items-center gap-2 bg-primary hover:bg-primary/90 hover-scale transition-all duration-200"
+                  >
+                    {file.url ? <ExternalLink className="h-4 w-4" /> : <Download className="h-4 w-4" />}
+                    {file.url ? 'Open' : 'Download'}
+                  </Button>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { BarChart3 } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Category, placementLabel } from '../utils/catalog';
+import { FileLocation } from '../utils/files';
+
+interface Counts {
+  downloads: number;
+  views: number;
+}
+
+type SubjectRef = Pick<FileLocation, 'department' | 'semester' | 'subject'>;
+
+interface Insights {
+  days: number;
+  totals: Counts;
+  trend: Array<Counts & { date: string }>;
+  topFiles: Array<Counts & { fileId: string; name: string; location: FileLocation | null }>;
+  topSubjects: Array<Counts & SubjectRef>;
+  departments: Array<Counts & { department: string }>;
+  emptySubjects: SubjectRef[];
+}
+
+interface InsightsPanelProps {
+  token: string;
+  categories: Category[];
+}
+
+const PERIODS = [7, 30, 90, 365];
+
+const chartConfig = {
+  downloads: { label: 'Downloads', color: 'var(--chart-1)' },
+  views: { label: 'Previews', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// How students use the content: downloads and previews over time, the most
+// used files and subjects, usage per department and subjects still empty
+export function InsightsPanel({ token, categories }: InsightsPanelProps) {
+  const [days, setDays] = useState(30);
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchInsights = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/insights?days=${days}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${token}`,
+            },
+          }
+        );
+        if (cancelled) return;
+        const data = await response.json();
+        if (response.ok) {
+          setInsights(data);
+        } else {
+          setError(data.error || 'Failed to load insights');
+        }
+      } catch (err) {
+        console.error('Error fetching insights:', err);
+        if (!cancelled) setError('Failed to load insights');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchInsights();
+    return () => {
+      cancelled = true;
+    };
+  }, [token, days]);
+
+  const empty = (message: string) => <p className="text-sm text-muted-foreground py-6 text-center">{message}</p>;
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6 space-y-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              Insights
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              {insights
+                ? `${insights.totals.downloads} downloads and ${insights.totals.views} previews by students`
+                : 'Downloads and previews by students'}
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40 bg-input/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+          {!insights ? (
+            empty(loading ? 'Loading insights...' : 'No insights available')
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <AreaChart data={insights.trend} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={shortDate} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(date) => shortDate(String(date))} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Area dataKey="downloads" type="monotone" stroke="var(--color-downloads)" fill="var(--color-downloads)" fillOpacity={0.3} />
+                <Area dataKey="views" type="monotone" stroke="var(--color-views)" fill="var(--color-views)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {insights && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="glass-morphism border-border/50">
+              <CardHeader>
+                <CardTitle className="text-foreground">Top files</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {insights.topFiles.length === 0 ? empty('No downloads in this period') : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File</TableHead>
+                        <TableHead className="text-right">Downloads</TableHead>
+                        <TableHead className="text-right">Previews</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {insights.topFiles.map((file) => (
+                        <TableRow key={file.fileId}>
+                          <TableCell className="max-w-xs">
+                            <span className="block truncate font-medium text-foreground" title={file.name}>{file.name}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {file.location
+                                ? `${file.location.department} Sem ${file.location.semester} ${file.location.subject} · ${placementLabel(categories, file.location)}`
+                                : 'Deleted'}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{file.downloads}</TableCell>
+                          <TableCell className="text-right">{file.views}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-morphism border-border/50">
+              <CardHeader>
+                <CardTitle className="text-foreground">Usage by department</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {insights.departments.length === 0 ? empty('No downloads in this period') : (
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={insights.departments} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="department" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="downloads" stackId="usage" fill="var(--color-downloads)" />
+                      <Bar dataKey="views" stackId="usage" fill="var(--color-views)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="glass-morphism border-border/50">
+              <CardHeader>
+                <CardTitle className="text-foreground">Top subjects</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {insights.topSubjects.length === 0 ? empty('No downloads in this period') : (
+                  <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                    <BarChart data={insights.topSubjects} layout="vertical" margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="subject" tickLine={false} axisLine={false} width={120} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="downloads" stackId="usage" fill="var(--color-downloads)" />
+                      <Bar dataKey="views" stackId="usage" fill="var(--color-views)" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-morphism border-border/50">
+              <CardHeader>
+                <CardTitle className="text-foreground">Subjects with no content</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  {insights.emptySubjects.length} subjects students can see have no files yet
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {insights.emptySubjects.length === 0 ? empty('Every subject has at least one file') : (
+                  <div className="flex flex-wrap gap-2 max-h-72 overflow-auto">
+                    {insights.emptySubjects.map(({ department, semester, subject }) => (
+                      <Badge key={`${department}/${semester}/${subject}`} variant="outline" className="border-yellow-500/30 text-yellow-400">
+                        {department} Sem {semester} {subject}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
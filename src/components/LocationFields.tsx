@@ -0,0 +1,71 @@
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Catalog, getLayout, getSubjects, subjectCategories } from '../utils/catalog';
+import { FileLocation } from '../utils/files';
+
+export type LocationField = 'department' | 'semester' | 'subject' | 'contentType' | 'module';
+export type LocationDraft = Record<LocationField, string>;
+
+export const EMPTY_LOCATION: LocationDraft = { department: '', semester: '', subject: '', contentType: '', module: '' };
+
+export const toLocationDraft = (location?: FileLocation): LocationDraft => ({
+  department: location?.department ?? '',
+  semester: location?.semester ?? '',
+  subject: location?.subject ?? '',
+  contentType: location?.contentType ?? '',
+  module: location?.module ? String(location.module) : '',
+});
+
+// Whether every field the chosen category needs has been picked
+export function isLocationComplete(catalog: Catalog, value: LocationDraft): boolean {
+  const category = subjectCategories(catalog, value.department, value.semester, value.subject)
+    .find((c) => c.id === value.contentType);
+  return Boolean(value.subject && category && (!category.modular || value.module));
+}
+
+interface LocationFieldsProps {
+  catalog: Catalog;
+  // Departments that can be picked
+  departments: string[];
+  value: LocationDraft;
+  onChange: (value: LocationDraft) => void;
+  errors?: Partial<Record<LocationField, string>>;
+}
+
+// Department, semester, subject, category and module pickers for filing a file
+export function LocationFields({ catalog, departments, value, onChange, errors = {} }: LocationFieldsProps) {
+  const categories = subjectCategories(catalog, value.department, value.semester, value.subject);
+  const modular = categories.find((category) => category.id === value.contentType)?.modular ?? false;
+  const modules = getLayout(catalog, value.department, value.semester, value.subject).modules;
+
+  // Picking a broader level clears the narrower ones
+  const select = (field: LocationField, label: string, options: Array<[string, string]>, clears: LocationField[]) => (
+    <div>
+      <Label className="text-foreground">{label}</Label>
+      <Select
+        value={value[field]}
+        onValueChange={(picked) => onChange({ ...value, [field]: picked, ...Object.fromEntries(clears.map((cleared) => [cleared, ''])) })}
+      >
+        <SelectTrigger className="bg-input/50 border-border">
+          <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {options.map(([option, text]) => (
+            <SelectItem key={option} value={option}>{text}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {errors[field] && <p className="text-sm text-destructive mt-1">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {select('department', 'Department', departments.map((d) => [d, d]), ['subject', 'contentType', 'module'])}
+      {select('semester', 'Semester', catalog.semesters.map((s) => [String(s), `Semester ${s}`]), ['subject', 'contentType', 'module'])}
+      {select('subject', 'Subject', getSubjects(catalog, value.department, value.semester).map((s) => [s, s]), ['contentType', 'module'])}
+      {select('contentType', 'Category', categories.map((c) => [c.id, c.label]), ['module'])}
+      {modular && select('module', 'Module', Array.from({ length: modules }, (_, i) => [String(i + 1), `Module ${i + 1}`]), [])}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { redeemRecoveryCode, verifyTotp } from '../utils/mfa';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit authenticator code, submitted as soon as the last digit is typed
+export function TotpCodeInput({ value, onChange, onComplete, disabled }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^[0-9]+$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+interface MfaChallengeProps {
+  // Token of the password-only session, used to redeem a recovery code
+  token: string;
+  // Called with the new session token once a code or recovery code is accepted
+  onComplete: (token: string) => void;
+}
+
+// Second sign-in step for admins with an authenticator app
+export function MfaChallenge({ token, onComplete }: MfaChallengeProps) {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (verify: () => Promise<string>) => {
+    setVerifying(true);
+    setError('');
+    try {
+      onComplete(await verify());
+    } catch (err) {
+      console.error('Two-factor verification error:', err);
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {useRecovery ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(() => redeemRecoveryCode(token, recoveryCode));
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="recovery-code" className="text-foreground">Recovery code</Label>
+            <Input
+              id="recovery-code"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              required
+              className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+            />
+            <p className="text-xs text-muted-foreground">
+              Using a recovery code removes your authenticator; you'll be asked to set it up again.
+            </p>
+          </div>
+          <Button type="submit" disabled={verifying || !recoveryCode} className="w-full bg-primary hover:bg-primary/90">
+            <KeyRound className="h-4 w-4 mr-2" />
+            {verifying ? 'Checking...' : 'Use Recovery Code'}
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground text-center">Enter the 6-digit code from your authenticator app</p>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => submit(() => verifyTotp(value))}
+            disabled={verifying}
+          />
+          <Button
+            onClick={() => submit(() => verifyTotp(code))}
+            disabled={verifying || code.length < 6}
+            className="w-full bg-primary hover:bg-primary/90"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {verifying ? 'Verifying...' : 'Verify'}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
+          <AlertDescription className="text-destructive">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        variant="link"
+        onClick={() => {
+          setUseRecovery(!useRecovery);
+          setError('');
+        }}
+        className="w-full text-muted-foreground"
+      >
+        {useRecovery ? 'Use your authenticator app instead' : 'Lost your authenticator? Use a recovery code'}
+      </Button>
+    </div>
+  );
+}
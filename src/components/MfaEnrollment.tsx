@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+import { TotpCodeInput } from './MfaChallenge';
+import { TotpEnrollment, confirmTotp, createRecoveryCodes, enrollTotp } from '../utils/mfa';
+
+interface MfaEnrollmentProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMessage: (message: string) => void;
+}
+
+// Dialog that links an authenticator app and then shows one-time recovery codes
+export function MfaEnrollment({ open, onOpenChange, onMessage }: MfaEnrollmentProps) {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setEnrollment(null);
+    setCode('');
+    setRecoveryCodes(null);
+    setError('');
+
+    let cancelled = false;
+    enrollTotp()
+      .then((started) => !cancelled && setEnrollment(started))
+      .catch((err) => {
+        console.error('Error starting two-factor enrollment:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Two-factor setup could not be started');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const confirm = async (value: string) => {
+    if (!enrollment) return;
+    setVerifying(true);
+    setError('');
+    try {
+      const token = await confirmTotp(enrollment.factorId, value);
+      setRecoveryCodes(await createRecoveryCodes(token));
+      onMessage('Two-factor authentication enabled successfully!');
+    } catch (err) {
+      console.error('Two-factor enrollment error:', err);
+      setError(err instanceof Error ? err.message : 'That code did not match. Please try again.');
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const codesText = recoveryCodes?.join('\n') ?? '';
+
+  const downloadCodes = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([`ANH Atria Notes Hub recovery codes\n\n${codesText}\n`], { type: 'text/plain' }));
+    link.download = 'anh-recovery-codes.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-foreground">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-Factor Authentication
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {recoveryCodes
+              ? 'Save these recovery codes somewhere safe. Each one works once if you lose your authenticator, and they won\'t be shown again.'
+              : 'Scan the QR code with an authenticator app, then enter the 6-digit code it shows.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <div className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-card/30 p-4 font-mono text-sm text-foreground">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="mx-auto h-44 w-44 rounded bg-white p-2" />
+            <p className="text-xs text-muted-foreground text-center break-all">
+              Can't scan it? Enter this key instead: <span className="font-mono text-foreground">{enrollment.secret}</span>
+            </p>
+            <TotpCodeInput value={code} onChange={setCode} onComplete={confirm} disabled={verifying} />
+          </div>
+        ) : (
+          !error && <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary mx-auto my-6"></div>
+        )}
+
+        {error && (
+          <Alert variant="destructive" className="border-destructive/20 bg-destructive/10">
+            <AlertDescription className="text-destructive">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          {recoveryCodes ? (
+            <>
+              <Button variant="outline" onClick={() => navigator.clipboard.writeText(codesText)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={downloadCodes}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={() => onOpenChange(false)} className="bg-primary hover:bg-primary/90">Done</Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => confirm(code)}
+              disabled={!enrollment || verifying || code.length < 6}
+              className="bg-primary hover:bg-primary/90"
+            >
+              {verifying ? 'Verifying...' : 'Enable'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
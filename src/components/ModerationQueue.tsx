@@ -0,0 +1,290 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { Check, Download, Flag, FolderInput, Trash2, X } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { Catalog, placementLabel } from '../utils/catalog';
+import { FileLocation, downloadFile } from '../utils/files';
+import { FLAG_REASON_LABELS, QueueItem, Resolution } from '../utils/feedback';
+import { EMPTY_LOCATION, LocationDraft, LocationFields, isLocationComplete, toLocationDraft } from './LocationFields';
+
+interface ModerationQueueProps {
+  token: string;
+  catalog: Catalog;
+  // Departments the moderator may move files into
+  departments: string[];
+  onMessage: (message: string) => void;
+  // Called after a file was moved or deleted, so open file lists can refresh
+  onFileChanged: (location: FileLocation) => void;
+}
+
+const locationLabel = (catalog: Catalog, location: FileLocation) =>
+  `${location.department} Sem ${location.semester} ${location.subject} · ${placementLabel(catalog.categories, location)}`;
+
+interface MoveFileDialogProps {
+  catalog: Catalog;
+  departments: string[];
+  // The reported file being moved; the dialog is closed while null
+  item: QueueItem | null;
+  onClose: () => void;
+  onMove: (item: QueueItem, draft: LocationDraft) => Promise<Record<string, string> | null>;
+}
+
+function MoveFileDialog({ catalog, departments, item, onClose, onMove }: MoveFileDialogProps) {
+  const [draft, setDraft] = useState<LocationDraft>(EMPTY_LOCATION);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [moving, setMoving] = useState(false);
+
+  useEffect(() => {
+    setDraft(toLocationDraft(item?.location));
+    setErrors({});
+  }, [item]);
+
+  const move = async () => {
+    if (!item) return;
+    setMoving(true);
+    const fieldErrors = await onMove(item, draft);
+    setMoving(false);
+    if (fieldErrors) {
+      setErrors(fieldErrors);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Move file</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{item?.fileName}</DialogDescription>
+        </DialogHeader>
+        <LocationFields catalog={catalog} departments={departments} value={draft} onChange={setDraft} errors={errors} />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={move}
+            disabled={moving || !isLocationComplete(catalog, draft)}
+            className="bg-primary hover:bg-primary/90"
+          >
+            {moving ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Files students reported, with each reporter's reason, and the actions that
+// close the reports: dismiss, mark fixed, move or delete the file
+export function ModerationQueue({ token, catalog, departments, onMessage, onFileChanged }: ModerationQueueProps) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [moveItem, setMoveItem] = useState<QueueItem | null>(null);
+
+  const adminUrl = (path: string) => `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/${path}`;
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch(adminUrl('admin/flags'), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items);
+      } else {
+        console.error('Failed to fetch reports:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [token]);
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    const response = await fetch(adminUrl(path), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { ok: response.ok, data: await response.json() };
+  };
+
+  const resolve = async (item: QueueItem, resolution: Resolution) => {
+    setBusyId(item.fileId);
+    try {
+      const { ok, data } = await request(`admin/flags/${item.fileId}/resolve`, 'POST', { resolution });
+      if (ok) {
+        onMessage(data.message);
+        setItems((current) => current.filter((other) => other.fileId !== item.fileId));
+      } else {
+        onMessage(`Resolve failed: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Resolve failed: ${error}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteFile = async (item: QueueItem) => {
+    setBusyId(item.fileId);
+    try {
+      const { ok, data } = await request(`delete/${item.fileId}`, 'DELETE');
+      if (!ok) {
+        onMessage(`Delete failed: ${data.error || 'Unknown error'}`);
+        return;
+      }
+      onFileChanged(item.location);
+    } catch (error) {
+      onMessage(`Delete failed: ${error}`);
+      return;
+    } finally {
+      setBusyId(null);
+    }
+    await resolve(item, 'deleted');
+  };
+
+  // Resolves to field errors when the move was rejected
+  const moveFile = async (item: QueueItem, draft: LocationDraft): Promise<Record<string, string> | null> => {
+    try {
+      const { ok, data } = await request(`admin/files/${item.fileId}/move`, 'PUT', draft);
+      if (!ok) {
+        onMessage(`Move failed: ${data.error || 'Unknown error'}`);
+        return data.fieldErrors || {};
+      }
+      onFileChanged(item.location);
+      onFileChanged(data.location);
+    } catch (error) {
+      onMessage(`Move failed: ${error}`);
+      return {};
+    }
+    await resolve(item, 'moved');
+    return null;
+  };
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Flag className="h-5 w-5 text-primary" />
+            Reports
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Problems students reported with files. Each action closes every open report on the file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {items.length === 0 && (
+            <p className="text-center text-muted-foreground py-6">{loading ? 'Loading reports...' : 'No open reports'}</p>
+          )}
+          {items.map((item) => (
+            <div key={item.fileId} className="p-4 border border-border rounded-lg space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <h4 className="font-medium text-foreground truncate" title={item.fileName}>{item.fileName}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {item.file ? locationLabel(catalog, item.location) : 'This file has been deleted'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {item.file && (
+                    <Button variant="outline" size="sm" onClick={() => downloadFile(item.file!, token)} title="Download">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => resolve(item, 'dismissed')} disabled={busyId === item.fileId}>
+                    <X className="h-4 w-4 mr-2" />
+                    Dismiss
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => resolve(item, 'fixed')} disabled={busyId === item.fileId}>
+                    <Check className="h-4 w-4 mr-2" />
+                    Mark fixed
+                  </Button>
+                  {item.file && (
+                    <Button variant="outline" size="sm" onClick={() => setMoveItem(item)} disabled={busyId === item.fileId}>
+                      <FolderInput className="h-4 w-4 mr-2" />
+                      Move
+                    </Button>
+                  )}
+                  {item.file && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId === item.fileId}
+                          className="border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent className="bg-card border-border">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {item.fileName}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The file is moved to the trash and its reports are closed. It can be restored from the Trash tab until it is purged.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteFile(item)} className="bg-destructive hover:bg-destructive/90">
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2">
+                {item.flags.map((flag) => (
+                  <div key={flag.id} className="text-sm border-l-2 border-destructive/50 pl-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="border-destructive/30 text-destructive">{FLAG_REASON_LABELS[flag.reason]}</Badge>
+                      <span className="text-xs text-muted-foreground">{flag.reporter.email} · {new Date(flag.createdAt).toLocaleString()}</span>
+                    </div>
+                    {flag.details && <p className="text-foreground mt-1 whitespace-pre-wrap">{flag.details}</p>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+      <MoveFileDialog catalog={catalog} departments={departments} item={moveItem} onClose={() => setMoveItem(null)} onMove={moveFile} />
+    </motion.div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { projectId } from '../utils/supabase/info';
+import { EXAM_SESSION_LABELS, FileLocation, FileRecord, PaperMetadata } from '../utils/files';
+
+export type MetadataField = 'examYear' | 'session' | 'scheme' | 'paperCode' | 'iaNumber';
+export type MetadataDraft = Record<MetadataField, string>;
+
+export const EMPTY_METADATA: MetadataDraft = { examYear: '', session: '', scheme: '', paperCode: '', iaNumber: '' };
+
+// Selects can't hold an empty value, so "not set" has its own
+const NONE = 'none';
+
+export const toDraft = (metadata?: PaperMetadata): MetadataDraft => ({
+  examYear: metadata?.examYear ? String(metadata.examYear) : '',
+  session: metadata?.session ?? '',
+  scheme: metadata?.scheme ?? '',
+  paperCode: metadata?.paperCode ?? '',
+  iaNumber: metadata?.iaNumber ? String(metadata.iaNumber) : '',
+});
+
+// Only question papers carry metadata
+export const hasPaperMetadata = (contentType: string) => contentType === 'previousYearPaper' || contentType === 'iaPaper';
+
+// The draft fields that apply to a category, for sending along with a file
+export function applicableFields(contentType: string, draft: MetadataDraft): Partial<MetadataDraft> {
+  if (!hasPaperMetadata(contentType)) return {};
+  const { session, iaNumber, ...shared } = draft;
+  return { ...shared, ...(contentType === 'previousYearPaper' ? { session } : { iaNumber }) };
+}
+
+interface PaperMetadataFieldsProps {
+  contentType: string;
+  value: MetadataDraft;
+  onChange: (value: MetadataDraft) => void;
+  errors?: Partial<Record<MetadataField, string>>;
+}
+
+export function PaperMetadataFields({ contentType, value, onChange, errors = {} }: PaperMetadataFieldsProps) {
+  const set = (field: MetadataField) => (fieldValue: string) => onChange({ ...value, [field]: fieldValue === NONE ? '' : fieldValue });
+  const error = (field: MetadataField) => errors[field] && <p className="text-sm text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <Label className="text-foreground">Exam year</Label>
+        <Input
+          type="number"
+          value={value.examYear}
+          onChange={(e) => set('examYear')(e.target.value)}
+          placeholder="e.g. 2023"
+          className="bg-input/50 border-border"
+        />
+        {error('examYear')}
+      </div>
+      {contentType === 'previousYearPaper' ? (
+        <div>
+          <Label className="text-foreground">Session</Label>
+          <Select value={value.session || NONE} onValueChange={set('session')}>
+            <SelectTrigger className="bg-input/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {Object.entries(EXAM_SESSION_LABELS).map(([session, label]) => (
+                <SelectItem key={session} value={session}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {error('session')}
+        </div>
+      ) : (
+        <div>
+          <Label className="text-foreground">IA number</Label>
+          <Select value={value.iaNumber || NONE} onValueChange={set('iaNumber')}>
+            <SelectTrigger className="bg-input/50 border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {[1, 2, 3].map((number) => (
+                <SelectItem key={number} value={String(number)}>IA{number}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {error('iaNumber')}
+        </div>
+      )}
+      <div>
+        <Label className="text-foreground">Scheme</Label>
+        <Input
+          value={value.scheme}
+          onChange={(e) => set('scheme')(e.target.value)}
+          placeholder="e.g. 2022"
+          className="bg-input/50 border-border"
+        />
+        {error('scheme')}
+      </div>
+      <div>
+        <Label className="text-foreground">Paper code</Label>
+        <Input
+          value={value.paperCode}
+          onChange={(e) => set('paperCode')(e.target.value.toUpperCase())}
+          placeholder="e.g. 21CS53"
+          className="bg-input/50 border-border"
+        />
+        {error('paperCode')}
+      </div>
+    </div>
+  );
+}
+
+interface PaperMetadataDialogProps {
+  token: string;
+  // The file being edited; the dialog is closed while null
+  file: FileRecord | null;
+  contentType: FileLocation['contentType'];
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+// Edit the metadata of a paper that has already been uploaded
+export function PaperMetadataDialog({ token, file, contentType, onClose, onSaved }: PaperMetadataDialogProps) {
+  const [draft, setDraft] = useState<MetadataDraft>(EMPTY_METADATA);
+  const [errors, setErrors] = useState<Partial<Record<MetadataField, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(toDraft(file?.metadata));
+    setErrors({});
+    setError('');
+  }, [file]);
+
+  const save = async () => {
+    if (!file) return;
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/files/${file.id}/metadata`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify(draft),
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data.message);
+        onClose();
+      } else {
+        setErrors(data.fieldErrors || {});
+        setError(data.error || 'Unknown error');
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Paper details</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{file?.name}</DialogDescription>
+        </DialogHeader>
+        <PaperMetadataFields contentType={contentType} value={draft} onChange={setDraft} errors={errors} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={save} disabled={saving} className="bg-primary hover:bg-primary/90">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
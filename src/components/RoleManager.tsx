@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Check, Copy, Mail, Pencil, Trash2, Users, X } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { routePath } from '../utils/router';
+import { Invite, ROLE_LABELS, Role, RoleRecord } from '../utils/access';
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+interface RoleManagerProps {
+  token: string;
+  // The signed-in super-admin, who can't demote themselves here
+  currentUserId: string;
+  departments: string[];
+  onMessage: (message: string) => void;
+}
+
+interface RoleFieldsProps {
+  role: Role;
+  departments: string[];
+  allDepartments: string[];
+  roles?: Role[];
+  onRoleChange: (role: Role) => void;
+  onDepartmentsChange: (departments: string[]) => void;
+}
+
+// Role picker plus department checkboxes for department admins
+function RoleFields({ role, departments, allDepartments, roles = ROLES, onRoleChange, onDepartmentsChange }: RoleFieldsProps) {
+  const toggleDepartment = (department: string, checked: boolean) => {
+    onDepartmentsChange(checked ? [...departments, department] : departments.filter((d) => d !== department));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={role} onValueChange={(value) => onRoleChange(value as Role)}>
+        <SelectTrigger className="bg-input/50 border-border hover:border-primary/50 transition-colors">
+          <SelectValue placeholder="Select role" />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {roles.map((option) => (
+            <SelectItem key={option} value={option} className="hover:bg-primary/10">{ROLE_LABELS[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {role === 'department-admin' && (
+        <div className="flex flex-wrap gap-3">
+          {allDepartments.map((department) => (
+            <label key={department} className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={departments.includes(department)}
+                onCheckedChange={(checked) => toggleDepartment(department, checked === true)}
+              />
+              {department}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RoleManager({ token, currentUserId, departments, onMessage }: RoleManagerProps) {
+  const [roles, setRoles] = useState<RoleRecord[]>([]);
+  const [editing, setEditing] = useState<{ userId: string; role: Role; departments: string[] } | null>(null);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>('moderator');
+  const [inviteDepartments, setInviteDepartments] = useState<string[]>([]);
+  const [inviting, setInviting] = useState(false);
+  // The link for the invite just created; tokens can't be fetched again later
+  const [inviteLink, setInviteLink] = useState('');
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/${path}`,
+      {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }
+    );
+    return { response, data: await response.json() };
+  };
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      const { response, data } = await request('GET', 'admin/roles');
+      if (response.ok) {
+        setRoles(data.roles);
+      } else {
+        console.error('Failed to fetch roles:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+    }
+  }, [token]);
+
+  const fetchInvites = useCallback(async () => {
+    try {
+      const { response, data } = await request('GET', 'admin/invites');
+      if (response.ok) {
+        setInvites(data.invites);
+      } else {
+        console.error('Failed to fetch invites:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchRoles();
+    fetchInvites();
+  }, [fetchRoles, fetchInvites]);
+
+  const createInvite = async () => {
+    setInviting(true);
+    setInviteLink('');
+    try {
+      const { response, data } = await request('POST', 'admin/invites', {
+        email: inviteEmail,
+        role: inviteRole,
+        departments: inviteDepartments,
+      });
+      if (response.ok) {
+        onMessage('Invite created successfully! Send the link to the invitee.');
+        setInviteLink(`${window.location.origin}${routePath({ page: 'accept-invite', token: data.token })}`);
+        setInviteEmail('');
+        setInviteDepartments([]);
+        await fetchInvites();
+      } else {
+        onMessage(`Failed to create invite: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Error creating invite: ${error}`);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const revokeInvite = async (id: string) => {
+    try {
+      const { response, data } = await request('DELETE', `admin/invites/${encodeURIComponent(id)}`);
+      if (response.ok) {
+        onMessage('Invite revoked successfully!');
+        await fetchInvites();
+      } else {
+        onMessage(`Failed to revoke invite: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Error revoking invite: ${error}`);
+    }
+  };
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      onMessage('Invite link copied successfully!');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+    }
+  };
+
+  const saveRole = async () => {
+    if (!editing) return;
+    try {
+      const { response, data } = await request('PUT', `admin/roles/${encodeURIComponent(editing.userId)}`, {
+        role: editing.role,
+        departments: editing.departments,
+      });
+      if (response.ok) {
+        onMessage('Role updated successfully!');
+        setEditing(null);
+        await fetchRoles();
+      } else {
+        onMessage(`Failed to update role: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Error updating role: ${error}`);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-6">
+      {/* Accounts */}
+      <motion.div
+        initial={{ x: -100, opacity: 0 }}
+        animate={{ x: 0, opacity: 1 }}
+        transition={{ duration: 0.6, delay: 0.1 }}
+        className="lg:col-span-2"
+      >
+        <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <Users className="h-5 w-5 text-primary" />
+              Admins and Moderators
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">Change what each account may manage</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {roles.length === 0 && (
+              <div className="text-muted-foreground text-sm text-center py-4">No accounts with roles yet</div>
+            )}
+            {roles.map((record) => (
+              <div key={record.userId} className="p-3 border border-border rounded-lg bg-card/30 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{record.email}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">{ROLE_LABELS[record.role]}</Badge>
+                      {record.departments.map((department) => (
+                        <Badge key={department} variant="outline">{department}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {editing?.userId === record.userId ? (
+                    <div className="flex gap-1">
+                      <Button size="sm" onClick={saveRole} className="bg-primary hover:bg-primary/90" aria-label="Save role">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditing(null)} aria-label="Cancel">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    record.userId !== currentUserId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditing({ userId: record.userId, role: record.role, departments: record.departments })}
+                        className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                        aria-label="Edit role"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )
+                  )}
+                </div>
+                {editing?.userId === record.userId && (
+                  <RoleFields
+                    role={editing.role}
+                    departments={editing.departments}
+                    allDepartments={departments}
+                    onRoleChange={(role) => setEditing({ ...editing, role })}
+                    onDepartmentsChange={(selected) => setEditing({ ...editing, departments: selected })}
+                  />
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Invites */}
+      <motion.div
+        initial={{ x: 100, opacity: 0 }}
+        animate={{ x: 0, opacity: 1 }}
+        transition={{ duration: 0.6, delay: 0.2 }}
+      >
+        <Card className="glass-morphism border-border/50 hover:border-primary/30 transition-all duration-300">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <Mail className="h-5 w-5 text-primary" />
+              Invite
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">Invitees choose their own password from a single-use link</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label className="text-foreground">Email</Label>
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="bg-input/50 border-border hover:border-primary/50 focus:border-primary transition-colors"
+              />
+            </div>
+            <div>
+              <Label className="text-foreground">Role</Label>
+              <RoleFields
+                role={inviteRole}
+                departments={inviteDepartments}
+                allDepartments={departments}
+                roles={ROLES.filter((role) => role !== 'student')}
+                onRoleChange={setInviteRole}
+                onDepartmentsChange={setInviteDepartments}
+              />
+            </div>
+            <Button
+              onClick={createInvite}
+              disabled={inviting || !inviteEmail}
+              className="w-full bg-primary hover:bg-primary/90 hover-scale"
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              {inviting ? 'Creating...' : 'Create Invite'}
+            </Button>
+            {inviteLink && (
+              <div className="flex gap-2">
+                <Input readOnly value={inviteLink} className="bg-input/50 border-border text-muted-foreground" />
+                <Button size="sm" variant="outline" onClick={copyInviteLink} aria-label="Copy invite link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {invites.length > 0 && (
+              <div className="space-y-2 border-t border-border pt-4">
+                <p className="text-sm font-medium text-foreground">Pending invites</p>
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-2 p-2 border border-border rounded-lg bg-card/30">
+                    <div className="min-w-0">
+                      <p className="text-sm text-foreground truncate">{invite.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ROLE_LABELS[invite.role]} · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeInvite(invite.id)}
+                      className="hover-scale border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+                      aria-label="Revoke invite"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { BookMarked, Download, FileText, Star } from 'lucide-react';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { supabase } from '../utils/supabase/client';
+import { Catalog, getSubjects, placementLabel } from '../utils/catalog';
+import { FileLocation, FileRecord } from '../utils/files';
+import { Bookmarks, ProfileField, StudentProfile } from '../utils/student';
+
+type ProfileDraft = Pick<StudentProfile, 'department' | 'semester' | 'usn'>;
+type FieldErrors = Partial<Record<ProfileField, string>>;
+
+const EMPTY_PROFILE: ProfileDraft = { department: '', semester: '', usn: '' };
+
+interface ProfileFieldsProps {
+  catalog: Catalog;
+  value: ProfileDraft;
+  onChange: (value: ProfileDraft) => void;
+  errors: FieldErrors;
+}
+
+function ProfileFields({ catalog, value, onChange, errors }: ProfileFieldsProps) {
+  const error = (field: ProfileField) => errors[field] && <p className="text-sm text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <Label className="text-foreground">Department</Label>
+        <Select value={value.department} onValueChange={(department) => onChange({ ...value, department })}>
+          <SelectTrigger className="bg-input/50 border-border">
+            <SelectValue placeholder="Select department" />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {catalog.departments.map((department) => (
+              <SelectItem key={department} value={department}>{department}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error('department')}
+      </div>
+      <div>
+        <Label className="text-foreground">Semester</Label>
+        <Select value={value.semester} onValueChange={(semester) => onChange({ ...value, semester })}>
+          <SelectTrigger className="bg-input/50 border-border">
+            <SelectValue placeholder="Select semester" />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {catalog.semesters.map((semester) => (
+              <SelectItem key={semester} value={String(semester)}>Semester {semester}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error('semester')}
+      </div>
+      <div className="col-span-2">
+        <Label className="text-foreground">USN</Label>
+        <Input
+          value={value.usn}
+          onChange={(e) => onChange({ ...value, usn: e.target.value.toUpperCase() })}
+          placeholder="e.g. 1AT21CS001"
+          className="bg-input/50 border-border"
+        />
+        {error('usn')}
+      </div>
+    </div>
+  );
+}
+
+interface StudentSignInDialogProps {
+  open: boolean;
+  catalog: Catalog;
+  onClose: () => void;
+}
+
+// Sign in, or create a student account with its profile
+export function StudentSignInDialog({ open, catalog, onClose }: StudentSignInDialogProps) {
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_PROFILE);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    setPassword('');
+    setErrors({});
+    setError('');
+  }, [open, mode]);
+
+  const signIn = async () => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    return true;
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    setErrors({});
+    setError('');
+    try {
+      if (mode === 'sign-up') {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/student/signup`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${publicAnonKey}`,
+            },
+            body: JSON.stringify({ email, password, ...draft }),
+          }
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          setErrors(data.fieldErrors || {});
+          setError(data.error || 'Unknown error');
+          return;
+        }
+        // New accounts sign in once the emailed link has confirmed them
+        setNotice(data.message);
+        setMode('sign-in');
+        return;
+      }
+      setNotice('');
+      if (await signIn()) {
+        onClose();
+      }
+    } catch (err) {
+      setError(mode === 'sign-up' ? 'Sign up failed. Please try again.' : 'Sign in failed. Please check your credentials.');
+      console.error('Student sign in error:', err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{mode === 'sign-in' ? 'Student sign in' : 'Create a student account'}</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Star files and subjects and open straight to your semester on any device.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={submit} className="space-y-4">
+          <div>
+            <Label htmlFor="student-email" className="text-foreground">Email</Label>
+            <Input
+              id="student-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="bg-input/50 border-border"
+            />
+            {errors.email && <p className="text-sm text-destructive mt-1">{errors.email}</p>}
+          </div>
+          <div>
+            <Label htmlFor="student-password" className="text-foreground">Password</Label>
+            <Input
+              id="student-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className="bg-input/50 border-border"
+            />
+            {errors.password && <p className="text-sm text-destructive mt-1">{errors.password}</p>}
+          </div>
+          {mode === 'sign-up' && <ProfileFields catalog={catalog} value={draft} onChange={setDraft} errors={errors} />}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
+          <DialogFooter className="sm:justify-between gap-2">
+            <Button type="button" variant="ghost" onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}>
+              {mode === 'sign-in' ? 'New here? Create an account' : 'Have an account? Sign in'}
+            </Button>
+            <Button type="submit" disabled={working} className="bg-primary hover:bg-primary/90">
+              {working ? 'Please wait...' : mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface StudentProfileDialogProps {
+  open: boolean;
+  token: string;
+  catalog: Catalog;
+  profile: StudentProfile | null;
+  onClose: () => void;
+  onSaved: (profile: StudentProfile) => void;
+}
+
+// Edit the department, semester and USN of the signed-in student
+export function StudentProfileDialog({ open, token, catalog, profile, onClose, onSaved }: StudentProfileDialogProps) {
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_PROFILE);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(profile ? { department: profile.department, semester: profile.semester, usn: profile.usn } : EMPTY_PROFILE);
+    setErrors({});
+    setError('');
+  }, [open, profile]);
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/student/profile`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify(draft),
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data.profile);
+        onClose();
+      } else {
+        setErrors(data.fieldErrors || {});
+        setError(data.error || 'Unknown error');
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Your profile</DialogTitle>
+          <DialogDescription className="text-muted-foreground">{profile?.email}</DialogDescription>
+        </DialogHeader>
+        <ProfileFields catalog={catalog} value={draft} onChange={setDraft} errors={errors} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={save} disabled={saving} className="bg-primary hover:bg-primary/90">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MySubjectsProps {
+  catalog: Catalog;
+  profile: StudentProfile | null;
+  bookmarks: Bookmarks;
+  isSubjectStarred: (department: string, semester: string, subject: string) => boolean;
+  onToggleSubject: (department: string, semester: string, subject: string) => void;
+  onToggleFile: (fileId: string) => void;
+  onSelectSubject: (department: string, semester: string, subject: string) => void;
+  onOpenFile: (file: FileRecord, location: FileLocation) => void;
+  onEditProfile: () => void;
+}
+
+// A signed-in student's dashboard: their semester's subjects, starred subjects and saved files
+export function MySubjects({
+  catalog,
+  profile,
+  bookmarks,
+  isSubjectStarred,
+  onToggleSubject,
+  onToggleFile,
+  onSelectSubject,
+  onOpenFile,
+  onEditProfile,
+}: MySubjectsProps) {
+  const semesterSubjects = profile ? getSubjects(catalog, profile.department, profile.semester) : [];
+
+  const renderSubject = (department: string, semester: string, subject: string, showPlace: boolean) => {
+    const starred = isSubjectStarred(department, semester, subject);
+    return (
+      <div
+        key={`${department}/${semester}/${subject}`}
+        className="flex items-center justify-between gap-2 p-3 border border-border rounded-lg hover:border-primary/30 hover:bg-card/50 transition-all duration-300"
+      >
+        <button type="button" onClick={() => onSelectSubject(department, semester, subject)} className="text-left min-w-0">
+          <span className="block font-medium text-foreground truncate">{subject}</span>
+          {showPlace && <span className="block text-xs text-muted-foreground">{department} · Semester {semester}</span>}
+        </button>
+        <Button
+          variant="ghost"
+          size="sm"
+          title={starred ? 'Remove from starred subjects' : 'Star this subject'}
+          onClick={() => onToggleSubject(department, semester, subject)}
+        >
+          <Star className={`h-4 w-4 ${starred ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`} />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ scale: 0.9, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.4 }}
+    >
+      <Card className="mb-8 glass-morphism border-primary/20 shadow-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <BookMarked className="h-5 w-5 text-primary" />
+            My Subjects
+          </CardTitle>
+          <CardDescription className="text-muted-foreground flex flex-wrap items-center gap-2">
+            {profile ? (
+              <>
+                <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">{profile.usn}</Badge>
+                {profile.department} · Semester {profile.semester}
+              </>
+            ) : (
+              'Add your department and semester to see your subjects here.'
+            )}
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={onEditProfile}>
+              {profile ? 'Edit profile' : 'Complete profile'}
+            </Button>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {profile && (
+            <div>
+              <h4 className="font-semibold text-foreground mb-2">This semester</h4>
+              {semesterSubjects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No subjects have been added for your semester yet.</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                  {semesterSubjects.map((subject) => renderSubject(profile.department, profile.semester, subject, false))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {bookmarks.subjects.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-foreground mb-2">Starred subjects</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {bookmarks.subjects.map(({ department, semester, subject }) => renderSubject(department, semester, subject, true))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold text-foreground mb-2">Saved files</h4>
+            {bookmarks.files.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Star a file to keep it here.</p>
+            ) : (
+              <div className="space-y-2">
+                {bookmarks.files.map(({ file, location }) => (
+                  <div key={file.id} className="flex items-center justify-between gap-2 p-3 border border-border rounded-lg">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileText className="h-5 w-5 text-primary shrink-0" />
+                      <div className="min-w-0">
+                        <span className="block font-medium text-foreground truncate">{file.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => onSelectSubject(location.department, location.semester, location.subject)}
+                          className="block text-xs text-muted-foreground hover:text-primary text-left"
+                        >
+                          {location.subject} · {placementLabel(catalog.categories, location)}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" title="Remove from saved files" onClick={() => onToggleFile(file.id)}>
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                      </Button>
+                      <Button size="sm" onClick={() => onOpenFile(file, location)} className="bg-primary hover:bg-primary/90">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -5,65 +5,233 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Button } from './ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
-import { Download, FileText, BookOpen, FileCheck, GraduationCap, User, MapPin, Sparkles, Star } from 'lucide-react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable';
+import { useIsMobile } from './ui/use-mobile';
+import { Download, FileText, BookOpen, FileCheck, GraduationCap, User, MapPin, Sparkles, Star, Link2, Check, Eye, FolderDown, LogIn, LogOut, UserCircle, MessageSquare, Upload, ExternalLink } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { Category, useCatalog, getLayout, getSubjects, subjectCategories } from '../utils/catalog';
+import { EXAM_SESSION_LABELS, ExamSession, FileLocation, FileRecord, SubjectContent, categoryFiles, downloadBundle, downloadFile, getFileUrl, metadataLabels, previewKind } from '../utils/files';
+import { useRecentItems } from '../utils/recent';
+import { useStudentAccount } from '../utils/student';
+import { FeedbackSummary } from '../utils/feedback';
+import { StudentRoute, categoryTab, navigate, tabCategory } from '../utils/router';
+import { FileSearch } from './FileSearch';
+import { CommandPalette } from './CommandPalette';
+import { FilePreview } from './FilePreview';
+import { MySubjects, StudentProfileDialog, StudentSignInDialog } from './StudentAccount';
+import { ContributeDialog } from './ContributeDialog';
+import { FileFeedbackDialog } from './FileFeedback';
 
-interface FileRecord {
-  id: string;
-  name: string;
-  path: string;
-  uploadedAt: string;
+type PaperType = 'previousYearPaper' | 'iaPaper';
+type PaperSort = 'newest-exam' | 'oldest-exam' | 'recently-added' | 'name';
+
+interface PaperFilters {
+  examYear: string;
+  session: string;
+  scheme: string;
+  iaNumber: string;
+  paperCode: string;
+  sort: PaperSort;
 }
 
-interface ContentStructure {
-  previousYearPapers: FileRecord[];
-  iaPapers: FileRecord[];
-  notes: {
-    [module: string]: FileRecord[];
-  };
+const PAPER_TYPES: string[] = ['previousYearPaper', 'iaPaper'];
+const isPaperType = (contentType: string): contentType is PaperType => PAPER_TYPES.includes(contentType);
+
+const ALL = 'all';
+const NO_FILTERS: PaperFilters = { examYear: ALL, session: ALL, scheme: ALL, iaNumber: ALL, paperCode: ALL, sort: 'newest-exam' };
+
+const SORT_LABELS: Record<PaperSort, string> = {
+  'newest-exam': 'Newest exam first',
+  'oldest-exam': 'Oldest exam first',
+  'recently-added': 'Recently added',
+  name: 'Name',
+};
+
+// Within a year, the Jun/Jul exams come before Dec/Jan
+const SESSION_ORDER: Record<ExamSession, number> = { 'jun-jul': 1, 'dec-jan': 2 };
+
+// Exam date as a sortable number; papers without a year sort last either way
+const examOrder = (file: FileRecord) =>
+  file.metadata?.examYear ? file.metadata.examYear * 10 + (file.metadata.session ? SESSION_ORDER[file.metadata.session] : 0) : null;
+
+function filterPapers(files: FileRecord[], filters: PaperFilters): FileRecord[] {
+  const matches = (value: string | number | undefined, filter: string) => filter === ALL || String(value ?? '') === filter;
+  const filtered = files.filter(({ metadata = {} }) =>
+    matches(metadata.examYear, filters.examYear)
+    && matches(metadata.session, filters.session)
+    && matches(metadata.scheme, filters.scheme)
+    && matches(metadata.iaNumber, filters.iaNumber)
+    && matches(metadata.paperCode, filters.paperCode));
+
+  return [...filtered].sort((a, b) => {
+    if (filters.sort === 'name') return a.name.localeCompare(b.name, undefined, { numeric: true });
+    if (filters.sort === 'recently-added') return b.uploadedAt.localeCompare(a.uploadedAt);
+    const [orderA, orderB] = [examOrder(a), examOrder(b)];
+    if (orderA === orderB) return a.name.localeCompare(b.name, undefined, { numeric: true });
+    if (orderA === null) return 1;
+    if (orderB === null) return -1;
+    return filters.sort === 'newest-exam' ? orderB - orderA : orderA - orderB;
+  });
 }
 
+// Distinct values of a metadata field, for the filter options
+const valuesOf = (files: FileRecord[], read: (file: FileRecord) => string | number | undefined) =>
+  [...new Set(files.map(read).filter((value) => value !== undefined))].sort().map(String);
+
 interface StudentPortalProps {
+  route: StudentRoute;
   onAdminClick: () => void;
 }
 
-export function StudentPortal({ onAdminClick }: StudentPortalProps) {
-  const [selectedDepartment, setSelectedDepartment] = useState<string>('');
-  const [selectedSemester, setSelectedSemester] = useState<string>('');
-  const [selectedSubject, setSelectedSubject] = useState<string>('');
-  const [contentStructure, setContentStructure] = useState<ContentStructure | null>(null);
+export function StudentPortal({ route, onAdminClick }: StudentPortalProps) {
+  const [contentStructure, setContentStructure] = useState<SubjectContent | null>(null);
   const [loading, setLoading] = useState(false);
+  // The file opened through a /files/:id link, and the id whose link was just copied
+  const [linkedFile, setLinkedFile] = useState<{ file: FileRecord; location: FileLocation } | null>(null);
+  const [copiedFileId, setCopiedFileId] = useState<string | null>(null);
+  // The file shown in the preview panel beside the file list
+  const [previewFile, setPreviewFile] = useState<{ file: FileRecord; location: FileLocation } | null>(null);
+  // Which "Download all" is running, and why the last one failed
+  const [bundling, setBundling] = useState<string | null>(null);
+  const [bundleError, setBundleError] = useState('');
+  const [paperFilters, setPaperFilters] = useState<Record<PaperType, PaperFilters>>({ previousYearPaper: NO_FILTERS, iaPaper: NO_FILTERS });
+  // Rating summaries for the subject's files, and the file whose feedback is open
+  const [ratings, setRatings] = useState<Record<string, FeedbackSummary>>({});
+  const [feedbackFile, setFeedbackFile] = useState<FileRecord | null>(null);
+  const isMobile = useIsMobile();
 
-  // Static data
-  const departments = ['CSE', 'AI&ML', 'ISE', 'CIVIL', 'MECH', 'ECE'];
-  const semesters = [1, 2, 3, 4, 5, 6, 7, 8];
-
-  // Get subjects based on department
-  const getSubjects = (department: string) => {
-    const subjectMap: Record<string, string[]> = {
-      'CSE': ['Mathematics', 'Data Structures', 'Computer Networks', 'Operating Systems', 'Software Engineering'],
-      'AI&ML': ['Mathematics', 'Machine Learning', 'Data Science', 'Artificial Intelligence', 'Statistics'],
-      'ISE': ['Mathematics', 'Information Systems', 'Database Management', 'Systems Analysis', 'Project Management'],
-      'ECE': ['Mathematics', 'Circuit Analysis', 'Digital Electronics', 'Communication Systems', 'Control Systems'],
-      'MECH': ['Mathematics', 'Thermodynamics', 'Fluid Mechanics', 'Machine Design', 'Manufacturing Processes'],
-      'CIVIL': ['Mathematics', 'Structural Analysis', 'Concrete Technology', 'Surveying', 'Construction Management']
-    };
-    return subjectMap[department] || [];
+  // A file link shows the file's subject with the file highlighted
+  const linked = route.fileId && linkedFile?.file.id === route.fileId ? linkedFile : null;
+  const selection = route.fileId ? linked?.location ?? {} : route;
+  const selectedDepartment = selection.department ?? '';
+  const selectedSemester = selection.semester ?? '';
+  const selectedSubject = selection.subject ?? '';
+  const activeModule = linked ? linked.location.module : route.module;
+
+  // Selection changes are navigations, so they can be shared and undone with Back
+  const go = (changes: Partial<StudentRoute>, replace = false) => {
+    navigate({
+      page: 'student',
+      department: selectedDepartment || undefined,
+      semester: selectedSemester || undefined,
+      subject: selectedSubject || undefined,
+      tab: route.fileId ? undefined : route.tab,
+      module: route.fileId ? undefined : route.module,
+      ...changes,
+    }, { replace });
   };
 
-  const subjects = selectedDepartment ? getSubjects(selectedDepartment) : [];
+  const setSelectedDepartment = (department: string) => go({ department });
+  const setSelectedSemester = (semester: string) => go({ semester });
+  const setSelectedSubject = (subject: string) => go({ subject: subject || undefined, tab: undefined, module: undefined }, !subject);
+
+  const { catalog, loading: catalogLoading } = useCatalog();
+  const subjects = getSubjects(catalog, selectedDepartment, selectedSemester);
+  // The subject's categories are its tabs; the URL names one or the first is shown
+  const categories = subjectCategories(catalog, selectedDepartment, selectedSemester, selectedSubject);
+  const moduleCount = getLayout(catalog, selectedDepartment, selectedSemester, selectedSubject).modules;
+  const routeCategory = route.tab ? tabCategory(route.tab) : undefined;
+  const activeCategory = linked?.location.contentType
+    ?? categories.find((category) => category.id === routeCategory)?.id
+    ?? categories[0]?.id
+    ?? '';
+  const { recent, remember } = useRecentItems('anh_recent_student');
+  const student = useStudentAccount();
+  const [accountDialog, setAccountDialog] = useState<'sign-in' | 'profile' | 'contribute' | null>(null);
+  const [bookmarkError, setBookmarkError] = useState('');
+  // The dashboard opens to the student's semester once per visit, unless a link chose something else
+  const [openedSemester, setOpenedSemester] = useState(false);
+
+  // Clear the subject when it isn't offered in the newly selected department/semester
+  useEffect(() => {
+    if (!catalogLoading && selectedSubject && !subjects.includes(selectedSubject)) {
+      setSelectedSubject('');
+    }
+  }, [catalogLoading, subjects, selectedSubject]);
+
+  useEffect(() => {
+    if (!student.profile || openedSemester) return;
+    setOpenedSemester(true);
+    if (!route.fileId && !route.department && !route.semester && !route.subject) {
+      go({ department: student.profile.department, semester: student.profile.semester }, true);
+    }
+  }, [student.profile, openedSemester]);
+
+  // Resolve a shared file link to the file's location
+  useEffect(() => {
+    if (!route.fileId) return;
+
+    const fetchLinkedFile = async () => {
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/files/${encodeURIComponent(route.fileId!)}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${publicAnonKey}`,
+            },
+          }
+        );
+
+        if (response.ok) {
+          const data = await response.json();
+          setLinkedFile(data);
+          if (!data.file.url && previewKind(data.file)) {
+            setPreviewFile(data);
+          }
+        } else {
+          console.error('Failed to fetch linked file:', response.statusText);
+          navigate({ page: 'student' }, { replace: true });
+        }
+      } catch (error) {
+        console.error('Error fetching linked file:', error);
+      }
+    };
+    fetchLinkedFile();
+  }, [route.fileId]);
+
+  // Bring the linked file, or the module named in the URL, into view once loaded
+  useEffect(() => {
+    if (!contentStructure) return;
+    const target = document.getElementById(linked ? `file-${linked.file.id}` : activeModule ? `${activeCategory}-module${activeModule}` : '');
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [contentStructure, linked, activeCategory, activeModule]);
 
   // Fetch content when subject is selected
   useEffect(() => {
     if (selectedDepartment && selectedSemester && selectedSubject) {
       fetchContent();
+      setPreviewFile((current) =>
+        current?.location.department === selectedDepartment && current.location.semester === selectedSemester && current.location.subject === selectedSubject
+          ? current
+          : null
+      );
+      setPaperFilters({ previousYearPaper: NO_FILTERS, iaPaper: NO_FILTERS });
+      remember({ kind: 'subject', department: selectedDepartment, semester: selectedSemester, subject: selectedSubject });
     } else {
       setContentStructure(null);
     }
   }, [selectedDepartment, selectedSemester, selectedSubject]);
 
+  const fetchRatings = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/content/${selectedDepartment}/${selectedSemester}/${selectedSubject}/feedback`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`,
+          },
+        }
+      );
+      setRatings(response.ok ? await response.json() : {});
+    } catch (error) {
+      console.error('Error fetching ratings:', error);
+      setRatings({});
+    }
+  };
+
   const fetchContent = async () => {
     setLoading(true);
+    fetchRatings();
     try {
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/content/${selectedDepartment}/${selectedSemester}/${selectedSubject}`,
@@ -79,97 +247,333 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
         setContentStructure(data);
       } else {
         console.error('Failed to fetch content:', response.statusText);
-        setContentStructure({
-          previousYearPapers: [],
-          iaPapers: [],
-          notes: {}
-        });
+        setContentStructure({});
       }
     } catch (error) {
       console.error('Error fetching content:', error);
-      setContentStructure({
-        previousYearPapers: [],
-        iaPapers: [],
-        notes: {}
-      });
+      setContentStructure({});
     } finally {
       setLoading(false);
     }
   };
 
-  const downloadFile = async (filePath: string, fileName: string) => {
-    try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/download`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({ filePath }),
-        }
-      );
+  const selectSubject = (department: string, semester: string, subject: string) => {
+    go({ department, semester, subject, tab: undefined, module: undefined });
+  };
 
-      if (response.ok) {
-        const data = await response.json();
-        const link = document.createElement('a');
-        link.href = data.url;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      } else {
-        console.error('Download failed:', response.statusText);
-      }
+  const copyFileLink = async (file: FileRecord) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/files/${encodeURIComponent(file.id)}`);
+      setCopiedFileId(file.id);
+      setTimeout(() => setCopiedFileId((current) => (current === file.id ? null : current)), 2000);
     } catch (error) {
-      console.error('Download error:', error);
+      console.error('Failed to copy link:', error);
     }
   };
 
-  const renderFileList = (files: FileRecord[], emptyMessage: string) => (
-    <div className="space-y-3">
-      {files.length === 0 ? (
-        <motion.div 
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          className="text-center py-8"
-        >
-          <FileText className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
-          <p className="text-muted-foreground">{emptyMessage}</p>
-        </motion.div>
-      ) : (
-        files.map((file, index) => (
-          <motion.div
-            key={file.id}
-            initial={{ x: -50, opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            transition={{ delay: index * 0.1 }}
-            className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-card/50 hover:border-primary/30 transition-all duration-300 hover-lift"
+  const showPreview = (file: FileRecord, location: FileLocation) => {
+    remember({ kind: 'file', file: { id: file.id, name: file.name, path: file.path }, location });
+    setPreviewFile({ file, location });
+  };
+
+  // Links open in a new tab; the visit is still counted as a view
+  const visitLink = (file: FileRecord, location: FileLocation) => {
+    remember({ kind: 'file', file: { id: file.id, name: file.name, path: file.path }, location });
+    getFileUrl(file.id, undefined, 'view');
+  };
+
+  const openFile = (file: FileRecord, location: FileLocation) => {
+    if (file.url) {
+      visitLink(file, location);
+      window.open(file.url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    remember({ kind: 'file', file: { id: file.id, name: file.name, path: file.path }, location });
+    downloadFile(file, undefined, true);
+  };
+
+  // Star or unstar; signed-out students are asked to sign in first
+  const toggleBookmark = async (update: () => Promise<string | null>) => {
+    if (!student.token) {
+      setAccountDialog('sign-in');
+      return;
+    }
+    setBookmarkError((await update()) ?? '');
+  };
+
+  const bundleKey = (placement: Partial<Pick<FileLocation, 'contentType' | 'module'>>) =>
+    `${placement.contentType ?? 'subject'}${placement.module ?? ''}`;
+
+  // Pass `fileIds` to bundle only some of the files, e.g. the filtered papers
+  const downloadAll = async (placement: Partial<Pick<FileLocation, 'contentType' | 'module'>>, fileIds?: string[]) => {
+    setBundling(bundleKey(placement));
+    setBundleError('');
+    const error = await downloadBundle({ department: selectedDepartment, semester: selectedSemester, subject: selectedSubject, ...placement, fileIds });
+    setBundleError(error ?? '');
+    setBundling(null);
+  };
+
+  const renderDownloadAll = (placement: Partial<Pick<FileLocation, 'contentType' | 'module'>>, label: string, className = '', fileIds?: string[]) => (
+    <Button
+      onClick={() => downloadAll(placement, fileIds)}
+      disabled={bundling !== null}
+      variant="outline"
+      size="sm"
+      className={`hover-scale border-primary/30 hover:border-primary hover:bg-primary/10 ${className}`}
+    >
+      <FolderDown className="h-4 w-4 mr-2" />
+      {bundling === bundleKey(placement) ? 'Preparing...' : label}
+    </Button>
+  );
+
+  // `filtered` lists only some of the placement's files; "Download all" then bundles just those
+  const renderFileList = (files: FileRecord[], emptyMessage: string, placement: Pick<FileLocation, 'contentType' | 'module'>, filtered = false) => {
+    const downloadable = files.filter((file) => !file.url);
+    return (
+      <div className="space-y-3">
+        {downloadable.length > 1 && !placement.module && (
+          <div className="flex justify-end">
+            {renderDownloadAll(placement, `Download all ${downloadable.length}`, '', filtered ? downloadable.map((file) => file.id) : undefined)}
+          </div>
+        )}
+        {files.length === 0 ? (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-8"
           >
-            <div className="flex items-center gap-3">
-              <div className="p-2 bg-primary/10 rounded-lg">
-                <FileText className="h-5 w-5 text-primary" />
+            <FileText className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+            <p className="text-muted-foreground">{emptyMessage}</p>
+          </motion.div>
+        ) : (
+          files.map((file, index) => (
+            <motion.div
+              key={file.id}
+              id={`file-${file.id}`}
+              initial={{ x: -50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ delay: index * 0.1 }}
+              className={`flex items-center justify-between p-4 border rounded-lg hover:bg-card/50 hover:border-primary/30 transition-all duration-300 hover-lift ${
+                linked?.file.id === file.id ? 'border-primary ring-2 ring-primary/40' : 'border-border'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  {file.url ? <ExternalLink className="h-5 w-5 text-primary" /> : <FileText className="h-5 w-5 text-primary" />}
+                </div>
+                <div>
+                  <h4 className="font-medium text-foreground">{file.name}</h4>
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    Uploaded: {new Date(file.uploadedAt).toLocaleDateString()}
+                    {file.contributedBy && <span>by {file.contributedBy}</span>}
+                    {ratings[file.id]?.average && (
+                      <span className="flex items-center gap-1" title={`${ratings[file.id].ratings} ratings`}>
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        {ratings[file.id].average} ({ratings[file.id].ratings})
+                      </span>
+                    )}
+                    {file.updatedAt && (
+                      <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">
+                        Updated {new Date(file.updatedAt).toLocaleDateString()}
+                      </Badge>
+                    )}
+                  </p>
+                  {file.metadata && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {metadataLabels(file.metadata).map((label) => (
+                        <Badge key={label} variant="outline" className="border-primary/30 text-xs">{label}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
-              <div>
-                <h4 className="font-medium text-foreground">{file.name}</h4>
-                <p className="text-sm text-muted-foreground">
-                  Uploaded: {new Date(file.uploadedAt).toLocaleDateString()}
-                </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={() => toggleBookmark(() => student.toggleFile(file.id))}
+                  variant="outline"
+                  size="sm"
+                  title={student.isFileStarred(file.id) ? 'Remove from saved files' : 'Save this file'}
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  <Star className={`h-4 w-4 ${student.isFileStarred(file.id) ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                </Button>
+                <Button
+                  onClick={() => setFeedbackFile(file)}
+                  variant="outline"
+                  size="sm"
+                  title="Ratings, comments and problem reports"
+                  className="flex items-center gap-1 hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  <MessageSquare className="h-4 w-4" />
+                  {ratings[file.id]?.comments ? ratings[file.id].comments : null}
+                </Button>
+                <Button
+                  onClick={() => copyFileLink(file)}
+                  variant="outline"
+                  size="sm"
+                  title="Copy link to this file"
+                  className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                >
+                  {copiedFileId === file.id ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+                </Button>
+                {!file.url && previewKind(file) && (
+                  <Button
+                    onClick={() => showPreview(file, { department: selectedDepartment, semester: selectedSemester, subject: selectedSubject, ...placement })}
+                    variant="outline"
+                    size="sm"
+                    className={`flex items-center gap-2 hover-scale border-primary/30 hover:border-primary hover:bg-primary/10 ${
+                      previewFile?.file.id === file.id ? 'bg-primary/10 border-primary' : ''
+                    }`}
+                  >
+                    <Eye className="h-4 w-4" />
+                    Preview
+                  </Button>
+                )}
+                {file.url ? (
+                  <Button
+                    asChild
+                    size="sm"
+                    className="flex items-center gap-2 bg-primary hover:bg-primary/90 hover-scale transition-all duration-200"
+                  >
+                    <a
+                      href={file.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={() => visitLink(file, { department: selectedDepartment, semester: selectedSemester, subject: selectedSubject, ...placement })}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      Open
+                    </a>
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => openFile(file, { department: selectedDepartment, semester: selectedSemester, subject: selectedSubject, ...placement })}
+                    size="sm"
+                    className="flex items-center gap-2 bg-primary hover:bg-primary/90 hover-scale transition-all duration-200"
+                  >
+                    <Download className="h-4 w-4" />
+                    Download
+                  </Button>
+                )}
               </div>
+            </motion.div>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  // Papers with filters for the metadata they carry and a sort order
+  const renderPaperList = (files: FileRecord[], emptyMessage: string, contentType: PaperType) => {
+    const filters = paperFilters[contentType];
+    const setFilter = (field: keyof PaperFilters) => (value: string) =>
+      setPaperFilters((current) => ({ ...current, [contentType]: { ...current[contentType], [field]: value } }));
+
+    const options: Array<{ field: keyof PaperFilters; label: string; values: string[]; format: (value: string) => string }> = [
+      { field: 'examYear', label: 'All years', values: valuesOf(files, (file) => file.metadata?.examYear), format: (value) => value },
+      ...(contentType === 'previousYearPaper'
+        ? [{ field: 'session' as const, label: 'All sessions', values: valuesOf(files, (file) => file.metadata?.session), format: (value: string) => EXAM_SESSION_LABELS[value as ExamSession] ?? value }]
+        : [{ field: 'iaNumber' as const, label: 'All IAs', values: valuesOf(files, (file) => file.metadata?.iaNumber), format: (value: string) => `IA${value}` }]),
+      { field: 'scheme', label: 'All schemes', values: valuesOf(files, (file) => file.metadata?.scheme), format: (value) => `${value} scheme` },
+      { field: 'paperCode', label: 'All paper codes', values: valuesOf(files, (file) => file.metadata?.paperCode), format: (value) => value },
+    ];
+    const filtered = filterPapers(files, filters);
+    const filtering = JSON.stringify(filters) !== JSON.stringify(NO_FILTERS);
+
+    return (
+      <div className="space-y-4">
+        {files.some((file) => file.metadata) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {options.filter(({ values }) => values.length > 0).map(({ field, label, values, format }) => (
+              <Select key={field} value={filters[field]} onValueChange={setFilter(field)}>
+                <SelectTrigger className="w-40 bg-input/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL}>{label}</SelectItem>
+                  {values.map((value) => (
+                    <SelectItem key={value} value={value}>{format(value)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+            <Select value={filters.sort} onValueChange={setFilter('sort')}>
+              <SelectTrigger className="w-44 bg-input/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {filtering && (
+              <Button variant="ghost" size="sm" onClick={() => setPaperFilters((current) => ({ ...current, [contentType]: NO_FILTERS }))}>
+                Clear
+              </Button>
+            )}
+          </div>
+        )}
+        {renderFileList(filtered, files.length > 0 ? 'No papers match these filters.' : emptyMessage, { contentType }, filtering)}
+      </div>
+    );
+  };
+
+  // A category filed by module lists every module of the subject
+  const renderModules = (content: SubjectContent, category: Category) => {
+    const modules = Array.from({ length: moduleCount }, (_, i) => i + 1);
+    const total = modules.reduce((sum, module) => sum + categoryFiles(content, category.id, module).length, 0);
+    return (
+      <div className="space-y-6">
+        {total > 1 && (
+          <div className="flex justify-end">{renderDownloadAll({ contentType: category.id }, `Download all ${category.label}`)}</div>
+        )}
+        {modules.map((module) => {
+          const files = categoryFiles(content, category.id, module);
+          return (
+            <div key={module} id={`${category.id}-module${module}`}>
+              <h3 className="font-medium mb-3 text-foreground border-b border-border pb-2 flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => go({ tab: categoryTab(category.id), module })}
+                  className={`hover:text-primary transition-colors ${activeCategory === category.id && activeModule === module ? 'text-primary' : ''}`}
+                >
+                  Module {module}
+                </button>
+                {files.length > 1 && renderDownloadAll({ contentType: category.id, module }, `Download all ${files.length}`)}
+              </h3>
+              {renderFileList(files, `No ${category.label} available for Module ${module} yet.`, { contentType: category.id, module })}
             </div>
-            <Button
-              onClick={() => downloadFile(file.path, file.name)}
-              size="sm"
-              className="flex items-center gap-2 bg-primary hover:bg-primary/90 hover-scale transition-all duration-200"
-            >
-              <Download className="h-4 w-4" />
-              Download
-            </Button>
-          </motion.div>
-        ))
-      )}
-    </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const fileTabs = contentStructure && categories.length > 0 && (
+    <Tabs value={activeCategory} onValueChange={(id) => go({ tab: categoryTab(id), module: undefined })} className="w-full">
+      <TabsList className="flex flex-wrap h-auto w-full bg-card/50 border border-border">
+        {categories.map((category) => (
+          <TabsTrigger
+            key={category.id}
+            value={category.id}
+            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+          >
+            {category.label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {categories.map((category) => (
+        <TabsContent key={category.id} value={category.id} className="mt-6">
+          {category.modular
+            ? renderModules(contentStructure, category)
+            : isPaperType(category.id)
+              ? renderPaperList(categoryFiles(contentStructure, category.id), `No ${category.label} available yet.`, category.id)
+              : renderFileList(categoryFiles(contentStructure, category.id), `No ${category.label} available yet.`, { contentType: category.id })}
+        </TabsContent>
+      ))}
+    </Tabs>
   );
 
   return (
@@ -208,7 +612,52 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
               initial={{ x: 50, opacity: 0 }}
               animate={{ x: 0, opacity: 1 }}
               transition={{ duration: 0.6, delay: 0.4 }}
+              className="flex items-center gap-3"
             >
+              <CommandPalette
+                catalog={catalog}
+                recent={recent}
+                onSelectSubject={selectSubject}
+                onSelectFile={({ file }) => {
+                  navigate({ page: 'student', fileId: file.id });
+                  downloadFile(file, undefined, true);
+                }}
+              />
+              {student.token ? (
+                <>
+                  <Button
+                    onClick={() => setAccountDialog('contribute')}
+                    variant="outline"
+                    size="sm"
+                    className="hover-lift border-primary/50 hover:border-primary hover:bg-primary/10 transition-all duration-300"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Contribute
+                  </Button>
+                  <Button
+                    onClick={() => setAccountDialog('profile')}
+                    variant="outline"
+                    size="sm"
+                    className="hover-lift border-primary/50 hover:border-primary hover:bg-primary/10 transition-all duration-300"
+                  >
+                    <UserCircle className="h-4 w-4 mr-2" />
+                    {student.profile?.usn || student.email}
+                  </Button>
+                  <Button onClick={student.signOut} variant="ghost" size="sm" title="Sign out">
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={() => setAccountDialog('sign-in')}
+                  variant="outline"
+                  size="sm"
+                  className="hover-lift border-primary/50 hover:border-primary hover:bg-primary/10 transition-all duration-300"
+                >
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Student Sign In
+                </Button>
+              )}
               <Button 
                 onClick={onAdminClick} 
                 variant="outline" 
@@ -245,7 +694,7 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
                     <SelectValue placeholder="Select department" />
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border">
-                    {departments.map((dept) => (
+                    {catalog.departments.map((dept) => (
                       <SelectItem key={dept} value={dept} className="hover:bg-primary/10">{dept}</SelectItem>
                     ))}
                   </SelectContent>
@@ -273,7 +722,7 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
                     <SelectValue placeholder="Select semester" />
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border">
-                    {semesters.map((sem) => (
+                    {catalog.semesters.map((sem) => (
                       <SelectItem key={sem} value={sem.toString()} className="hover:bg-primary/10">Semester {sem}</SelectItem>
                     ))}
                   </SelectContent>
@@ -311,6 +760,21 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
           </motion.div>
         </div>
 
+        {/* Search */}
+        <motion.div
+          initial={{ y: 50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.4 }}
+        >
+          <FileSearch
+            department={selectedDepartment || undefined}
+            semester={selectedSemester || undefined}
+            categories={catalog.categories}
+            onDownload={openFile}
+            onPreview={(file) => navigate({ page: 'student', fileId: file.id })}
+          />
+        </motion.div>
+
         {/* Current Selection Display */}
         {(selectedDepartment || selectedSemester || selectedSubject) && (
           <motion.div
@@ -364,6 +828,23 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
           </motion.div>
         )}
 
+        {bookmarkError && <p className="text-sm text-destructive mb-4">{bookmarkError}</p>}
+
+        {/* My Subjects */}
+        {student.token && !selectedSubject && !student.loading && (
+          <MySubjects
+            catalog={catalog}
+            profile={student.profile}
+            bookmarks={student.bookmarks}
+            isSubjectStarred={student.isSubjectStarred}
+            onToggleSubject={(department, semester, subject) => toggleBookmark(() => student.toggleSubject(department, semester, subject))}
+            onToggleFile={(fileId) => toggleBookmark(() => student.toggleFile(fileId))}
+            onSelectSubject={selectSubject}
+            onOpenFile={openFile}
+            onEditProfile={() => setAccountDialog('profile')}
+          />
+        )}
+
         {/* Content Display */}
         {loading && (
           <motion.div
@@ -392,58 +873,47 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
                   <CardTitle className="text-xl flex items-center gap-2">
                     <BookOpen className="h-6 w-6" />
                     Study Materials for {selectedSubject}
+                    <Button
+                      onClick={() => toggleBookmark(() => student.toggleSubject(selectedDepartment, selectedSemester, selectedSubject))}
+                      variant="ghost"
+                      size="sm"
+                      title={student.isSubjectStarred(selectedDepartment, selectedSemester, selectedSubject) ? 'Remove from starred subjects' : 'Star this subject'}
+                      className="text-white hover:bg-white/20"
+                    >
+                      <Star className={`h-5 w-5 ${student.isSubjectStarred(selectedDepartment, selectedSemester, selectedSubject) ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                    </Button>
                   </CardTitle>
                   <CardDescription className="text-blue-100">
                     {selectedDepartment} - Semester {selectedSemester}
                   </CardDescription>
                 </div>
+                <div className="relative z-10 mt-2">
+                  {renderDownloadAll({}, 'Download entire subject', 'bg-white/10 text-white border-white/30 hover:bg-white/20')}
+                </div>
               </CardHeader>
               <CardContent className="p-6">
-                <Tabs defaultValue="previous-year" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3 bg-card/50 border border-border">
-                    <TabsTrigger value="previous-year" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      Previous Year Papers
-                    </TabsTrigger>
-                    <TabsTrigger value="ia" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      IA Papers
-                    </TabsTrigger>
-                    <TabsTrigger value="notes" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-                      Notes
-                    </TabsTrigger>
-                  </TabsList>
-
-                  <TabsContent value="previous-year" className="mt-6">
-                    {renderFileList(contentStructure.previousYearPapers, 'No previous year papers available yet.')}
-                  </TabsContent>
-
-                  <TabsContent value="ia" className="mt-6">
-                    {renderFileList(contentStructure.iaPapers, 'No IA papers available yet.')}
-                  </TabsContent>
-
-                  <TabsContent value="notes" className="mt-6">
-                    <div className="space-y-6">
-                      {Object.keys(contentStructure.notes).length === 0 ? (
-                        <motion.div 
-                          initial={{ opacity: 0 }}
-                          animate={{ opacity: 1 }}
-                          className="text-center py-8"
-                        >
-                          <FileText className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
-                          <p className="text-muted-foreground">No notes available yet.</p>
-                        </motion.div>
-                      ) : (
-                        Object.entries(contentStructure.notes).map(([module, files]) => (
-                          <div key={module}>
-                            <h3 className="font-medium mb-3 text-foreground capitalize border-b border-border pb-2">
-                              {module.replace('module', 'Module ')}
-                            </h3>
-                            {renderFileList(files, `No notes available for ${module.replace('module', 'Module ')} yet.`)}
-                          </div>
-                        ))
-                      )}
-                    </div>
-                  </TabsContent>
-                </Tabs>
+                {bundleError && <p className="text-sm text-destructive mb-4">{bundleError}</p>}
+                {previewFile ? (
+                  <ResizablePanelGroup
+                    direction={isMobile ? 'vertical' : 'horizontal'}
+                    className="min-h-[75vh] rounded-lg border border-border"
+                  >
+                    <ResizablePanel defaultSize={45} minSize={25} className="!overflow-auto p-4">
+                      {fileTabs}
+                    </ResizablePanel>
+                    <ResizableHandle withHandle />
+                    <ResizablePanel defaultSize={55} minSize={30}>
+                      <FilePreview
+                        file={previewFile.file}
+                        recordView
+                        onDownload={() => openFile(previewFile.file, previewFile.location)}
+                        onClose={() => setPreviewFile(null)}
+                      />
+                    </ResizablePanel>
+                  </ResizablePanelGroup>
+                ) : (
+                  fileTabs
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -571,6 +1041,42 @@ export function StudentPortal({ onAdminClick }: StudentPortalProps) {
           </Card>
         </motion.div>
       </div>
+
+      <FileFeedbackDialog
+        file={feedbackFile}
+        token={student.token}
+        onClose={() => setFeedbackFile(null)}
+        onSignIn={() => {
+          setFeedbackFile(null);
+          setAccountDialog('sign-in');
+        }}
+        onChanged={(fileId, summary) => setRatings((current) => ({ ...current, [fileId]: summary }))}
+      />
+      <StudentSignInDialog open={accountDialog === 'sign-in'} catalog={catalog} onClose={() => setAccountDialog(null)} />
+      {student.token && (
+        <StudentProfileDialog
+          open={accountDialog === 'profile'}
+          token={student.token}
+          catalog={catalog}
+          profile={student.profile}
+          onClose={() => setAccountDialog(null)}
+          onSaved={student.setProfile}
+        />
+      )}
+      {student.token && (
+        <ContributeDialog
+          open={accountDialog === 'contribute'}
+          token={student.token}
+          catalog={catalog}
+          initial={{
+            department: selectedDepartment,
+            semester: selectedSemester,
+            subject: selectedSubject,
+            contentType: activeCategory,
+          }}
+          onClose={() => setAccountDialog(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { FileLocation, FileRecord } from '../utils/files';
+import { Category, placementLabel } from '../utils/catalog';
+
+interface TrashedFile {
+  file: FileRecord;
+  location: FileLocation;
+  deletedAt: string;
+  deletedBy: string;
+  purgeAt: string;
+}
+
+interface TrashBinProps {
+  token: string;
+  categories: Category[];
+  onMessage: (message: string) => void;
+  // Called after a file is put back, so open file lists can refresh
+  onRestore: (location: FileLocation) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const locationLabel = (categories: Category[], location: FileLocation) =>
+  `${location.department} Sem ${location.semester} ${location.subject} · ${placementLabel(categories, location)}`;
+
+export function TrashBin({ token, categories, onMessage, onRestore }: TrashBinProps) {
+  const [entries, setEntries] = useState<TrashedFile[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/trash`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        }
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries);
+        setRetentionDays(data.retentionDays);
+      } else {
+        console.error('Failed to fetch trash:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, [token]);
+
+  const act = async (entry: TrashedFile, method: 'POST' | 'DELETE', path: string, failure: string) => {
+    setBusyId(entry.file.id);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/trash/${entry.file.id}${path}`,
+        {
+          method,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        onMessage(data.message);
+        setEntries((current) => current.filter((other) => other.file.id !== entry.file.id));
+        return true;
+      }
+      onMessage(`${failure}: ${data.error || 'Unknown error'}`);
+    } catch (error) {
+      onMessage(`${failure}: ${error}`);
+    } finally {
+      setBusyId(null);
+    }
+    return false;
+  };
+
+  const restore = async (entry: TrashedFile) => {
+    if (await act(entry, 'POST', '/restore', 'Restore failed')) {
+      onRestore(entry.location);
+    }
+  };
+
+  const purge = (entry: TrashedFile) => act(entry, 'DELETE', '', 'Delete failed');
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="mt-6"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Trash2 className="h-5 w-5 text-primary" />
+            Trash
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Deleted files can be restored until they are purged
+            {retentionDays !== null && `, ${retentionDays} days after deletion`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Purged in</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    {loading ? 'Loading trash...' : 'The trash is empty'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {entries.map((entry) => (
+                <TableRow key={entry.file.id}>
+                  <TableCell className="max-w-xs truncate font-medium" title={entry.file.name}>{entry.file.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{locationLabel(categories, entry.location)}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {new Date(entry.deletedAt).toLocaleString()}
+                    <span className="block text-xs">{entry.deletedBy}</span>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {Math.max(0, Math.ceil((new Date(entry.purgeAt).getTime() - Date.now()) / DAY_MS))} days
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restore(entry)}
+                        disabled={busyId === entry.file.id}
+                        className="hover-scale border-primary/30 hover:border-primary hover:bg-primary/10"
+                      >
+                        <ArchiveRestore className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyId === entry.file.id}
+                            title="Delete forever"
+                            className="hover-scale border-destructive/30 hover:border-destructive hover:bg-destructive/10 text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-card border-border">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {entry.file.name} forever?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The file and all of its versions are removed from storage. This can't be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => purge(entry)} className="bg-destructive hover:bg-destructive/90">
+                              Delete forever
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { FileArchive, Search, Upload } from 'lucide-react';
+import { projectId } from '../utils/supabase/info';
+import { FileLocation } from '../utils/files';
+import { Category, placementLabel } from '../utils/catalog';
+
+type ImportStatus = 'create' | 'duplicate' | 'invalid';
+type ImportResult = 'created' | 'duplicate' | 'failed';
+
+interface ImportItem {
+  path: string;
+  name: string;
+  size: number;
+  location?: FileLocation;
+  status: ImportStatus;
+  reason?: string;
+  result?: ImportResult;
+}
+
+interface ImportPlan {
+  items: ImportItem[];
+  newSubjects: Array<{ department: string; semester: string; subject: string }>;
+  summary: Record<ImportStatus, number>;
+}
+
+interface ImportReport extends Omit<ImportPlan, 'summary'> {
+  summary: Record<ImportResult, number>;
+}
+
+interface ZipImportProps {
+  token: string;
+  categories: Category[];
+  onMessage: (message: string) => void;
+  // Called after files were imported, so the catalog and file lists can refresh
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus | ImportResult, string> = {
+  create: 'border-primary/30 text-primary',
+  created: 'border-green-500/30 text-green-400',
+  duplicate: 'border-yellow-500/30 text-yellow-400',
+  invalid: 'border-destructive/30 text-destructive',
+  failed: 'border-destructive/30 text-destructive',
+};
+
+const destination = (categories: Category[], location: FileLocation) =>
+  `${location.department} Sem ${location.semester} ${location.subject} · ${placementLabel(categories, location)}`;
+
+// Preview and import a ZIP archive of files laid out by department, semester and subject
+export function ZipImport({ token, categories, onMessage, onImported }: ZipImportProps) {
+  const [archive, setArchive] = useState<File | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [working, setWorking] = useState<'preview' | 'import' | null>(null);
+
+  const send = async (dryRun: boolean) => {
+    if (!archive) return null;
+    const formData = new FormData();
+    formData.append('archive', archive);
+    formData.append('dryRun', String(dryRun));
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/import`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      }
+    );
+    return { ok: response.ok, data: await response.json() };
+  };
+
+  const preview = async () => {
+    setWorking('preview');
+    setReport(null);
+    try {
+      const result = await send(true);
+      if (!result) return;
+      if (result.ok) {
+        setPlan(result.data.plan);
+      } else {
+        setPlan(null);
+        onMessage(`Preview failed: ${result.data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Preview error: ${error}`);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const runImport = async () => {
+    setWorking('import');
+    try {
+      const result = await send(false);
+      if (!result) return;
+      if (result.ok) {
+        setReport(result.data.report);
+        setPlan(null);
+        onMessage(result.data.message);
+        onImported();
+      } else {
+        if (result.data.plan) setPlan(result.data.plan);
+        onMessage(`Import failed: ${result.data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      onMessage(`Import error: ${error}`);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const shown = report ?? plan;
+
+  return (
+    <motion.div
+      initial={{ y: 100, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+      className="mt-8"
+    >
+      <Card className="glass-morphism border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <FileArchive className="h-5 w-5 text-primary" />
+            Import Archive
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Import a ZIP laid out like <span className="font-mono">CSE/5/Data Structures/notes/module3/file.pdf</span>.
+            Category folders can use the category name or id, e.g. notes or Lab Manuals. Missing subjects are created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="file"
+              accept=".zip"
+              onChange={(e) => {
+                setArchive(e.target.files?.[0] ?? null);
+                setPlan(null);
+                setReport(null);
+              }}
+              className="max-w-sm bg-input/50 border-border"
+            />
+            <Button variant="outline" onClick={preview} disabled={!archive || working !== null}>
+              <Search className="h-4 w-4 mr-2" />
+              {working === 'preview' ? 'Checking...' : 'Preview'}
+            </Button>
+            {plan && (
+              <Button
+                onClick={runImport}
+                disabled={working !== null || plan.summary.invalid > 0 || plan.summary.create === 0}
+                className="bg-primary hover:bg-primary/90 hover-scale"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {working === 'import' ? 'Importing...' : `Import ${plan.summary.create} files`}
+              </Button>
+            )}
+          </div>
+
+          {shown && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(shown.summary).map(([status, count]) => (
+                  <Badge key={status} variant="outline" className={STATUS_STYLES[status as ImportStatus | ImportResult]}>
+                    {count} {status}
+                  </Badge>
+                ))}
+              </div>
+              {plan && plan.summary.invalid > 0 && (
+                <p className="text-sm text-destructive">Fix the invalid files in the archive and preview it again before importing.</p>
+              )}
+              {shown.newSubjects.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {report ? 'Created' : 'Will create'} subjects:{' '}
+                  {shown.newSubjects.map(({ department, semester, subject }) => `${department} Sem ${semester} ${subject}`).join(', ')}
+                </p>
+              )}
+              <div className="max-h-96 overflow-auto rounded-lg border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File</TableHead>
+                      <TableHead>Destination</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shown.items.map((item) => {
+                      const status = item.result ?? item.status;
+                      return (
+                        <TableRow key={item.path}>
+                          <TableCell className="max-w-xs truncate font-mono text-xs" title={item.path}>{item.path}</TableCell>
+                          <TableCell className="text-muted-foreground">{item.location ? destination(categories, item.location) : '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={STATUS_STYLES[status]}>{status}</Badge>
+                            {item.reason && <span className="block text-xs text-muted-foreground mt-1">{item.reason}</span>}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,201 @@
+// Roles and permissions for signed-in users. Role records live in the KV
+// store under `role_${userId}`; users without one are students.
+import * as kv from "./kv_store.tsx";
+import { supabase } from "./storage.tsx";
+
+export const ROLES = ['super-admin', 'department-admin', 'moderator', 'student'] as const;
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'catalog:structure' // departments and semesters
+  | 'catalog:subjects'
+  | 'files:upload'
+  | 'files:moderate' // move and delete
+  | 'roles:manage'
+  | 'search:reindex'
+  | 'audit:view'
+  | 'insights:view';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  'super-admin': ['catalog:structure', 'catalog:subjects', 'files:upload', 'files:moderate', 'roles:manage', 'search:reindex', 'audit:view', 'insights:view'],
+  'department-admin': ['catalog:subjects', 'files:upload', 'files:moderate', 'audit:view', 'insights:view'],
+  'moderator': ['files:moderate'],
+  'student': [],
+};
+
+// Only department admins are limited to specific departments
+const SCOPED_ROLES: Role[] = ['department-admin'];
+
+export interface RoleRecord {
+  userId: string;
+  email: string;
+  role: Role;
+  departments: string[];
+  updatedAt: string;
+}
+
+export interface Access extends RoleRecord {
+  permissions: Permission[];
+  // null when every department may be managed
+  scope: string[] | null;
+}
+
+// Raised when a user may not perform an action; carries the HTTP status.
+export class AccessError extends Error {
+  constructor(message: string, public status: 401 | 403 | 400 | 404 | 409 = 403) {
+    super(message);
+  }
+}
+
+export const roleKey = (userId: string) => `role_${userId}`;
+
+// Staff addresses from the environment: the first admin (ADMIN_EMAIL) and any
+// others (SUPER_ADMIN_EMAILS, comma separated). They can't be used for student
+// sign-ups. Roles are never granted by email alone, only by a `role_` record
+// written by the bootstrap, an accepted invite or a super-admin.
+export const superAdminEmails = () => [
+  Deno.env.get('ADMIN_EMAIL') ?? '',
+  ...(Deno.env.get('SUPER_ADMIN_EMAILS') ?? '').split(','),
+].map((email) => email.trim().toLowerCase()).filter(Boolean);
+
+function toAccess(record: RoleRecord): Access {
+  return {
+    ...record,
+    permissions: ROLE_PERMISSIONS[record.role],
+    scope: SCOPED_ROLES.includes(record.role) ? record.departments : null,
+  };
+}
+
+export async function loadAccess(user: { id: string; email?: string }): Promise<Access> {
+  const stored: RoleRecord | undefined = await kv.get(roleKey(user.id));
+  if (stored) {
+    return toAccess(stored);
+  }
+  return toAccess({ userId: user.id, email: user.email?.toLowerCase() ?? '', role: 'student', departments: [], updatedAt: '' });
+}
+
+export const hasPermission = (access: Access, permission: Permission) => access.permissions.includes(permission);
+
+export const canManageDepartment = (access: Access, department: string) =>
+  access.scope === null || access.scope.includes(department);
+
+// Throw unless the user holds `permission` for every listed department
+export function assertAllowed(access: Access, permission: Permission, ...departments: string[]) {
+  if (!hasPermission(access, permission)) {
+    throw new AccessError('You do not have permission to do this');
+  }
+  const outside = departments.find((department) => department && !canManageDepartment(access, department));
+  if (outside) {
+    throw new AccessError(`You cannot manage the ${outside} department`);
+  }
+}
+
+export async function saveRole(userId: string, email: string, role: Role, departments: string[]): Promise<RoleRecord> {
+  const record: RoleRecord = {
+    userId,
+    email,
+    role,
+    departments: SCOPED_ROLES.includes(role) ? [...new Set(departments)] : [],
+    updatedAt: new Date().toISOString(),
+  };
+  await kv.set(roleKey(userId), record);
+  return record;
+}
+
+export async function listRoles(): Promise<RoleRecord[]> {
+  const records: RoleRecord[] = await kv.getByPrefix('role_');
+  return records.sort((a, b) => ROLES.indexOf(a.role) - ROLES.indexOf(b.role) || a.email.localeCompare(b.email));
+}
+
+export function parseRole(role: unknown, departments: unknown, knownDepartments: string[]): { role: Role; departments: string[] } {
+  if (!ROLES.includes(role as Role)) {
+    throw new AccessError(`Role must be one of ${ROLES.join(', ')}`, 400);
+  }
+  const list = Array.isArray(departments) ? departments.map(String) : [];
+  if (SCOPED_ROLES.includes(role as Role)) {
+    if (list.length === 0) {
+      throw new AccessError('Choose at least one department', 400);
+    }
+    const unknown = list.find((department) => !knownDepartments.includes(department));
+    if (unknown) {
+      throw new AccessError(`Unknown department ${unknown}`, 400);
+    }
+  }
+  return { role: role as Role, departments: list };
+}
+
+async function assertNotLastSuperAdmin(userId: string) {
+  const superAdmins = (await listRoles()).filter((record) => record.role === 'super-admin');
+  if (superAdmins.length === 1 && superAdmins[0].userId === userId) {
+    throw new AccessError('At least one super-admin is required', 409);
+  }
+}
+
+// Change an existing user's role. Demoted users keep a 'student' record.
+export async function setRole(userId: string, fields: { role?: unknown; departments?: unknown }, knownDepartments: string[]): Promise<RoleRecord> {
+  const { role, departments } = parseRole(fields.role, fields.departments, knownDepartments);
+
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error || !data.user) {
+    throw new AccessError('User not found', 404);
+  }
+
+  const current: RoleRecord | undefined = await kv.get(roleKey(userId));
+  if (current?.role === 'super-admin' && role !== 'super-admin') {
+    await assertNotLastSuperAdmin(userId);
+  }
+
+  return saveRole(userId, data.user.email?.toLowerCase() ?? '', role, departments);
+}
+
+const BOOTSTRAP_KEY = 'admin_bootstrap';
+
+// Create the first super-admin from ADMIN_EMAIL and ADMIN_PASSWORD. Runs on
+// startup but only ever once; later admins are invited.
+export async function bootstrapAdmin(): Promise<void> {
+  if (await kv.get(BOOTSTRAP_KEY)) return;
+
+  if ((await listRoles()).some((record) => record.role === 'super-admin')) {
+    await kv.set(BOOTSTRAP_KEY, { at: new Date().toISOString(), existing: true });
+    return;
+  }
+
+  const email = Deno.env.get('ADMIN_EMAIL')?.trim().toLowerCase();
+  const password = Deno.env.get('ADMIN_PASSWORD');
+  if (!email || !password) {
+    console.log('ADMIN_EMAIL and ADMIN_PASSWORD are not set; skipping admin bootstrap');
+    return;
+  }
+
+  const { data, error } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    user_metadata: { name: Deno.env.get('ADMIN_NAME') ?? '' },
+    // Automatically confirm the user's email since an email server hasn't been configured.
+    email_confirm: true,
+  });
+  if (error) {
+    // Whoever created that account may not be the operator, so it isn't promoted
+    if (error.message?.includes('email_exists') || error.message?.includes('already been registered')) {
+      console.error(`Admin bootstrap skipped: ${email} already has an account. Remove it, or grant its role from an existing super-admin.`);
+    } else {
+      console.error('Admin bootstrap error:', error);
+    }
+    return;
+  }
+  await saveRole(data.user.id, email, 'super-admin', []);
+  await kv.set(BOOTSTRAP_KEY, { at: new Date().toISOString(), email, userId: data.user.id });
+}
+
+// Keep department admins' scopes in step with a renamed (or deleted, when
+// `to` is null) department
+export async function replaceDepartmentInScopes(from: string, to: string | null): Promise<void> {
+  const affected = (await listRoles()).filter((record) => record.departments.includes(from));
+  if (affected.length === 0) return;
+
+  const updated = affected.map((record) => ({
+    ...record,
+    departments: to === null ? record.departments.filter((d) => d !== from) : record.departments.map((d) => (d === from ? to : d)),
+  }));
+  await kv.mset(updated.map((record) => roleKey(record.userId)), updated);
+}
@@ -0,0 +1,241 @@
+// Download and view counts. Each event is written to its own
+// `event_${YYYY-MM-DD}_${id}` key, so concurrent downloads never overwrite
+// each other's counts. When insights are read, past days' events are rolled
+// up under `usage_${YYYY-MM-DD}`: per-file, per-subject and per-department
+// counts, so reports read one key per day instead of one per event.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { FileLocation, SubjectRef, SubjectRename, contentKey, withContentLock } from "./content.tsx";
+import { allLocations } from "./file_index.tsx";
+import { findFile } from "./files.tsx";
+import { sha256Hex } from "./uploads.tsx";
+
+export type UsageEvent = 'download' | 'view';
+
+export const USAGE_EVENTS: UsageEvent[] = ['download', 'view'];
+
+export interface Counts {
+  downloads: number;
+  views: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  files: Record<string, Counts & { department: string }>;
+  // Keyed by the subject's content key
+  subjects: Record<string, Counts & SubjectRef>;
+  departments: Record<string, Counts>;
+}
+
+// One recorded event. Its id hashes the file, the event and the client, so a
+// client repeating a download on the same day overwrites its earlier event
+// instead of inflating the counts.
+interface UsageRecord extends SubjectRef {
+  id: string;
+  date: string;
+  fileId: string;
+  event: UsageEvent;
+}
+
+export interface Insights {
+  days: number;
+  totals: Counts;
+  // One point per day, oldest first, including days without events
+  trend: Array<Counts & { date: string }>;
+  topFiles: Array<Counts & { fileId: string; name: string; location: FileLocation | null }>;
+  topSubjects: Array<Counts & SubjectRef>;
+  departments: Array<Counts & { department: string }>;
+  // Subjects offered to students that have no files yet
+  emptySubjects: SubjectRef[];
+}
+
+export const MAX_DAYS = 365;
+const TOP_COUNT = 10;
+
+// Events deleted per KV request
+const EVENT_BATCH = 100;
+
+const usageKey = (date: string) => `usage_${date}`;
+const eventKey = (record: Pick<UsageRecord, 'date' | 'id'>) => `event_${record.date}_${record.id}`;
+const today = () => new Date().toISOString().slice(0, 10);
+const emptyUsage = (date: string): DailyUsage => ({ date, files: {}, subjects: {}, departments: {} });
+
+const field = (event: UsageEvent): keyof Counts => (event === 'download' ? 'downloads' : 'views');
+const total = (counts: Counts) => counts.downloads + counts.views;
+const zero = (): Counts => ({ downloads: 0, views: 0 });
+
+function add(into: Counts, counts: Counts) {
+  into.downloads += counts.downloads;
+  into.views += counts.views;
+}
+
+function count(usage: DailyUsage, { fileId, event, department, semester, subject }: UsageRecord) {
+  const counts = [
+    usage.files[fileId] ??= { ...zero(), department },
+    usage.subjects[contentKey(department, semester, subject)] ??= { ...zero(), department, semester, subject },
+    usage.departments[department] ??= zero(),
+  ];
+  counts.forEach((entry) => entry[field(event)]++);
+}
+
+// Count a download or preview of a file by `client` (its address, or null
+// when unknown). Failures are logged rather than thrown, so counting never
+// gets in the way of the download itself.
+export async function recordEvent(fileId: string, location: SubjectRef, event: UsageEvent, client: string | null): Promise<void> {
+  try {
+    const { department, semester, subject } = location;
+    const id = await sha256Hex(new TextEncoder().encode(`${fileId}:${event}:${client ?? ''}`).buffer as ArrayBuffer);
+    const record: UsageRecord = { id, date: today(), fileId, event, department, semester, subject };
+    await kv.set(eventKey(record), record);
+  } catch (error) {
+    console.error(`Failed to record ${event} of ${fileId}:`, error);
+  }
+}
+
+async function deleteEvents(records: UsageRecord[]) {
+  for (let i = 0; i < records.length; i += EVENT_BATCH) {
+    await kv.mdel(records.slice(i, i + EVENT_BATCH).map(eventKey));
+  }
+}
+
+// Fold the events of past days into their daily records and delete them.
+// Returns today's events, which are counted as they are until the day is over.
+async function rollUpEvents(): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = await kv.getByPrefix('event_');
+  const date = today();
+  const byDate = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    if (record.date === date) continue;
+    if (!byDate.has(record.date)) byDate.set(record.date, []);
+    byDate.get(record.date)!.push(record);
+  }
+
+  for (const [day, events] of byDate) {
+    const key = usageKey(day);
+    await withContentLock(key, async () => {
+      const usage: DailyUsage = (await kv.get(key)) ?? emptyUsage(day);
+      events.forEach((record) => count(usage, record));
+      await kv.set(key, usage);
+      await deleteEvents(events);
+    });
+  }
+  return records.filter((record) => record.date === date);
+}
+
+// Count past usage, and events not rolled up yet, under a subject's new name
+// after a catalog rename. A renamed department's counts move along with its subjects.
+export async function relocateSubjects(rename: SubjectRename): Promise<void> {
+  const events: UsageRecord[] = await kv.getByPrefix('event_');
+  const movedEvents = events.flatMap((record) => {
+    const moved = rename(record);
+    return moved ? [{ ...record, ...moved }] : [];
+  });
+  for (let i = 0; i < movedEvents.length; i += EVENT_BATCH) {
+    const batch = movedEvents.slice(i, i + EVENT_BATCH);
+    await kv.mset(batch.map(eventKey), batch);
+  }
+
+  const days: DailyUsage[] = await kv.getByPrefix('usage_');
+  for (const { date } of days.filter((usage) => Object.values(usage.subjects).some(rename))) {
+    const key = usageKey(date);
+    await withContentLock(key, async () => {
+      const usage: DailyUsage | null = await kv.get(key);
+      if (!usage) return;
+      const departments = new Map<string, string>();
+      for (const [subjectKey, entry] of Object.entries(usage.subjects)) {
+        const moved = rename(entry);
+        if (!moved) continue;
+        delete usage.subjects[subjectKey];
+        const counts = usage.subjects[contentKey(moved.department, moved.semester, moved.subject)] ??= { ...zero(), ...moved };
+        add(counts, entry);
+        if (moved.department !== entry.department) departments.set(entry.department, moved.department);
+      }
+      for (const [from, to] of departments) {
+        const counts = usage.departments[from];
+        if (!counts) continue;
+        delete usage.departments[from];
+        add(usage.departments[to] ??= zero(), counts);
+      }
+      for (const entry of Object.values(usage.files)) {
+        entry.department = departments.get(entry.department) ?? entry.department;
+      }
+      await kv.set(key, usage);
+    });
+  }
+}
+
+// The last `days` days, ending today
+function dateRange(days: number): string[] {
+  const end = new Date(`${today()}T00:00:00Z`).getTime();
+  return Array.from({ length: days }, (_, i) => new Date(end - (days - 1 - i) * 86_400_000).toISOString().slice(0, 10));
+}
+
+const top = <T extends Counts>(entries: T[]) =>
+  entries.sort((a, b) => total(b) - total(a) || b.downloads - a.downloads).slice(0, TOP_COUNT);
+
+// Usage over the last `days` days. `scope` limits everything to those
+// departments (null for every department).
+export async function buildInsights(days: number, scope: string[] | null): Promise<Insights> {
+  const inScope = (department: string) => scope === null || scope.includes(department);
+  const dates = dateRange(days);
+  const todays = await rollUpEvents();
+  const stored: DailyUsage[] = await kv.mget(dates.map(usageKey));
+  const byDate = new Map(stored.map((usage) => [usage.date, usage]));
+  const todaysUsage = byDate.get(today()) ?? emptyUsage(today());
+  todays.forEach((record) => count(todaysUsage, record));
+  byDate.set(today(), todaysUsage);
+
+  const files = new Map<string, Counts>();
+  const subjects = new Map<string, Counts & SubjectRef>();
+  const departments = new Map<string, Counts>();
+  const totals = zero();
+
+  const trend = dates.map((date) => {
+    const point = { date, ...zero() };
+    const usage = byDate.get(date);
+    if (!usage) return point;
+
+    for (const [department, counts] of Object.entries(usage.departments)) {
+      if (!inScope(department)) continue;
+      add(point, counts);
+      if (!departments.has(department)) departments.set(department, zero());
+      add(departments.get(department)!, counts);
+    }
+    for (const [fileId, { department, ...counts }] of Object.entries(usage.files)) {
+      if (!inScope(department)) continue;
+      if (!files.has(fileId)) files.set(fileId, zero());
+      add(files.get(fileId)!, counts);
+    }
+    for (const [key, entry] of Object.entries(usage.subjects)) {
+      if (!inScope(entry.department)) continue;
+      if (!subjects.has(key)) subjects.set(key, { ...zero(), department: entry.department, semester: entry.semester, subject: entry.subject });
+      add(subjects.get(key)!, entry);
+    }
+    add(totals, point);
+    return point;
+  });
+
+  // Files deleted since are still listed, under their id
+  const topFiles = await Promise.all(top([...files].map(([fileId, counts]) => ({ fileId, ...counts }))).map(async (entry) => {
+    const found = await findFile(entry.fileId);
+    return { ...entry, name: found?.file.name ?? entry.fileId, location: found?.location ?? null };
+  }));
+
+  const current = catalog.publicCatalog(await catalog.loadCatalog());
+  const filled = new Set((await allLocations()).map(({ department, semester, subject }) => contentKey(department, semester, subject)));
+  const emptySubjects = current.departments.filter(inScope).flatMap((department) =>
+    current.semesters.flatMap((semester) =>
+      catalog.listSubjects(current, department, semester)
+        .filter((subject) => !filled.has(contentKey(department, semester, subject)))
+        .map((subject) => ({ department, semester: String(semester), subject }))));
+
+  return {
+    days,
+    totals,
+    trend,
+    topFiles,
+    topSubjects: top([...subjects.values()]),
+    departments: [...departments].map(([department, counts]) => ({ department, ...counts })).sort((a, b) => total(b) - total(a)),
+    emptySubjects,
+  };
+}
@@ -0,0 +1,116 @@
+// Append-only audit trail of administrative changes. Each entry is written
+// once under `audit_${timestamp}_${id}` and never updated or deleted. The ISO
+// timestamp makes every month a key prefix, so listing reads month by month.
+import * as kv from "./kv_store.tsx";
+
+export type AuditTargetType = 'file' | 'subject' | 'department' | 'semester' | 'category' | 'role' | 'invite' | 'account' | 'search' | 'contribution';
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  // File id, user id, invite id etc. where the target has one
+  id?: string;
+  label: string;
+  // Set for targets inside a department so department admins can see them
+  department?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: { userId: string | null; email: string };
+  // `${target type}.${verb}`, e.g. file.upload or subject.rename
+  action: string;
+  target: AuditTarget;
+  ip: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilters {
+  action?: string;
+  actor?: string;
+  department?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+const MAX_ENTRIES = 500;
+// Months read back when no start date is given, and at most otherwise
+const DEFAULT_MONTHS = 12;
+const MAX_MONTHS = 120;
+
+// `YYYY-MM` months from the filters' end (or now) back to their start, newest first
+function months(filters: AuditFilters): string[] {
+  const end = new Date(filters.to && !Number.isNaN(Date.parse(filters.to)) ? filters.to : Date.now());
+  const start = filters.from && !Number.isNaN(Date.parse(filters.from)) ? filters.from.slice(0, 7) : null;
+  const result: string[] = [];
+  for (let i = 0; i < (start ? MAX_MONTHS : DEFAULT_MONTHS); i++) {
+    const month = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - i, 1)).toISOString().slice(0, 7);
+    if (start && month < start) break;
+    result.push(month);
+  }
+  return result;
+}
+
+// Record a change. A failed write is logged rather than thrown, since the
+// change it describes has already been made.
+export async function record(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<void> {
+  const full: AuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...entry };
+  try {
+    await kv.set(`audit_${full.at}_${full.id}`, full);
+  } catch (error) {
+    console.error('Failed to write audit entry:', error, full);
+  }
+}
+
+// Entries matching the filters, newest first, reading one month at a time
+// until `limit` entries are found. `scope` limits the result to entries
+// inside those departments (null for everything).
+export async function listEntries(filters: AuditFilters, scope: string[] | null, limit: number | null = MAX_ENTRIES): Promise<AuditEntry[]> {
+  const q = filters.q?.trim().toLowerCase();
+  const actor = filters.actor?.trim().toLowerCase();
+  // Dates without a time cover the whole day
+  const to = filters.to && filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to;
+
+  const matches = (entry: AuditEntry) =>
+    (scope === null || (!!entry.target.department && scope.includes(entry.target.department)))
+    && (!filters.action || entry.action === filters.action || entry.action.startsWith(`${filters.action}.`))
+    && (!actor || entry.actor.email.toLowerCase().includes(actor))
+    && (!filters.department || entry.target.department === filters.department)
+    && (!filters.from || entry.at >= filters.from)
+    && (!to || entry.at <= to)
+    && (!q || `${entry.target.label} ${entry.target.id ?? ''} ${JSON.stringify(entry.before ?? '')} ${JSON.stringify(entry.after ?? '')}`.toLowerCase().includes(q));
+
+  const matching: AuditEntry[] = [];
+  for (const month of months(filters)) {
+    const entries: AuditEntry[] = await kv.getByPrefix(`audit_${month}`);
+    matching.push(...entries.filter(matches).sort((a, b) => b.at.localeCompare(a.at)));
+    if (limit !== null && matching.length >= limit) break;
+  }
+  return limit === null ? matching : matching.slice(0, limit);
+}
+
+// Cells spreadsheets would run as formulas are prefixed with a quote
+const csvCell = (value: unknown) => {
+  const raw = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(entries: AuditEntry[]): string {
+  const header = ['Time', 'Actor', 'Action', 'Target type', 'Target', 'Target id', 'Department', 'IP', 'Before', 'After'];
+  const rows = entries.map((entry) => [
+    entry.at,
+    entry.actor.email,
+    entry.action,
+    entry.target.type,
+    entry.target.label,
+    entry.target.id,
+    entry.target.department,
+    entry.ip,
+    entry.before,
+    entry.after,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
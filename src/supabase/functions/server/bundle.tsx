@@ -0,0 +1,141 @@
+// ZIP bundles of a subject, one content type or one module, streamed to the
+// client chunk by chunk as it reads them so large subjects never sit in memory.
+import { Zip, ZipPassThrough, strToU8 } from "npm:fflate";
+import { openObject } from "./storage.tsx";
+import { Category, ContentType, FileRecord, SubjectContent, placedFiles } from "./content.tsx";
+
+export interface BundleScope {
+  department: string;
+  semester: string;
+  subject: string;
+  contentType?: ContentType;
+  module?: number;
+  // Only these files, e.g. the papers left after the student's filters
+  fileIds?: string[];
+}
+
+// Characters that aren't allowed in file names on common systems
+const cleanName = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || 'file';
+
+// Each category's files go in a folder named after it
+const folderName = (categories: Category[], contentType: ContentType) =>
+  cleanName(categories.find((category) => category.id === contentType)?.label ?? contentType);
+
+// Bundle file name, e.g. "CSE Sem 5 Data Structures - Notes Module 3.zip"
+export function bundleName({ department, semester, subject, contentType, module }: BundleScope, categories: Category[]): string {
+  const part = contentType ? ` - ${folderName(categories, contentType)}${module ? ` Module ${module}` : ''}` : '';
+  return cleanName(`${department} Sem ${semester} ${subject}${part}.zip`);
+}
+
+// The files in scope, each with its path inside the bundle. Names that would
+// clash within a folder get a " (2)" style suffix. Links have nothing to download.
+export function bundleEntries(content: SubjectContent, scope: BundleScope, categories: Category[]): Array<{ file: FileRecord; entry: string }> {
+  const used = new Set<string>();
+  const picked = scope.fileIds && new Set(scope.fileIds);
+  return placedFiles(content)
+    .filter(({ file, contentType, module }) => !file.url && (!picked || picked.has(file.id)) &&
+      (!scope.contentType || contentType === scope.contentType) && (!scope.module || module === scope.module))
+    .map(({ file, contentType, module }) => {
+      const folder = `${folderName(categories, contentType)}/${module ? `Module ${module}/` : ''}`;
+      const name = cleanName(file.name);
+      const dot = name.lastIndexOf('.');
+      const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+      let entry = `${folder}${name}`;
+      for (let n = 2; used.has(entry.toLowerCase()); n++) {
+        entry = `${folder}${base} (${n})${extension}`;
+      }
+      used.add(entry.toLowerCase());
+      return { file, entry };
+    });
+}
+
+// Stream a ZIP of the given files followed by manifest.json. Files that can't
+// be read from storage are listed in the manifest as missing. The archive is
+// built as the client reads it: each pull reads the next chunk of the current
+// file from storage, so only that chunk and the ZIP headers are buffered,
+// however slowly the client downloads.
+export function bundleStream(scope: BundleScope, entries: Array<{ file: FileRecord; entry: string }>): ReadableStream<Uint8Array> {
+  const pending = [...entries];
+  const included: Record<string, unknown>[] = [];
+  const missing: Array<{ name: string; id: string }> = [];
+  let current: { file: FileRecord; entry: string; zipEntry: ZipPassThrough; reader: ReadableStreamDefaultReader<Uint8Array>; size: number } | null = null;
+  let zip: Zip;
+  // Chunks the ZIP has produced, and whether it is complete
+  let emitted = 0;
+  let finished = false;
+
+  // Read one chunk of the current file, opening the next readable file first
+  // and adding the manifest once every file is in
+  const step = async () => {
+    while (!current) {
+      const next = pending.shift();
+      if (!next) {
+        const manifest = new ZipPassThrough('manifest.json');
+        zip.add(manifest);
+        manifest.push(strToU8(JSON.stringify({ ...scope, generatedAt: new Date().toISOString(), files: included, missing }, null, 2)), true);
+        zip.end();
+        finished = true;
+        return;
+      }
+      const body = await openObject(next.file.path);
+      if (!body) {
+        missing.push({ name: next.file.name, id: next.file.id });
+        continue;
+      }
+      // Stored, not deflated: PDFs and Office files are already compressed
+      const zipEntry = new ZipPassThrough(next.entry);
+      zip.add(zipEntry);
+      current = { ...next, zipEntry, reader: body.getReader(), size: 0 };
+    }
+
+    const chunk = await current.reader.read();
+    if (!chunk.done) {
+      current.size += chunk.value.length;
+      current.zipEntry.push(chunk.value);
+      return;
+    }
+    const { file, entry, zipEntry, size } = current;
+    zipEntry.push(new Uint8Array(0), true);
+    included.push({
+      path: entry,
+      id: file.id,
+      name: file.name,
+      size: file.size ?? size,
+      uploadedAt: file.uploadedAt,
+      ...(file.updatedAt ? { updatedAt: file.updatedAt, version: file.version } : {}),
+      ...(file.sha256 ? { sha256: file.sha256 } : {}),
+      ...(file.metadata ? { metadata: file.metadata } : {}),
+    });
+    current = null;
+  };
+
+  return new ReadableStream({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(chunk);
+        emitted++;
+        if (final) controller.close();
+      });
+    },
+    // Called whenever the client wants more; it must produce at least one
+    // chunk, as the stream won't pull again until something was enqueued
+    async pull(controller) {
+      try {
+        const before = emitted;
+        while (emitted === before && !finished) {
+          await step();
+        }
+      } catch (error) {
+        console.error('Error building bundle:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await current?.reader.cancel();
+    },
+  });
+}
@@ -0,0 +1,656 @@
+// Academic catalog: departments, semesters, the subjects offered in each
+// department/semester pair and the content categories subjects offer. The whole catalog lives under `content_structure`
+// so clients can fetch it in a single request; the per-semester
+// `subjects_${department}_${semester}` keys are kept in sync for older routes.
+import * as kv from "./kv_store.tsx";
+import { bucket } from "./storage.tsx";
+import {
+  Category,
+  DEFAULT_CATEGORIES,
+  DEFAULT_LAYOUT,
+  MAX_MODULES,
+  FileRecord,
+  SubjectContent,
+  SubjectLayout,
+  SubjectRename,
+  allFiles,
+  contentKey,
+  placedFiles,
+  subjectPath,
+  withContentLock,
+  withContentLocks,
+} from "./content.tsx";
+import { removeLocations, setLocations, subjectLocations } from "./file_index.tsx";
+import { removeDocuments } from "./search.tsx";
+import { replaceDepartmentInScopes } from "./access.tsx";
+import type { TrashedFile } from "./trash.tsx";
+
+export interface Catalog {
+  version: number;
+  departments: string[];
+  semesters: number[];
+  // department -> semester -> subject names
+  subjects: Record<string, Record<string, string[]>>;
+  // Archived entries stay in the lists above but are hidden from students
+  archivedDepartments: string[];
+  archivedSubjects: Record<string, Record<string, string[]>>;
+  categories: Category[];
+  // department -> semester -> subject -> layout, for subjects not using DEFAULT_LAYOUT
+  layouts: Record<string, Record<string, Record<string, SubjectLayout>>>;
+}
+
+// Raised for invalid catalog operations; routes report it with `status`.
+export class CatalogError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+  }
+}
+
+const CATALOG_KEY = 'content_structure';
+const CATALOG_VERSION = 1;
+const MAX_SEMESTER = 12;
+
+const DEFAULT_DEPARTMENTS = ['CSE', 'AI&ML', 'ISE', 'CIVIL', 'MECH', 'ECE'];
+const DEFAULT_SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+export const subjectsKey = (department: string, semester: string | number) =>
+  `subjects_${department}_${semester}`;
+
+// Load the catalog, creating it on first use. Catalogs written before the
+// subjects map was maintained are backfilled from the `subjects_*` keys.
+export async function loadCatalog(): Promise<Catalog> {
+  const stored = await kv.get(CATALOG_KEY);
+  if (stored && stored.version === CATALOG_VERSION) {
+    return {
+      ...stored,
+      archivedDepartments: stored.archivedDepartments ?? [],
+      archivedSubjects: stored.archivedSubjects ?? {},
+      categories: stored.categories ?? DEFAULT_CATEGORIES,
+      layouts: stored.layouts ?? {},
+    };
+  }
+
+  const catalog: Catalog = {
+    version: CATALOG_VERSION,
+    departments: stored?.departments ?? DEFAULT_DEPARTMENTS,
+    semesters: stored?.semesters ?? DEFAULT_SEMESTERS,
+    subjects: {},
+    archivedDepartments: [],
+    archivedSubjects: {},
+    categories: DEFAULT_CATEGORIES,
+    layouts: {},
+  };
+
+  const pairs = catalog.departments.flatMap((department) =>
+    catalog.semesters.map((semester) => [department, semester.toString()])
+  );
+  const lists = await Promise.all(pairs.map(([department, semester]) => kv.get(subjectsKey(department, semester))));
+  pairs.forEach(([department, semester], i) => {
+    const list: string[] = lists[i] || [];
+    if (list.length > 0) {
+      catalog.subjects[department] ??= {};
+      catalog.subjects[department][semester] = list;
+    }
+  });
+
+  await kv.set(CATALOG_KEY, catalog);
+  return catalog;
+}
+
+// The catalog as students see it, without archived departments or subjects
+export function publicCatalog(catalog: Catalog): Catalog {
+  const departments = catalog.departments.filter((d) => !catalog.archivedDepartments.includes(d));
+  const subjects: Catalog['subjects'] = {};
+  for (const department of departments) {
+    for (const [semester, list] of Object.entries(catalog.subjects[department] ?? {})) {
+      const archived = catalog.archivedSubjects[department]?.[semester] ?? [];
+      subjects[department] ??= {};
+      subjects[department][semester] = list.filter((s) => !archived.includes(s));
+    }
+  }
+  return { ...catalog, departments, subjects, archivedDepartments: [], archivedSubjects: {} };
+}
+
+export function hasDepartment(catalog: Catalog, department: string) {
+  return catalog.departments.includes(department);
+}
+
+export function hasSemester(catalog: Catalog, semester: string | number) {
+  return catalog.semesters.includes(Number(semester));
+}
+
+export function listSubjects(catalog: Catalog, department: string, semester: string | number): string[] {
+  return catalog.subjects[department]?.[semester.toString()] ?? [];
+}
+
+export function subjectLayout(catalog: Catalog, department: string, semester: string | number, subject: string): SubjectLayout {
+  return catalog.layouts[department]?.[semester.toString()]?.[subject] ?? DEFAULT_LAYOUT;
+}
+
+export function findCategory(catalog: Catalog, id: string): Category | undefined {
+  return catalog.categories.find((category) => category.id === id);
+}
+
+// Describe what is wrong with a department or subject name, if anything
+export function nameError(name: unknown, label: string): string | null {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    return `${label} name is required`;
+  }
+  if (trimmed.includes('/')) {
+    return `${label} name cannot contain "/"`;
+  }
+  return null;
+}
+
+function requireName(name: unknown, label: string): string {
+  const error = nameError(name, label);
+  if (error) {
+    throw new CatalogError(error);
+  }
+  return (name as string).trim();
+}
+
+function requireDepartment(catalog: Catalog, department: string) {
+  if (!hasDepartment(catalog, department)) {
+    throw new CatalogError(`Department ${department} not found`, 404);
+  }
+}
+
+function requireSubject(catalog: Catalog, department: string, semester: string, subject: string) {
+  requireDepartment(catalog, department);
+  if (!listSubjects(catalog, department, semester).includes(subject)) {
+    throw new CatalogError(`Subject ${subject} not found`, 404);
+  }
+}
+
+// Replace `from` with `to` in a list, keeping its position
+const replaceIn = (list: string[], from: string, to: string) => list.map((item) => (item === from ? to : item));
+
+function assertPermutation(current: string[], order: unknown) {
+  if (
+    !Array.isArray(order) ||
+    order.length !== current.length ||
+    !current.every((item) => order.includes(item))
+  ) {
+    throw new CatalogError('Order must list every existing entry exactly once');
+  }
+}
+
+// Changes read, edit and write back the whole catalog, so they run one at a
+// time; parallel uploads creating subjects would otherwise drop each other's.
+// This lock is always taken last: no content lock is taken while holding it.
+function withCatalogLock<T>(task: () => Promise<T>): Promise<T> {
+  return withContentLock(CATALOG_KEY, task);
+}
+
+// Persist the catalog together with the `subjects_*` keys of the given pairs
+async function persist(catalog: Catalog, pairs: [string, string][] = []) {
+  await kv.mset(
+    [CATALOG_KEY, ...pairs.map(([d, s]) => subjectsKey(d, s))],
+    [catalog, ...pairs.map(([d, s]) => listSubjects(catalog, d, s))],
+  );
+}
+
+// Move a subject's content record, its trashed files and their storage
+// objects to a new location, so deleted files can still be restored after a
+// rename. Objects that fail to move keep their old path so records stay accurate.
+async function moveSubjectContent(
+  from: [string, string, string],
+  to: [string, string, string],
+) {
+  const content: SubjectContent | undefined = await kv.get(contentKey(...from));
+  const trashed = (await kv.getByPrefix('trash_') as TrashedFile[]).filter(({ location }) =>
+    contentKey(location.department, location.semester, location.subject) === contentKey(...from));
+  if (!content && trashed.length === 0) {
+    return;
+  }
+
+  const fromPrefix = subjectPath(...from);
+  const toPrefix = subjectPath(...to);
+  // Linked records share an object, so each path is only moved once
+  const moved = new Map<string, string>();
+  const relocate = async (path: string) => {
+    if (moved.has(path)) return moved.get(path)!;
+    if (!path.startsWith(fromPrefix)) return path;
+    const newPath = toPrefix + path.slice(fromPrefix.length);
+    const { error } = await bucket().move(path, newPath);
+    if (error) {
+      console.error(`Error moving ${path} to ${newPath}:`, error);
+      return path;
+    }
+    moved.set(path, newPath);
+    return newPath;
+  };
+  const relocateFile = async (file: FileRecord) => {
+    file.path = await relocate(file.path);
+    for (const version of file.versions ?? []) {
+      version.path = await relocate(version.path);
+    }
+  };
+
+  if (content) {
+    for (const file of allFiles(content)) {
+      await relocateFile(file);
+    }
+    await kv.set(contentKey(...to), content);
+    await kv.del(contentKey(...from));
+    await setLocations(subjectLocations(...to, content));
+  }
+
+  const [department, semester, subject] = to;
+  for (const entry of trashed) {
+    await relocateFile(entry.file);
+    entry.location = { ...entry.location, department, semester, subject };
+  }
+  if (trashed.length > 0) {
+    await kv.mset(trashed.map((entry) => `trash_${entry.file.id}`), trashed);
+  }
+}
+
+export function addDepartment(name: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const department = requireName(name, 'Department');
+    if (hasDepartment(catalog, department)) {
+      throw new CatalogError(`Department ${department} already exists`, 409);
+    }
+
+    catalog.departments.push(department);
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// A department's subjects as [semester, subject] pairs
+const departmentSubjects = (catalog: Catalog, department: string) =>
+  Object.keys(catalog.subjects[department] ?? {}).flatMap((semester) =>
+    listSubjects(catalog, department, semester).map((subject): [string, string] => [semester, subject]));
+
+// Uploads can't write a subject's content while it moves: its old and new
+// content keys stay locked. Content locks come before the catalog lock, so the
+// subjects are read first and the rename starts over if they changed meanwhile.
+export async function renameDepartment(department: string, name: unknown): Promise<Catalog> {
+  const renamed = requireName(name, 'Department');
+  for (;;) {
+    const subjects = departmentSubjects(await loadCatalog(), department);
+    const keys = subjects.flatMap(([semester, subject]) => [contentKey(department, semester, subject), contentKey(renamed, semester, subject)]);
+    const result = await withContentLocks(keys, () => withCatalogLock(async () => {
+      const catalog = await loadCatalog();
+      requireDepartment(catalog, department);
+      if (renamed === department) {
+        return catalog;
+      }
+      if (hasDepartment(catalog, renamed)) {
+        throw new CatalogError(`Department ${renamed} already exists`, 409);
+      }
+      if (JSON.stringify(departmentSubjects(catalog, department)) !== JSON.stringify(subjects)) {
+        return null;
+      }
+
+      for (const [semester, subject] of subjects) {
+        await moveSubjectContent([department, semester, subject], [renamed, semester, subject]);
+      }
+
+      catalog.departments = replaceIn(catalog.departments, department, renamed);
+      catalog.archivedDepartments = replaceIn(catalog.archivedDepartments, department, renamed);
+      if (catalog.subjects[department]) {
+        catalog.subjects[renamed] = catalog.subjects[department];
+        delete catalog.subjects[department];
+      }
+      if (catalog.archivedSubjects[department]) {
+        catalog.archivedSubjects[renamed] = catalog.archivedSubjects[department];
+        delete catalog.archivedSubjects[department];
+      }
+      if (catalog.layouts[department]) {
+        catalog.layouts[renamed] = catalog.layouts[department];
+        delete catalog.layouts[department];
+      }
+
+      const semesters = Object.keys(catalog.subjects[renamed] ?? {});
+      await persist(catalog, semesters.map((semester) => [renamed, semester]));
+      await kv.mdel(semesters.map((semester) => subjectsKey(department, semester)));
+      await replaceDepartmentInScopes(department, renamed);
+      return catalog;
+    }));
+    if (result) {
+      return result;
+    }
+  }
+}
+
+// Maps subjects of a renamed department to their new department
+export const departmentRename = (department: string, renamed: string): SubjectRename => (ref) =>
+  ref.department === department ? { department: renamed, semester: ref.semester, subject: ref.subject } : null;
+
+export function setDepartmentArchived(department: string, archived: boolean): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireDepartment(catalog, department);
+
+    catalog.archivedDepartments = catalog.archivedDepartments.filter((d) => d !== department);
+    if (archived) {
+      catalog.archivedDepartments.push(department);
+    }
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+export function reorderDepartments(order: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    assertPermutation(catalog.departments, order);
+
+    catalog.departments = order as string[];
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Departments can only be deleted once all of their subjects are gone
+export function deleteDepartment(department: string): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireDepartment(catalog, department);
+    const semesters = Object.keys(catalog.subjects[department] ?? {});
+    if (semesters.some((semester) => listSubjects(catalog, department, semester).length > 0)) {
+      throw new CatalogError(`Delete the subjects of ${department} before deleting the department`, 409);
+    }
+
+    catalog.departments = catalog.departments.filter((d) => d !== department);
+    catalog.archivedDepartments = catalog.archivedDepartments.filter((d) => d !== department);
+    delete catalog.subjects[department];
+    delete catalog.archivedSubjects[department];
+    delete catalog.layouts[department];
+
+    await persist(catalog);
+    await kv.mdel(semesters.map((semester) => subjectsKey(department, semester)));
+    await replaceDepartmentInScopes(department, null);
+    return catalog;
+  });
+}
+
+export function addSemester(value: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const semester = Number(value);
+    if (!Number.isInteger(semester) || semester < 1 || semester > MAX_SEMESTER) {
+      throw new CatalogError(`Semester must be a whole number between 1 and ${MAX_SEMESTER}`);
+    }
+    if (hasSemester(catalog, semester)) {
+      throw new CatalogError(`Semester ${semester} already exists`, 409);
+    }
+
+    catalog.semesters = [...catalog.semesters, semester].sort((a, b) => a - b);
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Semesters can only be deleted when no department has subjects in them
+export function deleteSemester(value: string): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    if (!hasSemester(catalog, value)) {
+      throw new CatalogError(`Semester ${value} not found`, 404);
+    }
+    if (catalog.departments.some((department) => listSubjects(catalog, department, value).length > 0)) {
+      throw new CatalogError(`Semester ${value} still has subjects`, 409);
+    }
+
+    catalog.semesters = catalog.semesters.filter((s) => s !== Number(value));
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Add a subject to a department/semester. Returns false when the subject was
+// already listed. Callers are expected to have validated the department and
+// semester against the catalog.
+export function addSubject(department: string, semester: string | number, subject: string): Promise<boolean> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const existing = listSubjects(catalog, department, semester);
+    if (existing.includes(subject)) {
+      return false;
+    }
+
+    catalog.subjects[department] ??= {};
+    catalog.subjects[department][semester.toString()] = [...existing, subject];
+
+    await persist(catalog, [[department, semester.toString()]]);
+    return true;
+  });
+}
+
+export function createSubject(department: string, semester: string, name: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireDepartment(catalog, department);
+    if (!hasSemester(catalog, semester)) {
+      throw new CatalogError(`Semester ${semester} not found`, 404);
+    }
+    const subject = requireName(name, 'Subject');
+    const existing = listSubjects(catalog, department, semester);
+    if (existing.includes(subject)) {
+      throw new CatalogError(`Subject ${subject} already exists`, 409);
+    }
+
+    catalog.subjects[department] ??= {};
+    catalog.subjects[department][semester] = [...existing, subject];
+    await persist(catalog, [[department, semester]]);
+    return catalog;
+  });
+}
+
+// The subject's old and new content keys stay locked while its content moves
+export function renameSubject(department: string, semester: string, subject: string, name: unknown): Promise<Catalog> {
+  const renamed = requireName(name, 'Subject');
+  const keys = [contentKey(department, semester, subject), contentKey(department, semester, renamed)];
+  return withContentLocks(keys, () => withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireSubject(catalog, department, semester, subject);
+    if (renamed === subject) {
+      return catalog;
+    }
+    if (listSubjects(catalog, department, semester).includes(renamed)) {
+      throw new CatalogError(`Subject ${renamed} already exists`, 409);
+    }
+
+    await moveSubjectContent([department, semester, subject], [department, semester, renamed]);
+
+    catalog.subjects[department][semester] = replaceIn(listSubjects(catalog, department, semester), subject, renamed);
+    const archived = catalog.archivedSubjects[department]?.[semester];
+    if (archived) {
+      catalog.archivedSubjects[department][semester] = replaceIn(archived, subject, renamed);
+    }
+    const layouts = catalog.layouts[department]?.[semester];
+    if (layouts?.[subject]) {
+      layouts[renamed] = layouts[subject];
+      delete layouts[subject];
+    }
+
+    await persist(catalog, [[department, semester]]);
+    return catalog;
+  }));
+}
+
+// Maps a renamed subject to its new name
+export const subjectRename = (department: string, semester: string, subject: string, renamed: string): SubjectRename => (ref) =>
+  ref.department === department && String(ref.semester) === semester && ref.subject === subject
+    ? { department, semester: ref.semester, subject: renamed }
+    : null;
+
+export function setSubjectArchived(department: string, semester: string, subject: string, archived: boolean): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireSubject(catalog, department, semester, subject);
+
+    const current = (catalog.archivedSubjects[department]?.[semester] ?? []).filter((s) => s !== subject);
+    catalog.archivedSubjects[department] ??= {};
+    catalog.archivedSubjects[department][semester] = archived ? [...current, subject] : current;
+
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+export function reorderSubjects(department: string, semester: string, order: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireDepartment(catalog, department);
+    assertPermutation(listSubjects(catalog, department, semester), order);
+
+    catalog.subjects[department][semester] = order as string[];
+    await persist(catalog, [[department, semester]]);
+    return catalog;
+  });
+}
+
+// Callers move the subject's files to the trash first; anything uploaded in
+// between is dropped from the subject with its storage objects kept
+export function deleteSubject(department: string, semester: string, subject: string): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireSubject(catalog, department, semester, subject);
+
+    const content: SubjectContent | undefined = await kv.get(contentKey(department, semester, subject));
+    await kv.del(contentKey(department, semester, subject));
+    if (content) {
+      const fileIds = allFiles(content).map((file) => file.id);
+      await removeLocations(fileIds);
+      await removeDocuments(fileIds);
+    }
+
+    catalog.subjects[department][semester] = listSubjects(catalog, department, semester).filter((s) => s !== subject);
+    const archived = catalog.archivedSubjects[department]?.[semester];
+    if (archived) {
+      catalog.archivedSubjects[department][semester] = archived.filter((s) => s !== subject);
+    }
+    delete catalog.layouts[department]?.[semester]?.[subject];
+
+    await persist(catalog, [[department, semester]]);
+    return catalog;
+  });
+}
+
+// Category ids are camelCased labels, e.g. "Lab Manuals" -> "labManuals".
+// Ids of the paper lists' storage keys are kept free so lists never clash.
+const RESERVED_CATEGORY_IDS = ['previousYearPapers', 'iaPapers'];
+
+function categoryId(catalog: Catalog, label: string): string {
+  const words = label.normalize('NFKD').replace(/[^A-Za-z0-9 ]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const base = words.map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())).join('') || 'category';
+  let id = base;
+  for (let n = 2; findCategory(catalog, id) || RESERVED_CATEGORY_IDS.includes(id); n++) {
+    id = `${base}${n}`;
+  }
+  return id;
+}
+
+function requireCategory(catalog: Catalog, id: string): Category {
+  const category = findCategory(catalog, id);
+  if (!category) {
+    throw new CatalogError(`Category ${id} not found`, 404);
+  }
+  return category;
+}
+
+function requireLabel(catalog: Catalog, label: unknown, except?: string): string {
+  const name = requireName(label, 'Category');
+  if (catalog.categories.some((c) => c.id !== except && c.label.toLowerCase() === name.toLowerCase())) {
+    throw new CatalogError(`Category ${name} already exists`, 409);
+  }
+  return name;
+}
+
+// Link categories hold web links rather than files and aren't split by module
+export function addCategory(label: unknown, modular: unknown, links: unknown = false): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const name = requireLabel(catalog, label);
+    if (links === true && modular === true) {
+      throw new CatalogError('Link categories cannot be split by module');
+    }
+
+    const category: Category = { id: categoryId(catalog, name), label: name, modular: modular === true, ...(links === true ? { links: true } : {}) };
+    catalog.categories = [...catalog.categories, category];
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Only the label can change: the id and whether files are filed by module are
+// part of every stored file's location, and links can't become files
+export function renameCategory(id: string, label: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const category = requireCategory(catalog, id);
+    const name = requireLabel(catalog, label, id);
+
+    catalog.categories = catalog.categories.map((c) => (c === category ? { ...c, label: name } : c));
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Categories can only be deleted once no subject offers them
+export function deleteCategory(id: string): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    const category = requireCategory(catalog, id);
+    if (DEFAULT_LAYOUT.categories.includes(id)) {
+      throw new CatalogError(`${category.label} is offered by every subject without its own layout`, 409);
+    }
+    const users = Object.entries(catalog.layouts).flatMap(([department, semesters]) =>
+      Object.entries(semesters).flatMap(([semester, subjects]) =>
+        Object.entries(subjects).filter(([, layout]) => layout.categories.includes(id)).map(([subject]) => `${department} Sem ${semester} ${subject}`)
+      )
+    );
+    if (users.length > 0) {
+      throw new CatalogError(`${category.label} is still offered by ${users.join(', ')}`, 409);
+    }
+
+    catalog.categories = catalog.categories.filter((c) => c !== category);
+    await persist(catalog);
+    return catalog;
+  });
+}
+
+// Set the categories and module count of a subject. Categories and modules
+// that still hold files can't be removed.
+export function setSubjectLayout(department: string, semester: string, subject: string, layout: unknown): Promise<Catalog> {
+  return withCatalogLock(async () => {
+    const catalog = await loadCatalog();
+    requireSubject(catalog, department, semester, subject);
+
+    const { categories, modules } = (layout ?? {}) as Partial<Record<keyof SubjectLayout, unknown>>;
+    if (!Array.isArray(categories) || categories.length === 0) {
+      throw new CatalogError('A subject must offer at least one category');
+    }
+    if (new Set(categories).size !== categories.length) {
+      throw new CatalogError('Categories must be listed once each');
+    }
+    categories.forEach((id) => requireCategory(catalog, String(id)));
+    const moduleCount = Number(modules);
+    if (!Number.isInteger(moduleCount) || moduleCount < 1 || moduleCount > MAX_MODULES) {
+      throw new CatalogError(`Modules must be a whole number between 1 and ${MAX_MODULES}`);
+    }
+
+    const content: SubjectContent | undefined = await kv.get(contentKey(department, semester, subject));
+    const stranded = (content ? placedFiles(content) : []).filter(({ contentType, module }) =>
+      !categories.includes(contentType) || (module ?? 0) > moduleCount);
+    if (stranded.length > 0) {
+      const { contentType, module } = stranded[0];
+      const place = `${findCategory(catalog, contentType)?.label ?? contentType}${module ? ` module ${module}` : ''}`;
+      throw new CatalogError(`${place} still has files; move or delete them first`, 409);
+    }
+
+    catalog.layouts[department] ??= {};
+    catalog.layouts[department][semester] ??= {};
+    catalog.layouts[department][semester][subject] = { categories: categories.map(String), modules: moduleCount };
+    await persist(catalog);
+    return catalog;
+  });
+}
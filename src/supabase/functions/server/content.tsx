@@ -0,0 +1,207 @@
+// Per-subject content records stored under `content_${department}_${semester}_${subject}`.
+
+// A category id, e.g. 'previousYearPaper' or 'labManual'
+export type ContentType = string;
+
+// A kind of content a subject can offer. Categories are defined in the catalog.
+export interface Category {
+  // Used in file locations and storage paths, so it never changes
+  id: ContentType;
+  label: string;
+  // Files are filed under a module, like notes
+  modular: boolean;
+  // Holds web links, e.g. lecture videos, instead of uploaded files
+  links?: boolean;
+}
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'previousYearPaper', label: 'Previous Year Papers', modular: false },
+  { id: 'iaPaper', label: 'IA Papers', modular: false },
+  { id: 'notes', label: 'Notes', modular: true },
+  { id: 'modelPaper', label: 'Model Papers', modular: false },
+  { id: 'solutions', label: 'Solutions', modular: false },
+  { id: 'labManual', label: 'Lab Manuals', modular: false },
+  { id: 'assignment', label: 'Assignments', modular: false },
+  { id: 'syllabus', label: 'Syllabus', modular: false },
+  { id: 'videoLinks', label: 'Video Links', modular: false, links: true },
+];
+
+// The categories a subject offers, in tab order, and how many modules it has
+export interface SubjectLayout {
+  categories: ContentType[];
+  modules: number;
+}
+
+// Subjects without a layout of their own use this one
+export const DEFAULT_LAYOUT: SubjectLayout = { categories: ['previousYearPaper', 'iaPaper', 'notes'], modules: 5 };
+
+export const MAX_MODULES = 12;
+
+export const EXAM_SESSIONS = ['dec-jan', 'jun-jul'] as const;
+export type ExamSession = typeof EXAM_SESSIONS[number];
+
+// Academic details of a question paper, set by admins. Session only applies
+// to previous year papers and IA number only to IA papers.
+export interface PaperMetadata {
+  examYear?: number;
+  session?: ExamSession;
+  // Regulation scheme, e.g. "2018" or "2022"
+  scheme?: string;
+  paperCode?: string;
+  iaNumber?: number;
+}
+
+// An earlier version of a replaced file, kept in storage for rollback
+export interface FileVersion {
+  version: number;
+  name: string;
+  path: string;
+  uploadedAt: string;
+  size?: number;
+  mimeType?: string;
+  sha256?: string;
+  // Set when this version was itself a rollback to an older one
+  restoredFrom?: number;
+}
+
+export interface FileRecord {
+  id: string;
+  name: string;
+  path: string;
+  uploadedAt: string;
+  // Not recorded for files uploaded before the shared upload service
+  contentType?: ContentType;
+  module?: number;
+  size?: number;
+  mimeType?: string;
+  // Hex SHA-256 of the file's bytes; records sharing it share one storage object
+  sha256?: string;
+  // Current version number; files that were never replaced are version 1
+  version?: number;
+  // Set when the file is replaced or rolled back
+  updatedAt?: string;
+  restoredFrom?: number;
+  // Earlier versions, newest first
+  versions?: FileVersion[];
+  metadata?: PaperMetadata;
+  // Name of the student whose contribution this was published from
+  contributedBy?: string;
+  // Set for links: the web address. Links have no storage object, so their path is empty.
+  url?: string;
+}
+
+// Where a file sits within a subject's content
+export interface FilePlacement {
+  contentType: ContentType;
+  module?: number;
+}
+
+// A file's full location: its subject and where it is filed within it
+export interface FileLocation extends FilePlacement {
+  department: string;
+  semester: string;
+  subject: string;
+}
+
+// A subject as records outside its content refer to it
+export type SubjectRef = Pick<FileLocation, 'department' | 'semester' | 'subject'>;
+
+// Where a catalog rename moved a subject, or null when the rename didn't touch it
+export type SubjectRename = (subject: SubjectRef) => SubjectRef | null;
+
+// A subject's files by category. Modular categories hold one list per module,
+// keyed `moduleN`. Papers keep the plural keys they were first stored under.
+export type SubjectContent = Record<string, FileRecord[] | Record<string, FileRecord[]>>;
+
+const LIST_KEYS: Record<ContentType, string> = {
+  previousYearPaper: 'previousYearPapers',
+  iaPaper: 'iaPapers',
+};
+
+// The key of a category's files in a subject's content
+export const listKey = (contentType: ContentType) => LIST_KEYS[contentType] ?? contentType;
+
+const contentTypeOf = (key: string) => Object.keys(LIST_KEYS).find((type) => LIST_KEYS[type] === key) ?? key;
+
+export const contentKey = (department: string, semester: string | number, subject: string) =>
+  `content_${department}_${semester}_${subject}`;
+
+// Storage folder holding every file of a subject
+export const subjectPath = (department: string, semester: string | number, subject: string) =>
+  `${department}/${semester}/${subject}/`;
+
+// Storage folder for files filed at a location
+export const locationPath = ({ department, semester, subject, contentType, module }: FileLocation) =>
+  `${subjectPath(department, semester, subject)}${contentType}/${module ? `module${module}/` : ''}`;
+
+// Run `task` once earlier tasks for the same content key have finished.
+// Parallel uploads to one subject read and rewrite the same record, so
+// without this they would drop each other's files.
+const contentLocks = new Map<string, Promise<unknown>>();
+
+export function withContentLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (contentLocks.get(key) ?? Promise.resolve()).catch(() => {}).then(task);
+  contentLocks.set(key, run);
+  run.catch(() => {}).finally(() => {
+    if (contentLocks.get(key) === run) contentLocks.delete(key);
+  });
+  return run;
+}
+
+// Hold the locks of several content keys at once. Keys are always taken in
+// sorted order, so two tasks locking the same pair can't wait on each other.
+export function withContentLocks<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+  return [...new Set(keys)].sort().reduceRight<() => Promise<T>>(
+    (inner, key) => () => withContentLock(key, inner),
+    task,
+  )();
+}
+
+// Lists are created as files are filed, so new subjects start empty
+export const emptyContent = (): SubjectContent => ({});
+
+// Every storage object a record uses: its current path and those of its versions
+export const storedPaths = (file: FileRecord) =>
+  [...new Set([file.path, ...(file.versions ?? []).map((v) => v.path)])].filter(Boolean);
+
+// Whether another record of the subject points at the same storage object
+export const isPathShared = (content: SubjectContent, file: FileRecord, path = file.path) =>
+  allFiles(content).some((other) => other.id !== file.id && storedPaths(other).includes(path));
+
+export function allFiles(content: SubjectContent): FileRecord[] {
+  return placedFiles(content).map(({ file }) => file);
+}
+
+// The list a file of the given category (and module, for modular ones) belongs in
+export function fileList(content: SubjectContent, contentType: ContentType, module?: number): FileRecord[] {
+  const key = listKey(contentType);
+  if (module) {
+    const modules = (content[key] ??= {}) as Record<string, FileRecord[]>;
+    return modules[`module${module}`] ??= [];
+  }
+  return (content[key] ??= []) as FileRecord[];
+}
+
+// Every file of a subject together with the list it is filed under
+export function placedFiles(content: SubjectContent): Array<{ file: FileRecord } & FilePlacement> {
+  return Object.entries(content || {}).flatMap(([key, files]) => {
+    const contentType = contentTypeOf(key);
+    if (Array.isArray(files)) {
+      return files.map((file) => ({ file, contentType }));
+    }
+    return Object.entries(files || {}).flatMap(([moduleKey, list]) =>
+      (list || []).map((file) => ({ file, contentType, module: Number(moduleKey.replace('module', '')) }))
+    );
+  });
+}
+
+// Remove a file from whichever list holds it, returning the removed record
+export function removeFromContent(content: SubjectContent, fileId: string): FileRecord | null {
+  const placed = placedFiles(content).find(({ file }) => file.id === fileId);
+  if (!placed) {
+    return null;
+  }
+  const list = fileList(content, placed.contentType, placed.module);
+  list.splice(list.indexOf(placed.file), 1);
+  return placed.file;
+}
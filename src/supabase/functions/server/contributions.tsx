@@ -0,0 +1,259 @@
+// Student contributions. A signed-in student's file is stored under `pending/`
+// with its record under `contribution_${id}` until a moderator approves it into
+// the subject's content or rejects it. Reviewed records are kept so students
+// can follow what happened to their submissions.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { bucket } from "./storage.tsx";
+import { FileLocation, FileRecord, PaperMetadata, SubjectRename, withContentLock } from "./content.tsx";
+import {
+  FieldErrors,
+  ValidationError,
+  fileError,
+  mimeTypeFor,
+  parseMetadata,
+  sanitizeFileName,
+  storeUpload,
+  validateLocation,
+} from "./uploads.tsx";
+
+// Pending submissions a student can have waiting for review at once
+const MAX_PENDING = 10;
+const MAX_NOTE_LENGTH = 500;
+const MAX_REASON_LENGTH = 500;
+
+export type ContributionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Contribution {
+  id: string;
+  name: string;
+  // Storage object while pending; removed once the contribution is reviewed
+  path: string;
+  size: number;
+  mimeType: string;
+  location: FileLocation;
+  metadata?: PaperMetadata;
+  // Optional message from the student to the moderators
+  note: string;
+  contributor: { userId: string; email: string; name: string };
+  submittedAt: string;
+  status: ContributionStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  // Set when rejected
+  reason?: string;
+  // The published file, once approved
+  fileId?: string;
+}
+
+// Raised for contributions that can't be submitted or reviewed; carries the HTTP status.
+export class ContributionError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+  }
+}
+
+const contributionKey = (id: string) => `contribution_${id}`;
+
+const field = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export async function findContribution(id: string): Promise<Contribution> {
+  const contribution: Contribution | null = await kv.get(contributionKey(id));
+  if (!contribution) {
+    throw new ContributionError('Contribution not found', 404);
+  }
+  return contribution;
+}
+
+async function loadPending(id: string): Promise<Contribution> {
+  const contribution = await findContribution(id);
+  if (contribution.status !== 'pending') {
+    throw new ContributionError(`This contribution has already been ${contribution.status}`, 409);
+  }
+  return contribution;
+}
+
+// A short-lived link to a pending contribution's file for the moderators.
+// Reviewed contributions have no file left to sign.
+export async function fileUrl(id: string): Promise<string> {
+  const pending = await loadPending(id);
+  const { data, error } = await bucket().createSignedUrl(pending.path, 3600);
+  if (error || !data) {
+    throw new Error(`Failed to sign ${pending.path}: ${error?.message}`);
+  }
+  return data.signedUrl;
+}
+
+// Where a contribution would be filed and its paper details, validated as for an upload
+async function parseDetails(fields: Record<string, unknown>, errors: FieldErrors) {
+  const location = await validateLocation(fields, errors);
+  const metadata = parseMetadata(fields, location.contentType, errors);
+  return { location, metadata };
+}
+
+// Store a student's file for review, with the same fields as an admin upload
+// plus an optional note
+export async function submit(formData: FormData, contributor: Contribution['contributor']): Promise<Contribution> {
+  const fields = Object.fromEntries(formData);
+  const errors: FieldErrors = {};
+  const { location, metadata } = await parseDetails(fields, errors);
+  // Students contribute to existing subjects; new ones are added by staff
+  const subjects = catalog.listSubjects(await catalog.loadCatalog(), location.department, location.semester);
+  if (!errors.subject && !errors.department && !errors.semester && !subjects.includes(location.subject)) {
+    errors.subject = `Unknown subject ${location.subject}`;
+  }
+  const file = formData.get('file');
+  const problem = fileError(file);
+  if (problem) {
+    errors.file = problem;
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+  const note = field(fields.note);
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new ContributionError(`Notes can be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const mine = await listMine(contributor.userId);
+  if (mine.filter((contribution) => contribution.status === 'pending').length >= MAX_PENDING) {
+    throw new ContributionError(`You already have ${MAX_PENDING} contributions waiting for review`, 409);
+  }
+
+  const upload = file as File;
+  const id = crypto.randomUUID();
+  const path = `pending/${id}_${sanitizeFileName(upload.name)}`;
+  const mimeType = mimeTypeFor(upload);
+  const { error } = await bucket().upload(path, upload, { contentType: mimeType });
+  if (error) {
+    throw new Error(`Failed to upload ${path}: ${error.message}`);
+  }
+
+  const contribution: Contribution = {
+    id,
+    name: upload.name.split(/[\\/]/).pop()!.slice(0, 200),
+    path,
+    size: upload.size,
+    mimeType,
+    location,
+    ...(metadata ? { metadata } : {}),
+    note,
+    contributor,
+    submittedAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await kv.set(contributionKey(id), contribution);
+  return contribution;
+}
+
+// A student's contributions, newest first
+export async function listMine(userId: string): Promise<Contribution[]> {
+  const contributions: Contribution[] = await kv.getByPrefix('contribution_');
+  return contributions
+    .filter((contribution) => contribution.contributor.userId === userId)
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+}
+
+// Contributions waiting for review, oldest first. `scope` limits the queue to
+// those departments (null for everything).
+export async function listPending(scope: string[] | null): Promise<Contribution[]> {
+  const contributions: Contribution[] = await kv.getByPrefix('contribution_');
+  return contributions
+    .filter((contribution) => contribution.status === 'pending')
+    .filter((contribution) => scope === null || scope.includes(contribution.location.department))
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+// Change where a pending contribution will be filed and its paper details.
+// Returns the contribution before and after the change.
+export function updatePending(id: string, fields: Record<string, unknown>) {
+  return withContentLock(contributionKey(id), async () => {
+    const previous = await loadPending(id);
+    const errors: FieldErrors = {};
+    const { location, metadata } = await parseDetails(fields, errors);
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError(errors);
+    }
+    const { metadata: _, ...rest } = previous;
+    const contribution: Contribution = { ...rest, location, ...(metadata ? { metadata } : {}) };
+    await kv.set(contributionKey(id), contribution);
+    return { previous, contribution };
+  });
+}
+
+// File contributions under a subject's new name after a catalog rename
+export async function relocateSubjects(rename: SubjectRename): Promise<void> {
+  const contributions: Contribution[] = await kv.getByPrefix('contribution_');
+  for (const { id } of contributions.filter((contribution) => rename(contribution.location))) {
+    await withContentLock(contributionKey(id), async () => {
+      const current = await findContribution(id);
+      const moved = rename(current.location);
+      if (moved) {
+        await kv.set(contributionKey(id), { ...current, location: { ...current.location, ...moved } });
+      }
+    });
+  }
+}
+
+// Publish a pending contribution into its subject, credited to the student.
+// Bytes already in the subject are rejected as for any upload.
+export function approve(id: string, reviewedBy: string): Promise<{ contribution: Contribution; fileRecord: FileRecord }> {
+  return withContentLock(contributionKey(id), async () => {
+    const pending = await loadPending(id);
+    const { data, error } = await bucket().download(pending.path);
+    if (error || !data) {
+      throw new Error(`Failed to read ${pending.path}: ${error?.message}`);
+    }
+
+    const fileRecord = await storeUpload({
+      ...pending.location,
+      file: new File([data], pending.name, { type: pending.mimeType }),
+      duplicateAction: 'reject',
+      ...(pending.metadata ? { metadata: pending.metadata } : {}),
+      contributedBy: pending.contributor.name,
+    });
+
+    const contribution: Contribution = {
+      ...pending,
+      status: 'approved',
+      reviewedBy,
+      reviewedAt: new Date().toISOString(),
+      fileId: fileRecord.id,
+    };
+    await kv.set(contributionKey(id), contribution);
+    await removeObject(pending.path);
+    return { contribution, fileRecord };
+  });
+}
+
+// Turn down a pending contribution; the reason is shown to the student
+export function reject(id: string, reason: unknown, reviewedBy: string): Promise<Contribution> {
+  return withContentLock(contributionKey(id), async () => {
+    const text = field(reason);
+    if (!text) {
+      throw new ContributionError('Give the student a reason for the rejection');
+    }
+    if (text.length > MAX_REASON_LENGTH) {
+      throw new ContributionError(`Reasons can be at most ${MAX_REASON_LENGTH} characters`);
+    }
+    const pending = await loadPending(id);
+    const contribution: Contribution = {
+      ...pending,
+      status: 'rejected',
+      reviewedBy,
+      reviewedAt: new Date().toISOString(),
+      reason: text,
+    };
+    await kv.set(contributionKey(id), contribution);
+    await removeObject(pending.path);
+    return contribution;
+  });
+}
+
+// The reviewed record is what matters; a leftover object is only logged
+async function removeObject(path: string) {
+  const { error } = await bucket().remove([path]);
+  if (error) {
+    console.error(`Failed to remove ${path}:`, error);
+  }
+}
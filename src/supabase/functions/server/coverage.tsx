@@ -0,0 +1,72 @@
+// Coverage report: how many files every subject has in each of its
+// categories and modules, so admins can spot empty slots at a glance.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { Category, SubjectContent, contentKey, placedFiles } from "./content.tsx";
+
+export interface CoverageRow {
+  department: string;
+  semester: string;
+  subject: string;
+  // File counts per slot the subject offers, keyed by category id or
+  // `${category id}/${module}` for modular categories
+  counts: Record<string, number>;
+  // Offered slots without any file
+  empty: number;
+}
+
+export interface Coverage {
+  categories: Category[];
+  // The most modules any subject has; modular columns run up to this
+  modules: number;
+  rows: CoverageRow[];
+  summary: { subjects: number; slots: number; empty: number };
+}
+
+export const slotKey = (contentType: string, module?: number) => (module ? `${contentType}/${module}` : contentType);
+
+// Build the matrix from each subject's content record. Archived departments
+// and subjects are left out; `scope` limits the report to those departments
+// (null for every department).
+export async function buildCoverage(scope: string[] | null): Promise<Coverage> {
+  const current = catalog.publicCatalog(await catalog.loadCatalog());
+  const subjects = current.departments
+    .filter((department) => scope === null || scope.includes(department))
+    .flatMap((department) => current.semesters.flatMap((semester) =>
+      catalog.listSubjects(current, department, semester).map((subject) => ({ department, semester: String(semester), subject }))));
+
+  const contents: Array<SubjectContent | undefined> = await Promise.all(
+    subjects.map(({ department, semester, subject }) => kv.get(contentKey(department, semester, subject))),
+  );
+
+  let modules = 0;
+  const rows = subjects.map(({ department, semester, subject }, i) => {
+    const layout = catalog.subjectLayout(current, department, semester, subject);
+    const counts: Record<string, number> = {};
+    for (const id of layout.categories) {
+      if (catalog.findCategory(current, id)?.modular) {
+        for (let module = 1; module <= layout.modules; module++) counts[slotKey(id, module)] = 0;
+        modules = Math.max(modules, layout.modules);
+      } else {
+        counts[id] = 0;
+      }
+    }
+    // Files left in categories the subject no longer offers aren't slots
+    for (const { contentType, module } of placedFiles(contents[i] ?? {})) {
+      const key = slotKey(contentType, module);
+      if (key in counts) counts[key]++;
+    }
+    return { department, semester, subject, counts, empty: Object.values(counts).filter((count) => count === 0).length };
+  });
+
+  return {
+    categories: current.categories,
+    modules,
+    rows,
+    summary: {
+      subjects: rows.length,
+      slots: rows.reduce((sum, row) => sum + Object.keys(row.counts).length, 0),
+      empty: rows.reduce((sum, row) => sum + row.empty, 0),
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Plain-text extraction for uploaded documents, used to build the search index.
+import { extractText, getDocumentProxy } from "npm:unpdf";
+import { strFromU8, unzipSync } from "npm:fflate";
+
+// Longest text kept per file; enough for full notes without bloating the KV store
+const MAX_TEXT_LENGTH = 100_000;
+
+// Most XML inflated from one DOCX or PPTX. Entries are checked by their
+// declared size before they are inflated, as archive imports do, so a crafted
+// file can't exhaust memory; larger documents are left out of the index.
+const MAX_XML_SIZE = 20 * 1024 * 1024; // 20 MB
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Turn Office Open XML into text, keeping paragraph breaks
+function xmlToText(xml: string): string {
+  return xml
+    .replace(/<\/(w|a):p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity]);
+}
+
+function officeText(data: Uint8Array, pattern: RegExp): string {
+  let declared = 0;
+  const entries = unzipSync(data, {
+    filter: (entry) => {
+      if (!pattern.test(entry.name)) return false;
+      declared += entry.originalSize;
+      return declared <= MAX_XML_SIZE;
+    },
+  });
+  if (declared > MAX_XML_SIZE) {
+    throw new Error(`document text unpacks to more than ${MAX_XML_SIZE / (1024 * 1024)} MB`);
+  }
+  return Object.keys(entries)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((name) => xmlToText(strFromU8(entries[name])))
+    .join('\n');
+}
+
+// Extract searchable text from a PDF, DOCX, PPTX or TXT file. Legacy DOC/PPT
+// files and anything that fails to parse yield an empty string.
+export async function extractFileText(data: Uint8Array, extension: string): Promise<string> {
+  let text = '';
+  try {
+    if (extension === 'pdf') {
+      const pdf = await getDocumentProxy(data);
+      text = (await extractText(pdf, { mergePages: true })).text as string;
+    } else if (extension === 'docx') {
+      text = officeText(data, /^word\/document\.xml$/);
+    } else if (extension === 'pptx') {
+      text = officeText(data, /^ppt\/slides\/slide\d+\.xml$/);
+    } else if (extension === 'txt') {
+      text = new TextDecoder().decode(data);
+    }
+  } catch (error) {
+    console.error(`Error extracting text from .${extension} file:`, error);
+  }
+  return text.replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim().slice(0, MAX_TEXT_LENGTH);
+}
@@ -0,0 +1,259 @@
+// Student feedback on files. Ratings and comments for a file live together
+// under `feedback_${fileId}`; problem reports are kept one per key under
+// `flag_${id}` and make up the moderation queue until staff resolve them.
+import * as kv from "./kv_store.tsx";
+import { FileLocation, FileRecord, SubjectRename, withContentLock } from "./content.tsx";
+import { findFile } from "./files.tsx";
+
+export const FLAG_REASONS = ['wrong-subject', 'illegible', 'duplicate', 'copyright'] as const;
+export type FlagReason = typeof FLAG_REASONS[number];
+
+export const RESOLUTIONS = ['dismissed', 'fixed', 'moved', 'deleted'] as const;
+export type Resolution = typeof RESOLUTIONS[number];
+
+const MAX_COMMENT_LENGTH = 500;
+const MAX_DETAILS_LENGTH = 500;
+// Older comments are dropped once a file has this many
+const MAX_COMMENTS = 200;
+
+export interface FileComment {
+  id: string;
+  userId: string;
+  // The USN without its roll number, or "Student" before a profile is saved
+  author: string;
+  text: string;
+  at: string;
+}
+
+// A comment as readers get it: without the author's id, flagged when it is
+// the reader's own so they can delete it
+export type PublicComment = Omit<FileComment, 'userId'> & { mine: boolean };
+
+export interface FileFeedback {
+  fileId: string;
+  // userId -> 1 to 5 stars
+  ratings: Record<string, number>;
+  comments: FileComment[];
+}
+
+export interface FeedbackSummary {
+  average: number | null;
+  ratings: number;
+  comments: number;
+}
+
+export interface Flag {
+  id: string;
+  fileId: string;
+  fileName: string;
+  // Where the file was when it was reported
+  location: FileLocation;
+  reason: FlagReason;
+  details: string;
+  reporter: { userId: string; email: string };
+  createdAt: string;
+  status: 'open' | 'resolved';
+  resolution?: Resolution;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+// A reported file with its open reports, as shown in the moderation queue
+export interface QueueItem {
+  fileId: string;
+  fileName: string;
+  // null once the file has been deleted
+  file: FileRecord | null;
+  location: FileLocation;
+  flags: Flag[];
+}
+
+// Raised for invalid feedback; carries the HTTP status.
+export class FeedbackError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 = 400) {
+    super(message);
+  }
+}
+
+const feedbackKey = (fileId: string) => `feedback_${fileId}`;
+const flagKey = (id: string) => `flag_${id}`;
+
+async function loadFeedback(fileId: string): Promise<FileFeedback> {
+  return (await kv.get(feedbackKey(fileId))) ?? { fileId, ratings: {}, comments: [] };
+}
+
+export function summarize(feedback: FileFeedback): FeedbackSummary {
+  const ratings = Object.values(feedback.ratings);
+  return {
+    average: ratings.length > 0 ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10 : null,
+    ratings: ratings.length,
+    comments: feedback.comments.length,
+  };
+}
+
+async function requireFile(fileId: string) {
+  const found = await findFile(fileId);
+  if (!found) {
+    throw new FeedbackError('File not found', 404);
+  }
+  return found;
+}
+
+// Read-modify-write of one file's feedback, one change at a time
+function updateFeedback(fileId: string, change: (feedback: FileFeedback) => void): Promise<FileFeedback> {
+  return withContentLock(feedbackKey(fileId), async () => {
+    const feedback = await loadFeedback(fileId);
+    change(feedback);
+    await kv.set(feedbackKey(fileId), feedback);
+    return feedback;
+  });
+}
+
+// A file's rating summary and comments, newest first, plus the student's own rating
+export async function getFeedback(fileId: string, userId?: string) {
+  const feedback = await loadFeedback(fileId);
+  return {
+    summary: summarize(feedback),
+    comments: feedback.comments.map(({ userId: author, ...comment }): PublicComment => ({ ...comment, mine: !!userId && author === userId })),
+    myRating: userId ? feedback.ratings[userId] ?? null : null,
+  };
+}
+
+// Rating summaries for a list of files, keyed by file id
+export async function summaries(fileIds: string[]): Promise<Record<string, FeedbackSummary>> {
+  if (fileIds.length === 0) return {};
+  const stored: FileFeedback[] = await kv.mget(fileIds.map(feedbackKey));
+  return Object.fromEntries(stored.map((feedback) => [feedback.fileId, summarize(feedback)]));
+}
+
+export async function rateFile(fileId: string, userId: string, rating: unknown) {
+  if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new FeedbackError('Rating must be a whole number of stars from 1 to 5');
+  }
+  await requireFile(fileId);
+  await updateFeedback(fileId, (feedback) => {
+    feedback.ratings[userId] = rating;
+  });
+  return getFeedback(fileId, userId);
+}
+
+export async function addComment(fileId: string, userId: string, author: string, text: unknown) {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) {
+    throw new FeedbackError('Comment cannot be empty');
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new FeedbackError(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  await requireFile(fileId);
+  await updateFeedback(fileId, (feedback) => {
+    feedback.comments = [
+      { id: crypto.randomUUID(), userId, author, text: trimmed, at: new Date().toISOString() },
+      ...feedback.comments,
+    ].slice(0, MAX_COMMENTS);
+  });
+  return getFeedback(fileId, userId);
+}
+
+// Students can remove their own comments
+export async function deleteComment(fileId: string, commentId: string, userId: string) {
+  await updateFeedback(fileId, (feedback) => {
+    const comment = feedback.comments.find((c) => c.id === commentId);
+    if (!comment) {
+      throw new FeedbackError('Comment not found', 404);
+    }
+    if (comment.userId !== userId) {
+      throw new FeedbackError('You can only delete your own comments', 403);
+    }
+    feedback.comments = feedback.comments.filter((c) => c.id !== commentId);
+  });
+  return getFeedback(fileId, userId);
+}
+
+// Report a problem with a file. A student's open report on the same file is
+// updated rather than duplicated.
+export async function flagFile(fileId: string, reporter: Flag['reporter'], reason: unknown, details: unknown): Promise<Flag> {
+  if (!FLAG_REASONS.includes(reason as FlagReason)) {
+    throw new FeedbackError(`Reason must be one of ${FLAG_REASONS.join(', ')}`);
+  }
+  const text = typeof details === 'string' ? details.trim() : '';
+  if (text.length > MAX_DETAILS_LENGTH) {
+    throw new FeedbackError(`Details can be at most ${MAX_DETAILS_LENGTH} characters`);
+  }
+  const found = await requireFile(fileId);
+
+  const flags: Flag[] = await kv.getByPrefix('flag_');
+  const existing = flags.find((flag) => flag.fileId === fileId && flag.status === 'open' && flag.reporter.userId === reporter.userId);
+  const flag: Flag = {
+    id: existing?.id ?? crypto.randomUUID(),
+    fileId,
+    fileName: found.file.name,
+    location: found.location,
+    reason: reason as FlagReason,
+    details: text,
+    reporter,
+    createdAt: new Date().toISOString(),
+    status: 'open',
+  };
+  await kv.set(flagKey(flag.id), flag);
+  return flag;
+}
+
+// Reported files with open reports, most reported first. `scope` limits the
+// queue to files from those departments (null for everything).
+export async function listQueue(scope: string[] | null): Promise<QueueItem[]> {
+  const flags: Flag[] = await kv.getByPrefix('flag_');
+  const byFile = new Map<string, Flag[]>();
+  for (const flag of flags) {
+    if (flag.status !== 'open') continue;
+    byFile.set(flag.fileId, [...(byFile.get(flag.fileId) ?? []), flag]);
+  }
+
+  const items = await Promise.all([...byFile].map(async ([fileId, fileFlags]) => {
+    const found = await findFile(fileId);
+    const latest = fileFlags.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    return {
+      fileId,
+      fileName: found?.file.name ?? latest.fileName,
+      file: found?.file ?? null,
+      location: found?.location ?? latest.location,
+      flags: fileFlags,
+    };
+  }));
+  return items
+    .filter((item) => scope === null || scope.includes(item.location.department))
+    .sort((a, b) => b.flags.length - a.flags.length || b.flags[0].createdAt.localeCompare(a.flags[0].createdAt));
+}
+
+// Close every open report on a file. Returns the reports that were closed.
+// `scope` limits this to files in those departments (null for everything).
+export async function resolveFlags(fileId: string, resolution: unknown, resolvedBy: string, scope: string[] | null): Promise<Flag[]> {
+  if (!RESOLUTIONS.includes(resolution as Resolution)) {
+    throw new FeedbackError(`Resolution must be one of ${RESOLUTIONS.join(', ')}`);
+  }
+  const flags: Flag[] = await kv.getByPrefix('flag_');
+  const open = flags.filter((flag) => flag.fileId === fileId && flag.status === 'open');
+  if (open.length === 0) {
+    throw new FeedbackError('This file has no open reports', 404);
+  }
+  const department = (await findFile(fileId))?.location.department ?? open[0].location.department;
+  if (scope !== null && !scope.includes(department)) {
+    throw new FeedbackError(`You cannot manage the ${department} department`, 403);
+  }
+  const resolvedAt = new Date().toISOString();
+  const resolved = open.map((flag) => ({ ...flag, status: 'resolved' as const, resolution: resolution as Resolution, resolvedBy, resolvedAt }));
+  await kv.mset(resolved.map((flag) => flagKey(flag.id)), resolved);
+  return resolved;
+}
+
+// File reports under a subject's new name after a catalog rename
+export async function relocateSubjects(rename: SubjectRename): Promise<void> {
+  const flags: Flag[] = await kv.getByPrefix('flag_');
+  const moved = flags.flatMap((flag) => {
+    const to = rename(flag.location);
+    return to ? [{ ...flag, location: { ...flag.location, ...to } }] : [];
+  });
+  if (moved.length > 0) {
+    await kv.mset(moved.map((flag) => flagKey(flag.id)), moved);
+  }
+}
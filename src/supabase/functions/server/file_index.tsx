@@ -0,0 +1,48 @@
+// Id -> location index for uploaded files, so any file can be found without
+// scanning every `content_*` record. Stored as one `file_${id}` key per file.
+import * as kv from "./kv_store.tsx";
+import { FileLocation, SubjectContent, placedFiles } from "./content.tsx";
+
+// Entries also carry their id so the whole index can be read by prefix
+export interface IndexedLocation extends FileLocation {
+  fileId: string;
+}
+
+export const fileIndexKey = (fileId: string) => `file_${fileId}`;
+
+export async function getLocation(fileId: string): Promise<FileLocation | null> {
+  const entry: IndexedLocation | undefined = await kv.get(fileIndexKey(fileId));
+  if (!entry) return null;
+  const { fileId: _, ...location } = entry;
+  return location;
+}
+
+export async function setLocations(entries: Array<[string, FileLocation]>): Promise<void> {
+  if (entries.length === 0) return;
+  await kv.mset(
+    entries.map(([fileId]) => fileIndexKey(fileId)),
+    entries.map(([fileId, location]) => ({ ...location, fileId })),
+  );
+}
+
+export async function allLocations(): Promise<IndexedLocation[]> {
+  return kv.getByPrefix('file_');
+}
+
+export async function removeLocations(fileIds: string[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  await kv.mdel(fileIds.map(fileIndexKey));
+}
+
+// Index entries for every file of a subject
+export function subjectLocations(
+  department: string,
+  semester: string,
+  subject: string,
+  content: SubjectContent,
+): Array<[string, FileLocation]> {
+  return placedFiles(content).map(({ file, contentType, module }) => [
+    file.id,
+    { department, semester, subject, contentType, ...(module ? { module } : {}) },
+  ]);
+}
@@ -0,0 +1,182 @@
+// Id-addressed file operations (lookup, move) backed by the file index.
+// Deleting goes through the trash bin in trash.tsx.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { bucket } from "./storage.tsx";
+import {
+  FileLocation,
+  FileRecord,
+  SubjectContent,
+  contentKey,
+  emptyContent,
+  fileList,
+  withContentLocks,
+  isPathShared,
+  locationPath,
+  placedFiles,
+  removeFromContent,
+  storedPaths,
+} from "./content.tsx";
+import { getLocation, removeLocations, setLocations, subjectLocations } from "./file_index.tsx";
+import { FieldErrors, ValidationError, applicableMetadata, parseMetadata, validateLocation } from "./uploads.tsx";
+
+export interface LocatedFile {
+  file: FileRecord;
+  location: FileLocation;
+  content: SubjectContent;
+}
+
+const INDEX_META_KEY = 'meta_file_index';
+let indexReady = false;
+
+const locationKey = ({ department, semester, subject }: FileLocation) => contentKey(department, semester, subject);
+
+// Index files uploaded before the index existed. Runs once per deployment.
+async function ensureIndex() {
+  if (indexReady) return;
+
+  const meta = await kv.get(INDEX_META_KEY);
+  if (!meta?.built) {
+    const current = await catalog.loadCatalog();
+    const subjects = Object.entries(current.subjects).flatMap(([department, semesters]) =>
+      Object.entries(semesters).flatMap(([semester, list]) =>
+        list.map((subject) => [department, semester, subject] as [string, string, string])
+      )
+    );
+    const contents = await Promise.all(subjects.map((s) => kv.get(contentKey(...s))));
+    const entries = subjects.flatMap((s, i) => (contents[i] ? subjectLocations(...s, contents[i]) : []));
+
+    await setLocations(entries);
+    await kv.set(INDEX_META_KEY, { built: true, builtAt: new Date().toISOString(), files: entries.length });
+    console.log(`Built file index with ${entries.length} files`);
+  }
+  indexReady = true;
+}
+
+// Find a file by id. Index entries whose record has gone are dropped.
+export async function findFile(fileId: string): Promise<LocatedFile | null> {
+  await ensureIndex();
+
+  const location = await getLocation(fileId);
+  if (!location) {
+    return null;
+  }
+
+  const content: SubjectContent | undefined = await kv.get(locationKey(location));
+  const file = content && placedFiles(content).find((placed) => placed.file.id === fileId)?.file;
+  if (!content || !file) {
+    await removeLocations([fileId]);
+    return null;
+  }
+
+  return { file, location, content };
+}
+
+// Run `task` on a file's current record while its subject's content is
+// locked, along with any `otherKeys`. The record is read again under the lock,
+// so the task never writes back a stale copy. Resolves to null when the file
+// doesn't exist.
+export async function withLockedFile<T>(
+  fileId: string,
+  task: (found: LocatedFile) => Promise<T>,
+  otherKeys: string[] = [],
+): Promise<T | null> {
+  for (;;) {
+    const located = await findFile(fileId);
+    if (!located) {
+      return null;
+    }
+    const key = locationKey(located.location);
+    const result = await withContentLocks([key, ...otherKeys], async () => {
+      const found = await findFile(fileId);
+      if (!found) {
+        return { value: null };
+      }
+      // Moved to another subject while waiting; lock that one instead
+      if (locationKey(found.location) !== key) {
+        return null;
+      }
+      return { value: await task(found) };
+    });
+    if (result) {
+      return result.value;
+    }
+  }
+}
+
+// Move a file to another subject, content type or module
+export async function moveFile(fileId: string, fields: Record<string, unknown>): Promise<{ file: FileRecord; location: FileLocation } | null> {
+  const errors: FieldErrors = {};
+  // Links can only move between link categories
+  const target = await validateLocation(fields, errors, Boolean((await findFile(fileId))?.file.url));
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+  const targetKey = locationKey(target);
+
+  // Both subjects' records are rewritten, so both are locked
+  return withLockedFile(fileId, async (found) => {
+    // Versions move along with the current object
+    const newPaths = new Map<string, string>();
+    for (const path of storedPaths(found.file)) {
+      const newPath = `${locationPath(target)}${path.split('/').pop()}`;
+      if (newPath !== path) {
+        // Linked records keep the original object, so the moved one gets a copy
+        const { error } = isPathShared(found.content, found.file, path)
+          ? await bucket().copy(path, newPath)
+          : await bucket().move(path, newPath);
+        if (error) {
+          throw new Error(`Failed to move ${path}: ${error.message}`);
+        }
+      }
+      newPaths.set(path, newPath);
+    }
+
+    await catalog.addSubject(target.department, target.semester, target.subject);
+
+    const moved: FileRecord = {
+      ...found.file,
+      path: newPaths.get(found.file.path) ?? found.file.path,
+      contentType: target.contentType,
+      module: target.module,
+      metadata: applicableMetadata(found.file.metadata, target.contentType),
+      ...(found.file.versions ? { versions: found.file.versions.map((v) => ({ ...v, path: newPaths.get(v.path)! })) } : {}),
+    };
+    if (!moved.metadata) delete moved.metadata;
+    const sourceKey = locationKey(found.location);
+    const targetContent: SubjectContent = targetKey === sourceKey ? found.content : (await kv.get(targetKey) || emptyContent());
+
+    removeFromContent(found.content, fileId);
+    fileList(targetContent, target.contentType, target.module).push(moved);
+
+    if (targetKey === sourceKey) {
+      await kv.set(sourceKey, found.content);
+    } else {
+      await kv.mset([sourceKey, targetKey], [found.content, targetContent]);
+    }
+    await setLocations([[fileId, target]]);
+
+    return { file: moved, location: target };
+  }, [targetKey]);
+}
+
+// Replace a file's paper metadata; blank fields clear it
+export async function updateMetadata(
+  fileId: string,
+  fields: Record<string, unknown>,
+): Promise<{ file: FileRecord; location: FileLocation; previous: FileRecord } | null> {
+  return withLockedFile(fileId, async (found) => {
+    const errors: FieldErrors = {};
+    const metadata = parseMetadata(fields, found.location.contentType, errors);
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    const { metadata: _, ...rest } = found.file;
+    const updated: FileRecord = { ...rest, ...(metadata ? { metadata } : {}) };
+    const list = fileList(found.content, found.location.contentType, found.location.module);
+    list[list.indexOf(found.file)] = updated;
+    await kv.set(locationKey(found.location), found.content);
+    return { file: updated, location: found.location, previous: found.file };
+  });
+}
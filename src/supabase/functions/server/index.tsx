@@ -1,8 +1,27 @@
 import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { createClient } from "npm:@supabase/supabase-js";
 import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import * as uploads from "./uploads.tsx";
+import * as files from "./files.tsx";
+import * as search from "./search.tsx";
+import * as access from "./access.tsx";
+import * as invites from "./invites.tsx";
+import * as mfa from "./mfa.tsx";
+import * as audit from "./audit.tsx";
+import * as versions from "./versions.tsx";
+import * as trash from "./trash.tsx";
+import * as zipImport from "./zip_import.tsx";
+import * as bundle from "./bundle.tsx";
+import * as students from "./students.tsx";
+import * as analytics from "./analytics.tsx";
+import * as coverage from "./coverage.tsx";
+import * as feedback from "./feedback.tsx";
+import * as contributions from "./contributions.tsx";
+import * as links from "./links.tsx";
+import { SubjectRename, contentKey, emptyContent, placedFiles } from "./content.tsx";
+import { supabase, bucket, initializeStorage } from "./storage.tsx";
 
 const app = new Hono();
 
@@ -16,82 +35,37 @@ app.use(
     origin: "*",
     allowHeaders: ["Content-Type", "Authorization"],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    exposeHeaders: ["Content-Length"],
+    exposeHeaders: ["Content-Length", "Content-Disposition"],
     maxAge: 600,
   }),
 );
 
-// Initialize Supabase client for server operations (using service role key)
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL')!,
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
-);
-
-// Create storage buckets on startup
-async function initializeStorage() {
-  const bucketName = 'make-fd1978ca-documents';
-  try {
-    const { data: buckets } = await supabase.storage.listBuckets();
-    const bucketExists = buckets?.some(bucket => bucket.name === bucketName);
-    if (!bucketExists) {
-      await supabase.storage.createBucket(bucketName, { public: false });
-      console.log(`Created storage bucket: ${bucketName}`);
-    }
-  } catch (error) {
-    console.error('Error initializing storage:', error);
-  }
-}
-
-// Initialize storage on startup
+// Initialize storage and the first admin on startup, and empty expired trash
 initializeStorage();
+access.bootstrapAdmin().catch((error) => console.error('Admin bootstrap failed:', error));
+purgeExpiredTrash().catch((error) => console.error('Trash purge failed:', error));
 
 // Health check endpoint
 app.get("/make-server-fd1978ca/health", (c) => {
   return c.json({ status: "ok" });
 });
 
-// Admin signup route (creates the admin user)
-app.post("/make-server-fd1978ca/admin/signup", async (c) => {
+// Get the full academic catalog (departments, semesters and subjects per semester)
+app.get("/make-server-fd1978ca/catalog", async (c) => {
   try {
-    const { data, error } = await supabase.auth.admin.createUser({
-      email: 'dhanush@atrianotes.com',
-      password: '2005Dhanush@',
-      user_metadata: { name: 'Dhanush', role: 'admin' },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true
-    });
-
-    if (error) {
-      // If user already exists, that's okay - just return success
-      if (error.message?.includes('email_exists') || error.message?.includes('already been registered')) {
-        return c.json({ message: 'Admin user already exists', existing: true });
-      }
-      console.error('Admin signup error:', error);
-      return c.json({ error: error.message }, 400);
-    }
-
-    return c.json({ message: 'Admin user created successfully', data });
+    const current = await catalog.loadCatalog();
+    const includeArchived = c.req.query('includeArchived') === 'true';
+    return c.json(includeArchived ? current : catalog.publicCatalog(current));
   } catch (error) {
-    console.error('Admin signup server error:', error);
-    return c.json({ error: 'Internal server error during admin signup' }, 500);
+    console.error('Error fetching catalog:', error);
+    return c.json({ error: 'Failed to fetch catalog' }, 500);
   }
 });
 
 // Get content structure (departments, semesters, subjects)
 app.get("/make-server-fd1978ca/content/structure", async (c) => {
   try {
-    const structure = await kv.get('content_structure');
-    if (!structure) {
-      // Initialize default structure
-      const defaultStructure = {
-        departments: ['CSE', 'AI&ML', 'ISE', 'CIVIL', 'MECH', 'ECE'],
-        semesters: [1, 2, 3, 4, 5, 6, 7, 8],
-        subjects: {} // Will be populated as admin adds subjects
-      };
-      await kv.set('content_structure', defaultStructure);
-      return c.json(defaultStructure);
-    }
-    return c.json(structure);
+    return c.json(await catalog.loadCatalog());
   } catch (error) {
     console.error('Error fetching content structure:', error);
     return c.json({ error: 'Failed to fetch content structure' }, 500);
@@ -103,10 +77,9 @@ app.get("/make-server-fd1978ca/content/subjects/:department/:semester", async (c
   try {
     const department = c.req.param('department');
     const semester = c.req.param('semester');
-    const key = `subjects_${department}_${semester}`;
-    
-    const subjects = await kv.get(key) || [];
-    return c.json(subjects);
+
+    const current = catalog.publicCatalog(await catalog.loadCatalog());
+    return c.json(catalog.listSubjects(current, department, semester));
   } catch (error) {
     console.error('Error fetching subjects:', error);
     return c.json({ error: 'Failed to fetch subjects' }, 500);
@@ -119,13 +92,9 @@ app.get("/make-server-fd1978ca/content/:department/:semester/:subject", async (c
     const department = c.req.param('department');
     const semester = c.req.param('semester');
     const subject = c.req.param('subject');
-    const key = `content_${department}_${semester}_${subject}`;
+    const key = contentKey(department, semester, subject);
     
-    const content = await kv.get(key) || {
-      previousYearPapers: [],
-      iaPapers: [],
-      notes: { module1: [], module2: [], module3: [], module4: [], module5: [] }
-    };
+    const content = await kv.get(key) || emptyContent();
     
     return c.json(content);
   } catch (error) {
@@ -147,364 +116,1389 @@ async function requireAuth(c: any, next: any) {
     return c.json({ error: 'Unauthorized access attempt' }, 401);
   }
 
+  // Self sign-ups can't act until they've confirmed their email
+  if (!user.email_confirmed_at) {
+    return c.json({ error: 'Confirm your email address before signing in' }, 403);
+  }
+
   c.set('user', user);
+  c.set('access', await access.loadAccess(user));
+  c.set('mfa', mfa.mfaStatus(user, accessToken));
   await next();
 }
 
+// Require a permission after requireAuth; changes also need a session that
+// passed two-factor authentication. Department limits are checked by the
+// route itself once it knows which departments a request touches.
+function requirePermission(permission: access.Permission) {
+  return async (c: any, next: any) => {
+    if (!access.hasPermission(c.get('access'), permission)) {
+      return c.json({ error: 'You do not have permission to do this' }, 403);
+    }
+    if (c.req.method !== 'GET' && c.get('mfa') !== 'verified') {
+      return c.json({ error: 'Two-factor authentication is required to make changes', mfaRequired: true }, 403);
+    }
+    await next();
+  };
+}
+
+// Throw an AccessError unless the user may act on every listed department
+const allow = (c: any, permission: access.Permission, ...departments: string[]) =>
+  access.assertAllowed(c.get('access'), permission, ...departments);
+
+type AuditChange = Pick<audit.AuditEntry, 'action' | 'target' | 'before' | 'after'>;
+
+// Proxies in front of the function append the address they saw to
+// x-forwarded-for; earlier entries come from the client and can be forged.
+// TRUSTED_PROXY_HOPS is how many of those proxies there are.
+const TRUSTED_PROXY_HOPS = Number(Deno.env.get('TRUSTED_PROXY_HOPS')) || 1;
+
+const clientIp = (c: any): string | null => {
+  const hops = (c.req.header('x-forwarded-for') ?? '').split(',').map((hop: string) => hop.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] ?? null;
+};
+
+// Record a change made by the signed-in user (or `actor`, for routes without a session)
+function recordAudit(c: any, change: AuditChange, actor?: audit.AuditEntry['actor']) {
+  const user = c.get('user');
+  return audit.record({
+    actor: actor ?? { userId: user.id, email: user.email ?? '' },
+    ip: clientIp(c),
+    ...change,
+  });
+}
+
+const subjectLabel = (department: string, semester: string | number, subject: string) =>
+  `${department} Sem ${semester} ${subject}`;
+
+// The signed-in user's role, permissions, departments and two-factor status
+app.get("/make-server-fd1978ca/admin/me", requireAuth, (c) => {
+  return c.json({ ...c.get('access'), mfa: c.get('mfa') });
+});
+
+// Issue new recovery codes; only from a session that passed two-factor authentication
+app.post("/make-server-fd1978ca/admin/mfa/recovery-codes", requireAuth, async (c) => {
+  try {
+    if (c.get('mfa') !== 'verified') {
+      return c.json({ error: 'Verify a two-factor code first', mfaRequired: true }, 403);
+    }
+    const codes = await mfa.createRecoveryCodes(c.get('user').id);
+    await recordAudit(c, {
+      action: 'account.recovery-codes',
+      target: { type: 'account', id: c.get('user').id, label: c.get('user').email ?? '' },
+      after: { count: codes.length },
+    });
+    return c.json({ codes });
+  } catch (error) {
+    console.error('Error creating recovery codes:', error);
+    return c.json({ error: 'Failed to create recovery codes' }, 500);
+  }
+});
+
+// Use a recovery code instead of the authenticator; removes the enrolled factor
+app.post("/make-server-fd1978ca/admin/mfa/recover", requireAuth, async (c) => {
+  try {
+    const { code } = await c.req.json();
+    await mfa.redeemRecoveryCode(c.get('user').id, code);
+    await recordAudit(c, {
+      action: 'account.recover',
+      target: { type: 'account', id: c.get('user').id, label: c.get('user').email ?? '' },
+    });
+    return c.json({ message: 'Recovery code accepted. Set up two-factor authentication again.' });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Recovery code server error:', error);
+    return c.json({ error: 'Internal server error during recovery' }, 500);
+  }
+});
+
+// List users with a role
+app.get("/make-server-fd1978ca/admin/roles", requireAuth, requirePermission('roles:manage'), async (c) => {
+  try {
+    return c.json({ roles: await access.listRoles() });
+  } catch (error) {
+    console.error('Error listing roles:', error);
+    return c.json({ error: 'Failed to list roles' }, 500);
+  }
+});
+
+// List pending invites
+app.get("/make-server-fd1978ca/admin/invites", requireAuth, requirePermission('roles:manage'), async (c) => {
+  try {
+    return c.json({ invites: await invites.listInvites() });
+  } catch (error) {
+    console.error('Error listing invites:', error);
+    return c.json({ error: 'Failed to list invites' }, 500);
+  }
+});
+
+// Invite an admin or moderator; the token is only ever returned here
+app.post("/make-server-fd1978ca/admin/invites", requireAuth, requirePermission('roles:manage'), async (c) => {
+  try {
+    const current = await catalog.loadCatalog();
+    const { invite, token } = await invites.createInvite(await c.req.json(), current.departments, c.get('access').email);
+    await recordAudit(c, {
+      action: 'invite.create',
+      target: { type: 'invite', id: invite.id, label: invite.email },
+      after: { email: invite.email, role: invite.role, departments: invite.departments, expiresAt: invite.expiresAt },
+    });
+    return c.json({ message: 'Invite created successfully', invite, token });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Create invite server error:', error);
+    return c.json({ error: 'Internal server error during invite creation' }, 500);
+  }
+});
+
+// Revoke a pending invite
+app.delete("/make-server-fd1978ca/admin/invites/:id", requireAuth, requirePermission('roles:manage'), async (c) => {
+  try {
+    const revoked = await invites.revokeInvite(c.req.param('id'));
+    await recordAudit(c, {
+      action: 'invite.revoke',
+      target: { type: 'invite', id: revoked.id, label: revoked.email },
+      before: { email: revoked.email, role: revoked.role, departments: revoked.departments },
+    });
+    return c.json({ message: 'Invite revoked successfully' });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Revoke invite server error:', error);
+    return c.json({ error: 'Internal server error during invite revocation' }, 500);
+  }
+});
+
+// Look up an invite for the accept screen
+app.get("/make-server-fd1978ca/invites/:token", async (c) => {
+  try {
+    const { email, role, departments, expiresAt } = await invites.findInvite(c.req.param('token'));
+    return c.json({ email, role, departments, expiresAt });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Error fetching invite:', error);
+    return c.json({ error: 'Failed to fetch invite' }, 500);
+  }
+});
+
+// Accept an invite by choosing a password
+app.post("/make-server-fd1978ca/invites/:token/accept", async (c) => {
+  try {
+    const { password } = await c.req.json();
+    const role = await invites.acceptInvite(c.req.param('token'), password);
+    await recordAudit(c, {
+      action: 'invite.accept',
+      target: { type: 'role', id: role.userId, label: role.email },
+      after: { role: role.role, departments: role.departments },
+    }, { userId: role.userId, email: role.email });
+    return c.json({ message: 'Account created successfully', email: role.email });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Accept invite server error:', error);
+    return c.json({ error: 'Internal server error during invite acceptance' }, 500);
+  }
+});
+
+// Change a user's role and departments
+app.put("/make-server-fd1978ca/admin/roles/:userId", requireAuth, requirePermission('roles:manage'), async (c) => {
+  try {
+    const current = await catalog.loadCatalog();
+    const before = (await access.listRoles()).find((record) => record.userId === c.req.param('userId'));
+    const role = await access.setRole(c.req.param('userId'), await c.req.json(), current.departments);
+    await recordAudit(c, {
+      action: 'role.update',
+      target: { type: 'role', id: role.userId, label: role.email },
+      before: before && { role: before.role, departments: before.departments },
+      after: { role: role.role, departments: role.departments },
+    });
+    return c.json({ message: 'Role updated successfully', role });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Update role server error:', error);
+    return c.json({ error: 'Internal server error during role update' }, 500);
+  }
+});
+
+// Report a student account error, or log and hide anything else
+function studentFailure(c: any, error: unknown, label: string, failure: string) {
+  if (error instanceof students.StudentError) {
+    return c.json({ error: error.message, fieldErrors: error.fieldErrors }, error.status);
+  }
+  console.error(`${label} server error:`, error);
+  return c.json({ error: failure }, 500);
+}
+
+// Create a student account with its profile; the client then signs in
+app.post("/make-server-fd1978ca/student/signup", async (c) => {
+  try {
+    const profile = await students.signUp(await c.req.json());
+    return c.json({ message: `Account created. Follow the link we sent to ${profile.email} to confirm it, then sign in.`, profile });
+  } catch (error) {
+    return studentFailure(c, error, 'Student sign-up', 'Internal server error during sign-up');
+  }
+});
+
+// The signed-in student's profile, or null before one is saved
+app.get("/make-server-fd1978ca/student/profile", requireAuth, async (c) => {
+  try {
+    return c.json({ profile: await students.getProfile(c.get('user').id) });
+  } catch (error) {
+    return studentFailure(c, error, 'Student profile', 'Failed to fetch profile');
+  }
+});
+
+app.put("/make-server-fd1978ca/student/profile", requireAuth, async (c) => {
+  try {
+    const user = c.get('user');
+    const profile = await students.saveProfile(user.id, user.email ?? '', await c.req.json());
+    return c.json({ message: 'Profile saved successfully', profile });
+  } catch (error) {
+    return studentFailure(c, error, 'Student profile update', 'Internal server error while saving profile');
+  }
+});
+
+app.get("/make-server-fd1978ca/student/bookmarks", requireAuth, async (c) => {
+  try {
+    return c.json(await students.listBookmarks(c.get('user').id));
+  } catch (error) {
+    return studentFailure(c, error, 'Bookmarks', 'Failed to fetch bookmarks');
+  }
+});
+
+app.put("/make-server-fd1978ca/student/bookmarks/files/:fileId", requireAuth, async (c) => {
+  try {
+    await students.starFile(c.get('user').id, c.req.param('fileId'));
+    return c.json(await students.listBookmarks(c.get('user').id));
+  } catch (error) {
+    return studentFailure(c, error, 'Bookmark file', 'Failed to bookmark file');
+  }
+});
+
+app.delete("/make-server-fd1978ca/student/bookmarks/files/:fileId", requireAuth, async (c) => {
+  try {
+    await students.unstarFile(c.get('user').id, c.req.param('fileId'));
+    return c.json(await students.listBookmarks(c.get('user').id));
+  } catch (error) {
+    return studentFailure(c, error, 'Remove file bookmark', 'Failed to remove bookmark');
+  }
+});
+
+app.put("/make-server-fd1978ca/student/bookmarks/subjects/:department/:semester/:subject", requireAuth, async (c) => {
+  try {
+    const { department, semester, subject } = c.req.param();
+    await students.starSubject(c.get('user').id, department, semester, subject);
+    return c.json(await students.listBookmarks(c.get('user').id));
+  } catch (error) {
+    return studentFailure(c, error, 'Bookmark subject', 'Failed to bookmark subject');
+  }
+});
+
+app.delete("/make-server-fd1978ca/student/bookmarks/subjects/:department/:semester/:subject", requireAuth, async (c) => {
+  try {
+    const { department, semester, subject } = c.req.param();
+    await students.unstarSubject(c.get('user').id, department, semester, subject);
+    return c.json(await students.listBookmarks(c.get('user').id));
+  } catch (error) {
+    return studentFailure(c, error, 'Remove subject bookmark', 'Failed to remove bookmark');
+  }
+});
+
+// Report a contribution error, or log and hide anything else
+function contributionFailure(c: any, error: unknown, label: string, failure: string) {
+  if (error instanceof contributions.ContributionError) {
+    return c.json({ error: error.message }, error.status);
+  }
+  if (error instanceof access.AccessError) {
+    return c.json({ error: error.message }, error.status);
+  }
+  if (error instanceof uploads.ValidationError) {
+    return c.json({ error: 'Invalid contribution', fieldErrors: error.fieldErrors }, 400);
+  }
+  if (error instanceof uploads.DuplicateFileError) {
+    return c.json({ error: error.message, duplicate: { file: error.existing, ...error.placement } }, 409);
+  }
+  console.error(`${label} server error:`, error);
+  return c.json({ error: failure }, 500);
+}
+
+// Submit a file for the moderators to review, with the same fields as an upload
+app.post("/make-server-fd1978ca/student/contributions", requireAuth, async (c) => {
+  try {
+    const user = c.get('user');
+    const email = user.email ?? '';
+    const contribution = await contributions.submit(await c.req.formData(), {
+      userId: user.id,
+      email,
+      name: await students.displayName(user.id, email),
+    });
+    return c.json({ message: 'Thanks! Your file will be published once a moderator approves it', contribution });
+  } catch (error) {
+    return contributionFailure(c, error, 'Submit contribution', 'Internal server error while submitting file');
+  }
+});
+
+app.get("/make-server-fd1978ca/student/contributions", requireAuth, async (c) => {
+  try {
+    return c.json({ contributions: await contributions.listMine(c.get('user').id) });
+  } catch (error) {
+    return contributionFailure(c, error, 'Student contributions', 'Failed to fetch contributions');
+  }
+});
+
 // Add new subject route
-app.post("/make-server-fd1978ca/subjects", requireAuth, async (c) => {
+app.post("/make-server-fd1978ca/subjects", requireAuth, requirePermission('catalog:subjects'), async (c) => {
   try {
-    const { department, semester, subject } = await c.req.json();
+    const body = await c.req.json();
+    const { department, semester } = body;
+    const subject = body.subject?.trim();
     
     if (!department || !semester || !subject) {
       return c.json({ error: 'Missing required fields' }, 400);
     }
+    allow(c, 'catalog:subjects', department);
 
-    const subjectsKey = `subjects_${department}_${semester}`;
-    const existingSubjects = await kv.get(subjectsKey) || [];
-    
-    if (!existingSubjects.includes(subject)) {
-      existingSubjects.push(subject);
-      await kv.set(subjectsKey, existingSubjects);
+    const current = await catalog.loadCatalog();
+    if (!catalog.hasDepartment(current, department) || !catalog.hasSemester(current, semester)) {
+      return c.json({ error: 'Unknown department or semester' }, 400);
     }
 
-    return c.json({ message: 'Subject added successfully' });
+    const added = await catalog.addSubject(department, semester, subject);
+    if (added) {
+      await recordAudit(c, {
+        action: 'subject.add',
+        target: { type: 'subject', label: subjectLabel(department, semester, subject), department },
+        after: { department, semester, subject },
+      });
+    }
+
+    return c.json({ message: added ? 'Subject added successfully' : 'Subject already exists', subject });
   } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
     console.error('Add subject server error:', error);
     return c.json({ error: 'Internal server error during subject addition' }, 500);
   }
 });
 
-// Upload file (compatibility route)
-app.post("/make-server-fd1978ca/upload", requireAuth, async (c) => {
+// Contributions, reports, bookmarks and usage counts name their subject, so
+// they follow a department or subject rename
+async function relocateSubjects(rename: SubjectRename) {
+  await contributions.relocateSubjects(rename);
+  await feedback.relocateSubjects(rename);
+  await students.relocateSubjects(rename);
+  await analytics.relocateSubjects(rename);
+}
+
+// Run a catalog mutation, returning the updated catalog or the CatalogError it
+// raised. `describe` builds the audit entry from the request and the catalog
+// as it was before the change.
+async function catalogMutation(
+  c: any,
+  mutate: (body: any) => Promise<catalog.Catalog>,
+  failure: string,
+  describe: (body: any, previous: catalog.Catalog) => AuditChange,
+) {
   try {
-    const formData = await c.req.formData();
-    const file = formData.get('file') as File;
-    const department = formData.get('department') as string;
-    const semester = formData.get('semester') as string;
-    const subject = formData.get('subject') as string;
-    const contentType = formData.get('contentType') as string; // 'previousYearPaper', 'iaPaper', 'notes'
-    const module = formData.get('module') as string; // for notes only
-
-    if (!file || !department || !semester || !subject || !contentType) {
-      return c.json({ error: 'Missing required fields' }, 400);
+    const body = c.req.method === 'DELETE' ? {} : await c.req.json();
+    const previous = await catalog.loadCatalog();
+    const updated = await mutate(body);
+    await recordAudit(c, describe(body, previous));
+    return c.json(updated);
+  } catch (error) {
+    if (error instanceof catalog.CatalogError || error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
     }
+    console.error(`${failure}:`, error);
+    return c.json({ error: `Internal server error: ${failure.toLowerCase()}` }, 500);
+  }
+}
 
-    // Create file path
-    const fileName = `${Date.now()}_${file.name}`;
-    const filePath = `${department}/${semester}/${subject}/${contentType}/${module ? `module${module}/` : ''}${fileName}`;
+// Add a department
+app.post("/make-server-fd1978ca/admin/catalog/departments", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  return catalogMutation(c, ({ name }) => catalog.addDepartment(name), 'Failed to add department', ({ name }) => ({
+    action: 'department.add',
+    target: { type: 'department', label: String(name).trim(), department: String(name).trim() },
+    after: { name: String(name).trim() },
+  }));
+});
 
-    // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from('make-fd1978ca-documents')
-      .upload(filePath, file);
+// Reorder departments
+app.put("/make-server-fd1978ca/admin/catalog/departments", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  return catalogMutation(c, ({ order }) => catalog.reorderDepartments(order), 'Failed to reorder departments', ({ order }, previous) => ({
+    action: 'department.reorder',
+    target: { type: 'department', label: 'All departments' },
+    before: { order: previous.departments },
+    after: { order },
+  }));
+});
 
-    if (error) {
-      console.error('File upload error:', error);
-      return c.json({ error: 'Failed to upload file' }, 500);
+// Rename and/or archive a department
+app.put("/make-server-fd1978ca/admin/catalog/departments/:department", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  const department = c.req.param('department');
+  return catalogMutation(c, async ({ name, archived }) => {
+    let updated = await catalog.loadCatalog();
+    if (typeof archived === 'boolean') {
+      updated = await catalog.setDepartmentArchived(department, archived);
     }
-
-    // Add to subject if it doesn't exist
-    const subjectsKey = `subjects_${department}_${semester}`;
-    const existingSubjects = await kv.get(subjectsKey) || [];
-    if (!existingSubjects.includes(subject)) {
-      existingSubjects.push(subject);
-      await kv.set(subjectsKey, existingSubjects);
+    if (name !== undefined && String(name).trim() !== department) {
+      updated = await catalog.renameDepartment(department, name);
+      await relocateSubjects(catalog.departmentRename(department, String(name).trim()));
     }
+    return updated;
+  }, 'Failed to update department', ({ name, archived }, previous) => ({
+    action: name !== undefined && String(name).trim() !== department ? 'department.rename' : 'department.archive',
+    target: { type: 'department', label: department, department },
+    before: { name: department, archived: previous.archivedDepartments.includes(department) },
+    after: {
+      name: name !== undefined ? String(name).trim() : department,
+      archived: typeof archived === 'boolean' ? archived : previous.archivedDepartments.includes(department),
+    },
+  }));
+});
 
-    // Update content structure
-    const contentKey = `content_${department}_${semester}_${subject}`;
-    const existingContent = await kv.get(contentKey) || {
-      previousYearPapers: [],
-      iaPapers: [],
-      notes: { module1: [], module2: [], module3: [], module4: [], module5: [] }
-    };
+// Delete an empty department
+app.delete("/make-server-fd1978ca/admin/catalog/departments/:department", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  const department = c.req.param('department');
+  return catalogMutation(c, () => catalog.deleteDepartment(department), 'Failed to delete department', () => ({
+    action: 'department.delete',
+    target: { type: 'department', label: department, department },
+    before: { name: department },
+  }));
+});
 
-    const fileRecord = {
-      id: Date.now().toString(),
-      name: file.name,
-      path: filePath,
-      uploadedAt: new Date().toISOString()
-    };
+// Add a semester (e.g. for lateral-entry or longer programs)
+app.post("/make-server-fd1978ca/admin/catalog/semesters", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  return catalogMutation(c, ({ semester }) => catalog.addSemester(semester), 'Failed to add semester', ({ semester }) => ({
+    action: 'semester.add',
+    target: { type: 'semester', label: `Semester ${semester}` },
+    after: { semester: Number(semester) },
+  }));
+});
+
+// Delete a semester that has no subjects
+app.delete("/make-server-fd1978ca/admin/catalog/semesters/:semester", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  const semester = c.req.param('semester');
+  return catalogMutation(c, () => catalog.deleteSemester(semester), 'Failed to delete semester', () => ({
+    action: 'semester.delete',
+    target: { type: 'semester', label: `Semester ${semester}` },
+    before: { semester: Number(semester) },
+  }));
+});
+
+// Add a content category that subjects can offer
+app.post("/make-server-fd1978ca/admin/catalog/categories", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  return catalogMutation(c, ({ label, modular, links }) => catalog.addCategory(label, modular, links), 'Failed to add category', ({ label, modular, links }) => ({
+    action: 'category.add',
+    target: { type: 'category', label: String(label).trim() },
+    after: { label: String(label).trim(), modular: modular === true, links: links === true },
+  }));
+});
+
+// Rename a content category
+app.put("/make-server-fd1978ca/admin/catalog/categories/:id", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  const id = c.req.param('id');
+  return catalogMutation(c, ({ label }) => catalog.renameCategory(id, label), 'Failed to rename category', ({ label }, previous) => ({
+    action: 'category.rename',
+    target: { type: 'category', id, label: String(label).trim() },
+    before: { label: catalog.findCategory(previous, id)?.label },
+    after: { label: String(label).trim() },
+  }));
+});
+
+// Delete a content category that no subject offers
+app.delete("/make-server-fd1978ca/admin/catalog/categories/:id", requireAuth, requirePermission('catalog:structure'), async (c) => {
+  const id = c.req.param('id');
+  return catalogMutation(c, () => catalog.deleteCategory(id), 'Failed to delete category', (_body, previous) => ({
+    action: 'category.delete',
+    target: { type: 'category', id, label: catalog.findCategory(previous, id)?.label ?? id },
+    before: catalog.findCategory(previous, id),
+  }));
+});
+
+// Add a subject to a department/semester
+app.post("/make-server-fd1978ca/admin/catalog/subjects/:department/:semester", requireAuth, requirePermission('catalog:subjects'), async (c) => {
+  const department = c.req.param('department');
+  const semester = c.req.param('semester');
+  return catalogMutation(c, async ({ name }) => {
+    allow(c, 'catalog:subjects', department);
+    return catalog.createSubject(department, semester, name);
+  }, 'Failed to add subject', ({ name }) => ({
+    action: 'subject.add',
+    target: { type: 'subject', label: subjectLabel(department, semester, String(name).trim()), department },
+    after: { department, semester, subject: String(name).trim() },
+  }));
+});
 
-    if (contentType === 'previousYearPaper') {
-      existingContent.previousYearPapers.push(fileRecord);
-    } else if (contentType === 'iaPaper') {
-      existingContent.iaPapers.push(fileRecord);
-    } else if (contentType === 'notes' && module) {
-      existingContent.notes[`module${module}`].push(fileRecord);
+// Reorder the subjects of a department/semester
+app.put("/make-server-fd1978ca/admin/catalog/subjects/:department/:semester", requireAuth, requirePermission('catalog:subjects'), async (c) => {
+  const department = c.req.param('department');
+  const semester = c.req.param('semester');
+  return catalogMutation(c, async ({ order }) => {
+    allow(c, 'catalog:subjects', department);
+    return catalog.reorderSubjects(department, semester, order);
+  }, 'Failed to reorder subjects', ({ order }, previous) => ({
+    action: 'subject.reorder',
+    target: { type: 'subject', label: `${department} Sem ${semester}`, department },
+    before: { order: catalog.listSubjects(previous, department, semester) },
+    after: { order },
+  }));
+});
+
+// Rename and/or archive a subject
+app.put("/make-server-fd1978ca/admin/catalog/subjects/:department/:semester/:subject", requireAuth, requirePermission('catalog:subjects'), async (c) => {
+  const department = c.req.param('department');
+  const semester = c.req.param('semester');
+  const subject = c.req.param('subject');
+  return catalogMutation(c, async ({ name, archived }) => {
+    allow(c, 'catalog:subjects', department);
+    let updated = await catalog.loadCatalog();
+    if (typeof archived === 'boolean') {
+      updated = await catalog.setSubjectArchived(department, semester, subject, archived);
     }
+    if (name !== undefined && String(name).trim() !== subject) {
+      updated = await catalog.renameSubject(department, semester, subject, name);
+      await relocateSubjects(catalog.subjectRename(department, semester, subject, String(name).trim()));
+    }
+    return updated;
+  }, 'Failed to update subject', ({ name, archived }, previous) => {
+    const wasArchived = previous.archivedSubjects[department]?.[semester]?.includes(subject) ?? false;
+    return {
+      action: name !== undefined && String(name).trim() !== subject ? 'subject.rename' : 'subject.archive',
+      target: { type: 'subject', label: subjectLabel(department, semester, subject), department },
+      before: { subject, archived: wasArchived },
+      after: {
+        subject: name !== undefined ? String(name).trim() : subject,
+        archived: typeof archived === 'boolean' ? archived : wasArchived,
+      },
+    };
+  });
+});
+
+// Set the categories a subject offers and its number of modules
+app.put("/make-server-fd1978ca/admin/catalog/subjects/:department/:semester/:subject/layout", requireAuth, requirePermission('catalog:subjects'), async (c) => {
+  const department = c.req.param('department');
+  const semester = c.req.param('semester');
+  const subject = c.req.param('subject');
+  return catalogMutation(c, async (layout) => {
+    allow(c, 'catalog:subjects', department);
+    return catalog.setSubjectLayout(department, semester, subject, layout);
+  }, 'Failed to update subject layout', ({ categories, modules }, previous) => ({
+    action: 'subject.layout',
+    target: { type: 'subject', label: subjectLabel(department, semester, subject), department },
+    before: catalog.subjectLayout(previous, department, semester, subject),
+    after: { categories, modules: Number(modules) },
+  }));
+});
 
-    await kv.set(contentKey, existingContent);
+// Delete a subject, moving its files to the trash
+app.delete("/make-server-fd1978ca/admin/catalog/subjects/:department/:semester/:subject", requireAuth, requirePermission('catalog:subjects'), async (c) => {
+  const department = c.req.param('department');
+  const semester = c.req.param('semester');
+  const subject = c.req.param('subject');
+  return catalogMutation(c, async () => {
+    allow(c, 'catalog:subjects', department);
+    await trash.trashSubject(department, semester, subject, c.get('user').email ?? '');
+    return catalog.deleteSubject(department, semester, subject);
+  }, 'Failed to delete subject', () => ({
+    action: 'subject.delete',
+    target: { type: 'subject', label: subjectLabel(department, semester, subject), department },
+    before: { department, semester, subject },
+  }));
+});
 
+// Validate and store an uploaded file; invalid fields are reported individually
+async function uploadRoute(c: any) {
+  try {
+    const formData = await c.req.formData();
+    allow(c, 'files:upload', String(formData.get('department') ?? ''));
+    const fileRecord = await uploads.handleUpload(formData);
+    const department = String(formData.get('department'));
+    await recordAudit(c, {
+      action: 'file.upload',
+      target: { type: 'file', id: fileRecord.id, label: fileRecord.name, department },
+      after: {
+        file: fileRecord,
+        location: {
+          department,
+          semester: String(formData.get('semester')),
+          subject: String(formData.get('subject')),
+          contentType: String(formData.get('contentType')),
+          module: formData.get('module') ? Number(formData.get('module')) : undefined,
+        },
+      },
+    });
     return c.json({ message: 'File uploaded successfully', fileRecord });
   } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    if (error instanceof uploads.ValidationError) {
+      return c.json({ error: 'Invalid upload', fieldErrors: error.fieldErrors }, 400);
+    }
+    if (error instanceof uploads.DuplicateFileError) {
+      return c.json({
+        error: error.message,
+        duplicate: { file: error.existing, ...error.placement },
+        canLink: error.canLink,
+      }, 409);
+    }
     console.error('Upload server error:', error);
     return c.json({ error: 'Internal server error during file upload' }, 500);
   }
-});
+}
+
+// Upload file (compatibility route)
+app.post("/make-server-fd1978ca/upload", requireAuth, requirePermission('files:upload'), uploadRoute);
 
 // Admin upload file
-app.post("/make-server-fd1978ca/admin/upload", requireAuth, async (c) => {
+app.post("/make-server-fd1978ca/admin/upload", requireAuth, requirePermission('files:upload'), uploadRoute);
+
+// Add a web link, e.g. a lecture video, to a link category
+app.post("/make-server-fd1978ca/admin/links", requireAuth, requirePermission('files:upload'), async (c) => {
   try {
-    const formData = await c.req.formData();
-    const file = formData.get('file') as File;
-    const department = formData.get('department') as string;
-    const semester = formData.get('semester') as string;
-    const subject = formData.get('subject') as string;
-    const contentType = formData.get('contentType') as string; // 'previousYearPaper', 'iaPaper', 'notes'
-    const module = formData.get('module') as string; // for notes only
-
-    if (!file || !department || !semester || !subject || !contentType) {
-      return c.json({ error: 'Missing required fields' }, 400);
+    const body = await c.req.json();
+    allow(c, 'files:upload', String(body.department ?? ''));
+    const fileRecord = await links.addLink(body);
+    const { department, semester, subject, contentType, module } = body;
+    await recordAudit(c, {
+      action: 'file.upload',
+      target: { type: 'file', id: fileRecord.id, label: fileRecord.name, department: String(department) },
+      after: { file: fileRecord, location: { department, semester: String(semester), subject, contentType, module: module ? Number(module) : undefined } },
+    });
+    return c.json({ message: 'Link added successfully', fileRecord });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    if (error instanceof uploads.ValidationError) {
+      return c.json({ error: 'Invalid link', fieldErrors: error.fieldErrors }, 400);
     }
+    console.error('Add link server error:', error);
+    return c.json({ error: 'Internal server error while adding the link' }, 500);
+  }
+});
 
-    // Create file path
-    const fileName = `${Date.now()}_${file.name}`;
-    const filePath = `${department}/${semester}/${subject}/${contentType}/${module ? `module${module}/` : ''}${fileName}`;
+// Supabase's runtime keeps the function alive for work handed to waitUntil
+// after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
-    // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from('make-fd1978ca-documents')
-      .upload(filePath, file);
+// Short-lived signed URL for a stored object (1 hour expiry)
+async function signedUrl(path: string): Promise<string> {
+  const { data, error } = await bucket().createSignedUrl(path, 3600);
+  if (error || !data) {
+    throw new Error(`Failed to sign ${path}: ${error?.message}`);
+  }
+  return data.signedUrl;
+}
 
-    if (error) {
-      console.error('File upload error:', error);
-      return c.json({ error: 'Failed to upload file' }, 500);
+// Get download URL for a published file (POST method for backward compatibility).
+// Only a live record's current object is signed, never a caller's path.
+app.post("/make-server-fd1978ca/download", async (c) => {
+  try {
+    const { fileId, event } = await c.req.json();
+    const found = typeof fileId === 'string' ? await files.findFile(fileId) : null;
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
     }
+    const url = found.file.url ?? await signedUrl(found.file.path);
 
-    // Add to subject if it doesn't exist
-    const subjectsKey = `subjects_${department}_${semester}`;
-    const existingSubjects = await kv.get(subjectsKey) || [];
-    if (!existingSubjects.includes(subject)) {
-      existingSubjects.push(subject);
-      await kv.set(subjectsKey, existingSubjects);
+    // Student downloads and previews are counted once per client, file and
+    // day, without holding up the response
+    if (analytics.USAGE_EVENTS.includes(event)) {
+      EdgeRuntime.waitUntil(analytics.recordEvent(fileId, found.location, event, clientIp(c)));
     }
 
-    // Update content structure
-    const contentKey = `content_${department}_${semester}_${subject}`;
-    const existingContent = await kv.get(contentKey) || {
-      previousYearPapers: [],
-      iaPapers: [],
-      notes: { module1: [], module2: [], module3: [], module4: [], module5: [] }
-    };
+    return c.json({ url });
+  } catch (error) {
+    console.error('Download URL server error:', error);
+    return c.json({ error: 'Internal server error during download URL creation' }, 500);
+  }
+});
 
-    const fileRecord = {
-      id: Date.now().toString(),
-      name: file.name,
-      path: filePath,
-      uploadedAt: new Date().toISOString()
-    };
+// Get download URL for a published file
+app.get("/make-server-fd1978ca/download/:fileId", async (c) => {
+  try {
+    const found = await files.findFile(c.req.param('fileId'));
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    return c.json({ url: found.file.url ?? await signedUrl(found.file.path) });
+  } catch (error) {
+    console.error('Download URL server error:', error);
+    return c.json({ error: 'Internal server error during download URL creation' }, 500);
+  }
+});
+
+// Download a subject, or one content type or module of it, as a ZIP with a manifest
+app.get("/make-server-fd1978ca/bundle/:department/:semester/:subject", async (c) => {
+  try {
+    const department = c.req.param('department');
+    const semester = c.req.param('semester');
+    const subject = c.req.param('subject');
+    const contentType = c.req.query('contentType') || undefined;
+    const module = c.req.query('module') ? Number(c.req.query('module')) : undefined;
+    const fileIds = c.req.query('ids')?.split(',').filter(Boolean);
 
-    if (contentType === 'previousYearPaper') {
-      existingContent.previousYearPapers.push(fileRecord);
-    } else if (contentType === 'iaPaper') {
-      existingContent.iaPapers.push(fileRecord);
-    } else if (contentType === 'notes' && module) {
-      existingContent.notes[`module${module}`].push(fileRecord);
+    const visible = catalog.publicCatalog(await catalog.loadCatalog());
+    if (!catalog.listSubjects(visible, department, semester).includes(subject)) {
+      return c.json({ error: 'Subject not found' }, 404);
+    }
+    const layout = catalog.subjectLayout(visible, department, semester, subject);
+    if (contentType && !layout.categories.includes(contentType)) {
+      return c.json({ error: `Content type must be one of ${layout.categories.join(', ')}` }, 400);
+    }
+    const modular = contentType ? catalog.findCategory(visible, contentType)?.modular : false;
+    if (module !== undefined && (!modular || !Number.isInteger(module) || module < 1)) {
+      return c.json({ error: 'Modules can only be bundled from categories filed by module' }, 400);
     }
 
-    await kv.set(contentKey, existingContent);
+    const scope: bundle.BundleScope = { department, semester, subject, contentType, module, fileIds };
+    const entries = bundle.bundleEntries(await kv.get(contentKey(department, semester, subject)) || emptyContent(), scope, visible.categories);
+    if (entries.length === 0) {
+      return c.json({ error: 'There are no files to download here yet' }, 404);
+    }
 
-    return c.json({ message: 'File uploaded successfully', fileRecord });
+    return c.body(bundle.bundleStream(scope, entries), 200, {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(bundle.bundleName(scope, visible.categories))}`,
+    });
   } catch (error) {
-    console.error('Upload server error:', error);
-    return c.json({ error: 'Internal server error during file upload' }, 500);
+    console.error('Bundle server error:', error);
+    return c.json({ error: 'Internal server error while creating the download' }, 500);
   }
 });
 
-// Get download URL for a file (POST method for backward compatibility)
-app.post("/make-server-fd1978ca/download", async (c) => {
+// Search file names, subject metadata and extracted text
+app.get("/make-server-fd1978ca/search", async (c) => {
   try {
-    const { filePath } = await c.req.json();
-    
-    const { data, error } = await supabase.storage
-      .from('make-fd1978ca-documents')
-      .createSignedUrl(filePath, 3600); // 1 hour expiry
+    const query = c.req.query('q') ?? '';
+    const visible = catalog.publicCatalog(await catalog.loadCatalog());
+    const results = await search.search(query, visible, {
+      department: c.req.query('department') || undefined,
+      semester: c.req.query('semester') || undefined,
+    });
+    return c.json(results);
+  } catch (error) {
+    console.error('Search server error:', error);
+    return c.json({ error: 'Internal server error during search' }, 500);
+  }
+});
 
-    if (error) {
-      console.error('Error creating signed URL:', error);
-      return c.json({ error: 'Failed to create download URL' }, 500);
+// Index files that were uploaded before search existed
+app.post("/make-server-fd1978ca/admin/search/reindex", requireAuth, requirePermission('search:reindex'), async (c) => {
+  try {
+    const indexed = await search.indexMissingDocuments();
+    await recordAudit(c, { action: 'search.reindex', target: { type: 'search', label: 'Search index' }, after: { indexed } });
+    return c.json({ message: `Indexed ${indexed} files`, indexed });
+  } catch (error) {
+    console.error('Search reindex server error:', error);
+    return c.json({ error: 'Internal server error during search reindex' }, 500);
+  }
+});
+
+// Look up a file and its location by id
+app.get("/make-server-fd1978ca/files/:fileId", async (c) => {
+  try {
+    const found = await files.findFile(c.req.param('fileId'));
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
     }
+    return c.json({ file: found.file, location: found.location });
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    return c.json({ error: 'Failed to fetch file' }, 500);
+  }
+});
+
+// Report a feedback error, or log and hide anything else
+function feedbackFailure(c: any, error: unknown, label: string, failure: string) {
+  if (error instanceof feedback.FeedbackError) {
+    return c.json({ error: error.message }, error.status);
+  }
+  console.error(`${label} server error:`, error);
+  return c.json({ error: failure }, 500);
+}
 
-    return c.json({ url: data.signedUrl });
+// The signed-in user on public routes, or null for anonymous or unconfirmed requests
+async function optionalUser(c: any) {
+  const accessToken = c.req.header('Authorization')?.split(' ')[1];
+  if (!accessToken) return null;
+  const { data: { user } } = await supabase.auth.getUser(accessToken);
+  return user?.email_confirmed_at ? user : null;
+}
+
+// Rating summaries for every file of a subject, keyed by file id
+app.get("/make-server-fd1978ca/content/:department/:semester/:subject/feedback", async (c) => {
+  try {
+    const content = await kv.get(contentKey(c.req.param('department'), c.req.param('semester'), c.req.param('subject')));
+    return c.json(await feedback.summaries(placedFiles(content ?? emptyContent()).map(({ file }) => file.id)));
   } catch (error) {
-    console.error('Download URL server error:', error);
-    return c.json({ error: 'Internal server error during download URL creation' }, 500);
+    return feedbackFailure(c, error, 'Subject feedback', 'Failed to fetch ratings');
   }
 });
 
-// Get download URL for a file
-app.get("/make-server-fd1978ca/download/:filePath", async (c) => {
+// A file's ratings and comments, with the signed-in student's own rating
+app.get("/make-server-fd1978ca/files/:fileId/feedback", async (c) => {
   try {
-    const filePath = decodeURIComponent(c.req.param('filePath'));
-    
-    const { data, error } = await supabase.storage
-      .from('make-fd1978ca-documents')
-      .createSignedUrl(filePath, 3600); // 1 hour expiry
+    const user = await optionalUser(c);
+    return c.json(await feedback.getFeedback(c.req.param('fileId'), user?.id));
+  } catch (error) {
+    return feedbackFailure(c, error, 'File feedback', 'Failed to fetch feedback');
+  }
+});
+
+app.put("/make-server-fd1978ca/files/:fileId/rating", requireAuth, async (c) => {
+  try {
+    const { rating } = await c.req.json();
+    return c.json(await feedback.rateFile(c.req.param('fileId'), c.get('user').id, rating));
+  } catch (error) {
+    return feedbackFailure(c, error, 'Rate file', 'Failed to save rating');
+  }
+});
+
+app.post("/make-server-fd1978ca/files/:fileId/comments", requireAuth, async (c) => {
+  try {
+    const user = c.get('user');
+    const { text } = await c.req.json();
+    const author = await students.commentAuthor(user.id);
+    return c.json(await feedback.addComment(c.req.param('fileId'), user.id, author, text));
+  } catch (error) {
+    return feedbackFailure(c, error, 'Add comment', 'Failed to add comment');
+  }
+});
+
+app.delete("/make-server-fd1978ca/files/:fileId/comments/:commentId", requireAuth, async (c) => {
+  try {
+    return c.json(await feedback.deleteComment(c.req.param('fileId'), c.req.param('commentId'), c.get('user').id));
+  } catch (error) {
+    return feedbackFailure(c, error, 'Delete comment', 'Failed to delete comment');
+  }
+});
+
+// Report a problem with a file to the moderators
+app.post("/make-server-fd1978ca/files/:fileId/flags", requireAuth, async (c) => {
+  try {
+    const user = c.get('user');
+    const { reason, details } = await c.req.json();
+    const flag = await feedback.flagFile(c.req.param('fileId'), { userId: user.id, email: user.email ?? '' }, reason, details);
+    return c.json({ message: 'Thanks, the report was sent to the moderators', flag });
+  } catch (error) {
+    return feedbackFailure(c, error, 'Flag file', 'Failed to report file');
+  }
+});
+
+// Student contributions waiting for review; department admins only see their departments
+app.get("/make-server-fd1978ca/admin/contributions", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    return c.json({ contributions: await contributions.listPending(c.get('access').scope) });
+  } catch (error) {
+    return contributionFailure(c, error, 'Contribution queue', 'Failed to load contributions');
+  }
+});
+
+// Signed link for previewing or downloading a pending contribution
+app.get("/make-server-fd1978ca/admin/contributions/:id/url", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const current = await contributions.findContribution(c.req.param('id'));
+    allow(c, 'files:moderate', current.location.department);
+    return c.json({ url: await contributions.fileUrl(current.id) });
+  } catch (error) {
+    return contributionFailure(c, error, 'Contribution URL', 'Failed to create download URL');
+  }
+});
+
+// Change where a pending contribution will be filed, or its paper details
+app.put("/make-server-fd1978ca/admin/contributions/:id", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const current = await contributions.findContribution(c.req.param('id'));
+    allow(c, 'files:moderate', current.location.department, String(body.department ?? ''));
+
+    const { previous, contribution } = await contributions.updatePending(current.id, body);
+    await recordAudit(c, {
+      action: 'contribution.update',
+      target: { type: 'contribution', id: contribution.id, label: contribution.name, department: contribution.location.department },
+      before: { location: previous.location, metadata: previous.metadata ?? null },
+      after: { location: contribution.location, metadata: contribution.metadata ?? null },
+    });
+    return c.json({ message: 'Contribution updated successfully', contribution });
+  } catch (error) {
+    return contributionFailure(c, error, 'Update contribution', 'Internal server error while updating contribution');
+  }
+});
+
+// Publish a contribution into its subject, credited to the student
+app.post("/make-server-fd1978ca/admin/contributions/:id/approve", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const current = await contributions.findContribution(c.req.param('id'));
+    allow(c, 'files:moderate', current.location.department);
+
+    const { contribution, fileRecord } = await contributions.approve(current.id, c.get('user').email ?? '');
+    await recordAudit(c, {
+      action: 'contribution.approve',
+      target: { type: 'file', id: fileRecord.id, label: fileRecord.name, department: contribution.location.department },
+      after: { file: fileRecord, location: contribution.location, contributor: contribution.contributor.email },
+    });
+    return c.json({ message: `${fileRecord.name} published successfully`, contribution, fileRecord });
+  } catch (error) {
+    return contributionFailure(c, error, 'Approve contribution', 'Internal server error while approving contribution');
+  }
+});
+
+app.post("/make-server-fd1978ca/admin/contributions/:id/reject", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const { reason } = await c.req.json();
+    const current = await contributions.findContribution(c.req.param('id'));
+    allow(c, 'files:moderate', current.location.department);
+
+    const contribution = await contributions.reject(current.id, reason, c.get('user').email ?? '');
+    await recordAudit(c, {
+      action: 'contribution.reject',
+      target: { type: 'contribution', id: contribution.id, label: contribution.name, department: contribution.location.department },
+      after: { reason: contribution.reason, contributor: contribution.contributor.email },
+    });
+    return c.json({ message: 'Contribution rejected', contribution });
+  } catch (error) {
+    return contributionFailure(c, error, 'Reject contribution', 'Internal server error while rejecting contribution');
+  }
+});
+
+// Files with open problem reports; department admins only see their departments
+app.get("/make-server-fd1978ca/admin/flags", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    return c.json({ items: await feedback.listQueue(c.get('access').scope) });
+  } catch (error) {
+    return feedbackFailure(c, error, 'Moderation queue', 'Failed to load reports');
+  }
+});
+
+// Close a file's open reports, after it was fixed, moved or deleted or the reports dismissed
+app.post("/make-server-fd1978ca/admin/flags/:fileId/resolve", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const { resolution } = await c.req.json();
+    const resolved = await feedback.resolveFlags(fileId, resolution, c.get('user').email ?? '', c.get('access').scope);
+    await recordAudit(c, {
+      action: 'file.resolve-reports',
+      target: { type: 'file', id: fileId, label: resolved[0].fileName, department: resolved[0].location.department },
+      before: { reports: resolved.map(({ reason, details, reporter }) => ({ reason, details, reporter: reporter.email })) },
+      after: { resolution },
+    });
+    return c.json({ message: `Closed ${resolved.length} reports successfully`, resolved });
+  } catch (error) {
+    return feedbackFailure(c, error, 'Resolve reports', 'Internal server error while resolving reports');
+  }
+});
 
-    if (error) {
-      console.error('Error creating signed URL:', error);
-      return c.json({ error: 'Failed to create download URL' }, 500);
+// Move a file to another subject, content type or module
+app.put("/make-server-fd1978ca/admin/files/:fileId/move", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const body = await c.req.json();
+    const found = await files.findFile(fileId);
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
     }
+    allow(c, 'files:moderate', found.location.department, String(body.department ?? ''));
 
-    return c.json({ url: data.signedUrl });
+    const moved = await files.moveFile(fileId, body);
+    if (!moved) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    await recordAudit(c, {
+      action: 'file.move',
+      target: { type: 'file', id: fileId, label: moved.file.name, department: moved.location.department },
+      before: found.location,
+      after: moved.location,
+    });
+    return c.json({ message: 'File moved successfully', ...moved });
   } catch (error) {
-    console.error('Download URL server error:', error);
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    if (error instanceof uploads.ValidationError) {
+      return c.json({ error: 'Invalid move', fieldErrors: error.fieldErrors }, 400);
+    }
+    console.error('Move file server error:', error);
+    return c.json({ error: 'Internal server error during file move' }, 500);
+  }
+});
+
+// Set a file's exam year, session, scheme, paper code and IA number
+app.put("/make-server-fd1978ca/admin/files/:fileId/metadata", requireAuth, requirePermission('files:upload'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const found = await files.findFile(fileId);
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    allow(c, 'files:upload', found.location.department);
+
+    const updated = await files.updateMetadata(fileId, await c.req.json());
+    if (!updated) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    await recordAudit(c, {
+      action: 'file.metadata',
+      target: { type: 'file', id: fileId, label: updated.file.name, department: updated.location.department },
+      before: updated.previous.metadata ?? null,
+      after: updated.file.metadata ?? null,
+    });
+    return c.json({ message: 'Paper details saved successfully', file: updated.file });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    if (error instanceof uploads.ValidationError) {
+      return c.json({ error: 'Invalid paper details', fieldErrors: error.fieldErrors }, 400);
+    }
+    console.error('Update metadata server error:', error);
+    return c.json({ error: 'Internal server error while saving paper details' }, 500);
+  }
+});
+
+// Versioned fields of a record, for audit entries
+const versionSummary = ({ version, name, size, sha256 }: { version?: number; name: string; size?: number; sha256?: string }) =>
+  ({ version: version ?? 1, name, size, sha256 });
+
+// Upload a new version of a file, keeping its id and links
+app.post("/make-server-fd1978ca/admin/files/:fileId/replace", requireAuth, requirePermission('files:upload'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const found = await files.findFile(fileId);
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    allow(c, 'files:upload', found.location.department);
+
+    const formData = await c.req.formData();
+    const replaced = await versions.replaceFile(fileId, formData.get('file'));
+    if (!replaced) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    await recordAudit(c, {
+      action: 'file.replace',
+      target: { type: 'file', id: fileId, label: replaced.file.name, department: replaced.location.department },
+      before: versionSummary(replaced.previous),
+      after: versionSummary(replaced.file),
+    });
+    return c.json({ message: 'File replaced successfully', file: replaced.file });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    if (error instanceof uploads.ValidationError) {
+      return c.json({ error: 'Invalid upload', fieldErrors: error.fieldErrors }, 400);
+    }
+    console.error('Replace file server error:', error);
+    return c.json({ error: 'Internal server error during file replacement' }, 500);
+  }
+});
+
+// Get download URL for an earlier version of a file
+app.get("/make-server-fd1978ca/admin/files/:fileId/versions/:version/url", requireAuth, requirePermission('files:upload'), async (c) => {
+  try {
+    const found = await files.findFile(c.req.param('fileId'));
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    allow(c, 'files:upload', found.location.department);
+
+    const version = found.file.versions?.find((v) => v.version === Number(c.req.param('version')));
+    if (!version) {
+      return c.json({ error: `Version ${c.req.param('version')} of ${found.file.name} not found` }, 404);
+    }
+    return c.json({ url: await signedUrl(version.path) });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Version URL server error:', error);
     return c.json({ error: 'Internal server error during download URL creation' }, 500);
   }
 });
 
-// Delete file (compatibility route)
-app.delete("/make-server-fd1978ca/delete/:fileId", requireAuth, async (c) => {
+// Make an earlier version of a file current again
+app.post("/make-server-fd1978ca/admin/files/:fileId/rollback", requireAuth, requirePermission('files:upload'), async (c) => {
   try {
     const fileId = c.req.param('fileId');
+    const found = await files.findFile(fileId);
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    allow(c, 'files:upload', found.location.department);
 
-    // We need to find the file across all content
-    // This is less efficient but provides backward compatibility
-    const allKeys = await kv.getByPrefix('content_');
-    
-    for (const item of allKeys) {
-      if (item.key.startsWith('content_')) {
-        const content = item.value;
-        let fileToDelete = null;
-        let found = false;
-        let updatedContent = { ...content };
-
-        // Check in previousYearPapers
-        for (const paper of content.previousYearPapers || []) {
-          if (paper.id === fileId) {
-            fileToDelete = paper;
-            updatedContent.previousYearPapers = content.previousYearPapers.filter((p: any) => p.id !== fileId);
-            found = true;
-            break;
-          }
-        }
-
-        // Check in iaPapers
-        if (!found) {
-          for (const paper of content.iaPapers || []) {
-            if (paper.id === fileId) {
-              fileToDelete = paper;
-              updatedContent.iaPapers = content.iaPapers.filter((p: any) => p.id !== fileId);
-              found = true;
-              break;
-            }
-          }
-        }
-
-        // Check in notes
-        if (!found && content.notes) {
-          for (const module of Object.keys(content.notes)) {
-            for (const note of content.notes[module] || []) {
-              if (note.id === fileId) {
-                fileToDelete = note;
-                updatedContent.notes[module] = content.notes[module].filter((n: any) => n.id !== fileId);
-                found = true;
-                break;
-              }
-            }
-            if (found) break;
-          }
-        }
-
-        if (found && fileToDelete) {
-          // Delete from storage
-          const { error } = await supabase.storage
-            .from('make-fd1978ca-documents')
-            .remove([fileToDelete.path]);
-
-          if (error) {
-            console.error('Error deleting file from storage:', error);
-          }
-
-          // Update content
-          await kv.set(item.key, updatedContent);
-          return c.json({ message: 'File deleted successfully' });
-        }
-      }
-    }
-
-    return c.json({ error: 'File not found' }, 404);
+    const { version } = await c.req.json();
+    const restored = await versions.rollbackFile(fileId, version);
+    if (!restored) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    await recordAudit(c, {
+      action: 'file.rollback',
+      target: { type: 'file', id: fileId, label: restored.file.name, department: restored.location.department },
+      before: versionSummary(restored.previous),
+      after: { ...versionSummary(restored.file), restoredFrom: restored.file.restoredFrom },
+    });
+    return c.json({ message: `Version ${version} restored successfully`, file: restored.file });
+  } catch (error) {
+    if (error instanceof access.AccessError || error instanceof versions.VersionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Rollback file server error:', error);
+    return c.json({ error: 'Internal server error during file rollback' }, 500);
+  }
+});
+
+// Import a ZIP archive laid out as Department/Semester/Subject/contentType/[moduleN/]file.
+// Answers with a dry-run plan unless `dryRun` is "false".
+app.post("/make-server-fd1978ca/admin/import", requireAuth, requirePermission('files:upload'), async (c) => {
+  try {
+    const formData = await c.req.formData();
+    const archive = formData.get('archive');
+    const entries = await zipImport.readArchive(archive);
+    const plan = await zipImport.planImport(entries, c.get('access').scope);
+    if (formData.get('dryRun') !== 'false') {
+      return c.json({ plan });
+    }
+    if (plan.summary.invalid > 0) {
+      return c.json({ error: `${plan.summary.invalid} files in the archive can't be imported`, plan }, 400);
+    }
+
+    const report = await zipImport.runImport(entries, plan);
+    // One entry per department, so department admins see their imports
+    const departments = [...new Set(report.items.flatMap((item) => (item.result === 'created' ? [item.location!.department] : [])))];
+    for (const department of departments) {
+      const created = report.items.filter((item) => item.result === 'created' && item.location!.department === department);
+      await recordAudit(c, {
+        action: 'file.import',
+        target: { type: 'file', label: `${(archive as File).name} (${created.length} files)`, department },
+        after: {
+          files: created.map((item) => ({ id: item.fileId, path: item.path })),
+          newSubjects: report.newSubjects.filter((subject) => subject.department === department),
+        },
+      });
+    }
+    return c.json({ message: `Imported ${report.summary.created} files successfully`, report });
+  } catch (error) {
+    if (error instanceof zipImport.ImportError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Import server error:', error);
+    return c.json({ error: 'Internal server error during import' }, 500);
+  }
+});
+
+// Delete file (compatibility route); the file goes to the trash
+app.delete("/make-server-fd1978ca/delete/:fileId", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const found = await files.findFile(fileId);
+    if (!found) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    allow(c, 'files:moderate', found.location.department);
+
+    const trashed = await trash.trashFile(fileId, c.get('user').email ?? '');
+    await recordAudit(c, {
+      action: 'file.delete',
+      target: { type: 'file', id: fileId, label: found.file.name, department: found.location.department },
+      before: { file: found.file, location: found.location },
+      after: { purgeAt: trashed?.purgeAt },
+    });
+    return c.json({ message: 'File moved to trash successfully', purgeAt: trashed?.purgeAt });
   } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
+    }
     console.error('Delete file server error:', error);
     return c.json({ error: 'Internal server error during file deletion' }, 500);
   }
 });
 
-// Delete file (admin only)
-app.delete("/make-server-fd1978ca/admin/delete/:department/:semester/:subject/:fileId", requireAuth, async (c) => {
+// Delete file (admin only); the file goes to the trash
+app.delete("/make-server-fd1978ca/admin/delete/:department/:semester/:subject/:fileId", requireAuth, requirePermission('files:moderate'), async (c) => {
   try {
     const department = c.req.param('department');
     const semester = c.req.param('semester');
     const subject = c.req.param('subject');
     const fileId = c.req.param('fileId');
 
-    const contentKey = `content_${department}_${semester}_${subject}`;
-    const content = await kv.get(contentKey);
-    
-    if (!content) {
-      return c.json({ error: 'Content not found' }, 404);
+    const found = await files.findFile(fileId);
+    const { location } = found ?? {};
+    if (!location || location.department !== department || location.semester !== semester || location.subject !== subject) {
+      return c.json({ error: 'File not found' }, 404);
     }
+    allow(c, 'files:moderate', department);
+
+    const trashed = await trash.trashFile(fileId, c.get('user').email ?? '');
+    await recordAudit(c, {
+      action: 'file.delete',
+      target: { type: 'file', id: fileId, label: found!.file.name, department },
+      before: { file: found!.file, location },
+      after: { purgeAt: trashed?.purgeAt },
+    });
 
-    let fileToDelete = null;
-    let found = false;
-
-    // Find and remove the file from the appropriate array
-    for (const paper of content.previousYearPapers) {
-      if (paper.id === fileId) {
-        fileToDelete = paper;
-        content.previousYearPapers = content.previousYearPapers.filter((p: any) => p.id !== fileId);
-        found = true;
-        break;
-      }
+    return c.json({ message: 'File moved to trash successfully', purgeAt: trashed?.purgeAt });
+  } catch (error) {
+    if (error instanceof access.AccessError) {
+      return c.json({ error: error.message }, error.status);
     }
+    console.error('Delete file server error:', error);
+    return c.json({ error: 'Internal server error during file deletion' }, 500);
+  }
+});
 
-    if (!found) {
-      for (const paper of content.iaPapers) {
-        if (paper.id === fileId) {
-          fileToDelete = paper;
-          content.iaPapers = content.iaPapers.filter((p: any) => p.id !== fileId);
-          found = true;
-          break;
-        }
-      }
+// Purge trashed files past their retention period. Runs when the function
+// starts and whenever the trash is listed, so no separate scheduler is needed.
+async function purgeExpiredTrash() {
+  const purged = await trash.purgeExpired();
+  for (const entry of purged) {
+    await audit.record({
+      actor: { userId: null, email: 'system' },
+      ip: null,
+      action: 'file.purge',
+      target: { type: 'file', id: entry.file.id, label: entry.file.name, department: entry.location.department },
+      before: { file: entry.file, location: entry.location, deletedAt: entry.deletedAt },
+    });
+  }
+  if (purged.length > 0) {
+    console.log(`Purged ${purged.length} expired files from trash`);
+  }
+}
+
+// Trashed files the user may restore
+app.get("/make-server-fd1978ca/admin/trash", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    await purgeExpiredTrash();
+    const entries = await trash.listTrash(c.get('access').scope);
+    return c.json({ entries, retentionDays: trash.RETENTION_DAYS });
+  } catch (error) {
+    console.error('Error listing trash:', error);
+    return c.json({ error: 'Failed to list trash' }, 500);
+  }
+});
+
+// Put a trashed file back where it was
+app.post("/make-server-fd1978ca/admin/trash/:fileId/restore", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const entry = await trash.findTrashed(fileId);
+    if (!entry) {
+      return c.json({ error: 'File not found in trash' }, 404);
     }
+    allow(c, 'files:moderate', entry.location.department);
 
-    if (!found) {
-      for (const module of Object.keys(content.notes)) {
-        for (const note of content.notes[module]) {
-          if (note.id === fileId) {
-            fileToDelete = note;
-            content.notes[module] = content.notes[module].filter((n: any) => n.id !== fileId);
-            found = true;
-            break;
-          }
-        }
-        if (found) break;
-      }
-    }
-
-    if (!found || !fileToDelete) {
-      return c.json({ error: 'File not found' }, 404);
+    const restored = await trash.restoreFile(fileId);
+    await recordAudit(c, {
+      action: 'file.restore',
+      target: { type: 'file', id: fileId, label: restored.file.name, department: restored.location.department },
+      after: { file: restored.file, location: restored.location },
+    });
+    return c.json({ message: `${restored.file.name} restored successfully`, file: restored.file, location: restored.location });
+  } catch (error) {
+    if (error instanceof access.AccessError || error instanceof trash.TrashError) {
+      return c.json({ error: error.message }, error.status);
     }
+    console.error('Restore file server error:', error);
+    return c.json({ error: 'Internal server error during file restore' }, 500);
+  }
+});
 
-    // Delete from storage
-    const { error } = await supabase.storage
-      .from('make-fd1978ca-documents')
-      .remove([fileToDelete.path]);
+// Delete a trashed file permanently, before its retention period ends
+app.delete("/make-server-fd1978ca/admin/trash/:fileId", requireAuth, requirePermission('files:moderate'), async (c) => {
+  try {
+    const fileId = c.req.param('fileId');
+    const entry = await trash.findTrashed(fileId);
+    if (!entry) {
+      return c.json({ error: 'File not found in trash' }, 404);
+    }
+    allow(c, 'files:moderate', entry.location.department);
 
-    if (error) {
-      console.error('Error deleting file from storage:', error);
+    const purged = await trash.purgeFile(fileId);
+    await recordAudit(c, {
+      action: 'file.purge',
+      target: { type: 'file', id: fileId, label: purged.file.name, department: purged.location.department },
+      before: { file: purged.file, location: purged.location, deletedAt: purged.deletedAt },
+    });
+    return c.json({ message: 'File permanently deleted successfully' });
+  } catch (error) {
+    if (error instanceof access.AccessError || error instanceof trash.TrashError) {
+      return c.json({ error: error.message }, error.status);
     }
+    console.error('Purge file server error:', error);
+    return c.json({ error: 'Internal server error during file purge' }, 500);
+  }
+});
 
-    // Update content
-    await kv.set(contentKey, content);
+// Filters shared by the audit list and its CSV export
+const auditFilters = (c: any): audit.AuditFilters => ({
+  action: c.req.query('action') || undefined,
+  actor: c.req.query('actor') || undefined,
+  department: c.req.query('department') || undefined,
+  from: c.req.query('from') || undefined,
+  to: c.req.query('to') || undefined,
+  q: c.req.query('q') || undefined,
+});
 
-    return c.json({ message: 'File deleted successfully' });
+// Browse the audit trail; department admins only see their departments
+app.get("/make-server-fd1978ca/admin/audit", requireAuth, requirePermission('audit:view'), async (c) => {
+  try {
+    const entries = await audit.listEntries(auditFilters(c), c.get('access').scope);
+    return c.json({ entries });
   } catch (error) {
-    console.error('Delete file server error:', error);
-    return c.json({ error: 'Internal server error during file deletion' }, 500);
+    console.error('Error listing audit entries:', error);
+    return c.json({ error: 'Failed to list activity' }, 500);
+  }
+});
+
+// Every matching audit entry as CSV
+app.get("/make-server-fd1978ca/admin/audit/export", requireAuth, requirePermission('audit:view'), async (c) => {
+  try {
+    const entries = await audit.listEntries(auditFilters(c), c.get('access').scope, null);
+    return c.body(audit.toCsv(entries), 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="activity.csv"',
+    });
+  } catch (error) {
+    console.error('Error exporting audit entries:', error);
+    return c.json({ error: 'Failed to export activity' }, 500);
+  }
+});
+
+// Files per category and module for every subject, to find what is missing;
+// department admins only see their departments
+app.get("/make-server-fd1978ca/admin/coverage", requireAuth, requirePermission('files:upload'), async (c) => {
+  try {
+    return c.json(await coverage.buildCoverage(c.get('access').scope));
+  } catch (error) {
+    console.error('Error building coverage report:', error);
+    return c.json({ error: 'Failed to load coverage' }, 500);
+  }
+});
+
+// Download and view counts over the last `days` days (30 by default);
+// department admins only see their departments
+app.get("/make-server-fd1978ca/admin/insights", requireAuth, requirePermission('insights:view'), async (c) => {
+  try {
+    const days = Number(c.req.query('days') ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > analytics.MAX_DAYS) {
+      return c.json({ error: `days must be a whole number from 1 to ${analytics.MAX_DAYS}` }, 400);
+    }
+    return c.json(await analytics.buildInsights(days, c.get('access').scope));
+  } catch (error) {
+    console.error('Error building insights:', error);
+    return c.json({ error: 'Failed to load insights' }, 500);
   }
 });
 
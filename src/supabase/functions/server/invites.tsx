@@ -0,0 +1,123 @@
+// Single-use invitations for new admins and moderators. Only a SHA-256 hash
+// of each token is stored, under `invite_${hash}`; the token itself is shown
+// to the inviting super-admin once.
+import * as kv from "./kv_store.tsx";
+import { supabase } from "./storage.tsx";
+import { sha256Hex } from "./uploads.tsx";
+import { AccessError, Role, RoleRecord, listRoles, parseRole, saveRole } from "./access.tsx";
+
+const INVITE_TTL_DAYS = 7;
+
+export interface InviteRecord {
+  // Hash of the token; identifies the invite for listing and revoking
+  id: string;
+  email: string;
+  role: Role;
+  departments: string[];
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const inviteKey = (id: string) => `invite_${id}`;
+
+const hashToken = (token: string) => sha256Hex(new TextEncoder().encode(token).buffer as ArrayBuffer);
+
+function newToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const isExpired = (invite: InviteRecord) => new Date(invite.expiresAt).getTime() < Date.now();
+
+// Pending invites, newest first. Expired ones are dropped as they are found.
+export async function listInvites(): Promise<InviteRecord[]> {
+  const invites: InviteRecord[] = await kv.getByPrefix('invite_');
+  const expired = invites.filter(isExpired);
+  if (expired.length > 0) {
+    await kv.mdel(expired.map((invite) => inviteKey(invite.id)));
+  }
+  return invites.filter((invite) => !isExpired(invite)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Whether `email` has an invite waiting to be accepted
+export async function hasPendingInvite(email: string): Promise<boolean> {
+  return (await listInvites()).some((invite) => invite.email === email.toLowerCase());
+}
+
+export async function createInvite(
+  fields: { email?: unknown; role?: unknown; departments?: unknown },
+  knownDepartments: string[],
+  invitedBy: string,
+): Promise<{ invite: InviteRecord; token: string }> {
+  const email = typeof fields.email === 'string' ? fields.email.trim().toLowerCase() : '';
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+    throw new AccessError('A valid email is required', 400);
+  }
+  const { role, departments } = parseRole(fields.role, fields.departments, knownDepartments);
+  if (role === 'student') {
+    throw new AccessError('Invites need an admin or moderator role', 400);
+  }
+  if ((await listRoles()).some((record) => record.email === email)) {
+    throw new AccessError(`${email} already has an account`, 409);
+  }
+
+  // A new invite for the same email replaces any pending one
+  const pending = (await listInvites()).filter((invite) => invite.email === email);
+  if (pending.length > 0) {
+    await kv.mdel(pending.map((invite) => inviteKey(invite.id)));
+  }
+
+  const token = newToken();
+  const now = new Date();
+  const invite: InviteRecord = {
+    id: await hashToken(token),
+    email,
+    role,
+    departments,
+    invitedBy,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+  await kv.set(inviteKey(invite.id), invite);
+  return { invite, token };
+}
+
+export async function revokeInvite(id: string): Promise<InviteRecord> {
+  const invite: InviteRecord | undefined = await kv.get(inviteKey(id));
+  if (!invite) {
+    throw new AccessError('Invite not found', 404);
+  }
+  await kv.del(inviteKey(id));
+  return invite;
+}
+
+// Look up a pending invite by its token, as shown on the accept screen
+export async function findInvite(token: string): Promise<InviteRecord> {
+  const invite: InviteRecord | undefined = await kv.get(inviteKey(await hashToken(token)));
+  if (!invite || isExpired(invite)) {
+    throw new AccessError('This invite link is invalid or has expired', 404);
+  }
+  return invite;
+}
+
+// Create the invitee's account with their chosen password and use up the invite
+export async function acceptInvite(token: string, password: unknown): Promise<RoleRecord> {
+  const invite = await findInvite(token);
+  if (typeof password !== 'string' || password.length < 8) {
+    throw new AccessError('Password must be at least 8 characters', 400);
+  }
+
+  // Remove the invite first so a second request with the same token can't
+  // reuse it; it is put back whenever the account isn't created, so a retry
+  // or a mistyped address doesn't use it up
+  await kv.del(inviteKey(invite.id));
+
+  const { data, error } = await supabase.auth.admin.createUser({ email: invite.email, password, email_confirm: true });
+  if (error || !data.user) {
+    const exists = error?.message?.includes('already been registered') || error?.message?.includes('email_exists');
+    await kv.set(inviteKey(invite.id), invite);
+    throw new AccessError(exists ? `${invite.email} already has an account` : error?.message ?? 'Failed to create account', exists ? 409 : 400);
+  }
+  return saveRole(data.user.id, invite.email, invite.role, invite.departments);
+}
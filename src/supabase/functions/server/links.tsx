@@ -0,0 +1,85 @@
+// Web links, e.g. lecture videos, filed in categories marked as holding links.
+// A link is a file record with a `url` and no storage object, so it is moved,
+// trashed, bookmarked and rated like any file.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { FileRecord, SubjectContent, allFiles, contentKey, emptyContent, fileList, withContentLock } from "./content.tsx";
+import { setLocations } from "./file_index.tsx";
+import { indexDocument } from "./search.tsx";
+import { FieldErrors, ValidationError, validateLocation } from "./uploads.tsx";
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_URL_LENGTH = 2000;
+
+const field = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Only http(s) addresses are accepted, so links can't run script when opened
+export function urlError(value: string): string | null {
+  if (!value) {
+    return 'URL is required';
+  }
+  if (value.length > MAX_URL_LENGTH) {
+    return `URLs can be at most ${MAX_URL_LENGTH} characters`;
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a full web address, e.g. https://youtu.be/…';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Only http and https links can be added';
+  }
+  return null;
+}
+
+// Validate a link and add it to the subject's content record. The same
+// address can only be added to a subject once.
+export async function addLink(fields: Record<string, unknown>): Promise<FileRecord> {
+  const errors: FieldErrors = {};
+  const location = await validateLocation(fields, errors, true);
+  const url = field(fields.url);
+  const title = field(fields.title);
+
+  const problem = urlError(url);
+  if (problem) {
+    errors.url = problem;
+  }
+  if (!title) {
+    errors.title = 'Title is required';
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Titles can be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const { department, semester, subject, contentType, module } = location;
+  const href = new URL(url).href;
+  const key = contentKey(department, semester, subject);
+  const record = await withContentLock(key, async () => {
+    const content: SubjectContent = await kv.get(key) || emptyContent();
+    if (allFiles(content).some((file) => file.url === href)) {
+      throw new ValidationError({ url: 'This link has already been added to the subject' });
+    }
+
+    await catalog.addSubject(department, semester, subject);
+
+    const record: FileRecord = {
+      id: crypto.randomUUID(),
+      name: title,
+      path: '',
+      url: href,
+      uploadedAt: new Date().toISOString(),
+      contentType,
+      module,
+    };
+    fileList(content, contentType, module).push(record);
+    await kv.set(key, content);
+    await setLocations([[record.id, location]]);
+    return record;
+  });
+
+  await indexDocument(record.id, record.name, record.url!);
+  return record;
+}
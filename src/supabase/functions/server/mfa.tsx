@@ -0,0 +1,81 @@
+// Two-factor authentication. TOTP factors are enrolled and verified through
+// Supabase Auth; this module reads the result from the session and keeps the
+// recovery codes, hashed, under `mfa_recovery_${userId}`.
+import * as kv from "./kv_store.tsx";
+import { supabase } from "./storage.tsx";
+import { sha256Hex } from "./uploads.tsx";
+import { AccessError } from "./access.tsx";
+
+export type MfaStatus = 'not-enrolled' | 'pending' | 'verified';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+interface RecoveryCodes {
+  hashes: string[];
+  createdAt: string;
+}
+
+const recoveryKey = (userId: string) => `mfa_recovery_${userId}`;
+
+const hashCode = (code: string) => sha256Hex(new TextEncoder().encode(normalizeCode(code)).buffer as ArrayBuffer);
+
+const normalizeCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// The assurance level is a claim of the (already verified) access token
+function sessionLevel(accessToken: string): string | undefined {
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='))).aal;
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether the user has a verified TOTP factor, and if so whether this session used it
+export function mfaStatus(user: { factors?: Array<{ status: string }> }, accessToken: string): MfaStatus {
+  if (!user.factors?.some((factor) => factor.status === 'verified')) {
+    return 'not-enrolled';
+  }
+  return sessionLevel(accessToken) === 'aal2' ? 'verified' : 'pending';
+}
+
+function newRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, (byte) => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Issue a fresh set of recovery codes, replacing any earlier ones
+export async function createRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+  const record: RecoveryCodes = {
+    hashes: await Promise.all(codes.map(hashCode)),
+    createdAt: new Date().toISOString(),
+  };
+  await kv.set(recoveryKey(userId), record);
+  return codes;
+}
+
+// Use up a recovery code by removing the user's TOTP factors, so they can
+// sign in with their password and enroll a new authenticator
+export async function redeemRecoveryCode(userId: string, code: unknown): Promise<void> {
+  const record: RecoveryCodes | undefined = await kv.get(recoveryKey(userId));
+  const hash = typeof code === 'string' ? await hashCode(code) : '';
+  if (!record || !hash || !record.hashes.includes(hash)) {
+    throw new AccessError('That recovery code is not valid', 400);
+  }
+
+  await kv.set(recoveryKey(userId), { ...record, hashes: record.hashes.filter((h) => h !== hash) });
+
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+  if (error) {
+    throw error;
+  }
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+    if (deleteError) {
+      throw deleteError;
+    }
+  }
+}
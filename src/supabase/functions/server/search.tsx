@@ -0,0 +1,303 @@
+// Full-text search over uploaded files. Each file gets a `search_${id}`
+// document holding its name and extracted text, a `terms_${id}` entry with its
+// word counts, and one `term_${word}_${id}` posting per word of its name and
+// text. Queries read only the postings of words starting with their terms;
+// full documents are only read for the snippets of the results. Subject and
+// module metadata come from the file index at query time so renames and moves
+// need no reindex.
+import * as kv from "./kv_store.tsx";
+import type { Catalog } from "./catalog.tsx";
+import { bucket } from "./storage.tsx";
+import { extractFileText } from "./extract_text.tsx";
+import { FileLocation, FileRecord, SubjectContent, contentKey, placedFiles } from "./content.tsx";
+import { IndexedLocation, allLocations } from "./file_index.tsx";
+
+interface SearchDocument {
+  fileId: string;
+  name: string;
+  text: string;
+}
+
+// A file's name and how often each word of its text occurs, kept so its
+// postings can be replaced or removed
+interface TermEntry {
+  fileId: string;
+  name: string;
+  words: Record<string, number>;
+  // Set once the postings are written; older entries get them on reindex
+  postings?: boolean;
+}
+
+// One word of one file, read by the queries for terms the word starts with
+interface Posting {
+  word: string;
+  fileId: string;
+  // Occurrences in the text, at most MAX_TEXT_HITS
+  hits: number;
+  // Whether the word is part of the file name
+  name?: boolean;
+}
+
+export interface SearchResult {
+  file: FileRecord;
+  location: FileLocation;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  department?: string;
+  semester?: string;
+  limit?: number;
+}
+
+const SNIPPET_LENGTH = 160;
+const DEFAULT_LIMIT = 20;
+
+// Field weights: a hit in the file name counts more than one in the body text
+const WEIGHTS = { name: 5, subject: 4, department: 2, category: 2, text: 0.5 };
+const MAX_TEXT_HITS = 10;
+// Distinct words kept per file, most frequent first
+const MAX_WORDS = 5000;
+// Longer words, e.g. encoded data in a document, get no posting
+const MAX_WORD_LENGTH = 40;
+// Postings written or deleted per KV request
+const POSTING_BATCH = 100;
+
+const CATEGORY_TERMS: Record<string, string> = {
+  previousYearPaper: 'previous year paper question paper pyq',
+  iaPaper: 'ia internal assessment paper',
+  notes: 'notes',
+};
+
+// Other categories are matched by the words of their id, e.g. labManual -> "lab manual"
+const categoryTerms = (contentType: string) =>
+  CATEGORY_TERMS[contentType] ?? contentType.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+export const searchKey = (fileId: string) => `search_${fileId}`;
+const termsKey = (fileId: string) => `terms_${fileId}`;
+const postingKey = (word: string, fileId: string) => `term_${word}_${fileId}`;
+
+// The postings of a file: every word of its text and of its name
+function postingsOf(entry: TermEntry): Posting[] {
+  const nameWords = new Set(wordsOf(entry.name));
+  const words = new Set([...Object.keys(entry.words), ...nameWords]);
+  return [...words]
+    .filter((word) => word.length <= MAX_WORD_LENGTH)
+    .map((word) => ({
+      word,
+      fileId: entry.fileId,
+      hits: Object.hasOwn(entry.words, word) ? entry.words[word] : 0,
+      ...(nameWords.has(word) ? { name: true } : {}),
+    }));
+}
+
+async function writePostings(postings: Posting[]) {
+  for (let i = 0; i < postings.length; i += POSTING_BATCH) {
+    const batch = postings.slice(i, i + POSTING_BATCH);
+    await kv.mset(batch.map((posting) => postingKey(posting.word, posting.fileId)), batch);
+  }
+}
+
+async function deleteKeys(keys: string[]) {
+  for (let i = 0; i < keys.length; i += POSTING_BATCH) {
+    await kv.mdel(keys.slice(i, i + POSTING_BATCH));
+  }
+}
+
+// Index a file, replacing the postings of its previous text
+export async function indexDocument(fileId: string, name: string, text: string): Promise<void> {
+  const entry: TermEntry = { fileId, name, words: wordCounts(text), postings: true };
+  const postings = postingsOf(entry);
+  const previous: TermEntry | undefined = await kv.get(termsKey(fileId));
+  if (previous) {
+    const current = new Set(postings.map((posting) => postingKey(posting.word, fileId)));
+    await deleteKeys(postingsOf(previous).map((posting) => postingKey(posting.word, fileId)).filter((key) => !current.has(key)));
+  }
+  await writePostings(postings);
+  await kv.mset([searchKey(fileId), termsKey(fileId)], [{ fileId, name, text }, entry]);
+}
+
+export async function removeDocuments(fileIds: string[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  const entries: TermEntry[] = await kv.mget(fileIds.map(termsKey));
+  await deleteKeys(entries.flatMap((entry) => postingsOf(entry).map((posting) => postingKey(posting.word, entry.fileId))));
+  await kv.mdel([...fileIds.map(searchKey), ...fileIds.map(termsKey)]);
+}
+
+// Index files that have no search entry yet, e.g. ones uploaded before
+// search existed, and write the postings of entries indexed before postings
+// were kept. Files are downloaded one at a time to keep memory low.
+export async function indexMissingDocuments(): Promise<number> {
+  const [entries, locations] = await Promise.all([
+    kv.getByPrefix('terms_') as Promise<TermEntry[]>,
+    allLocations(),
+  ]);
+  const indexed = new Set(entries.map((entry) => entry.fileId));
+
+  let count = 0;
+  for (const entry of entries) {
+    if (entry.postings) continue;
+    await writePostings(postingsOf(entry));
+    await kv.set(termsKey(entry.fileId), { ...entry, postings: true });
+    count++;
+  }
+
+  for (const location of locations) {
+    if (indexed.has(location.fileId)) continue;
+
+    const content: SubjectContent | undefined = await kv.get(contentKey(location.department, location.semester, location.subject));
+    const file = content && placedFiles(content).find((placed) => placed.file.id === location.fileId)?.file;
+    if (!file) continue;
+    if (file.url) {
+      await indexDocument(file.id, file.name, file.url);
+      count++;
+      continue;
+    }
+
+    const { data, error } = await bucket().download(file.path);
+    if (error || !data) {
+      console.error(`Error downloading ${file.path} for indexing:`, error);
+      continue;
+    }
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    await indexDocument(file.id, file.name, await extractFileText(new Uint8Array(await data.arrayBuffer()), extension));
+    count++;
+  }
+  return count;
+}
+
+const normalize = (value: string) => value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+const wordsOf = (text: string) => normalize(text).match(/[a-z0-9]+/g) ?? [];
+
+// Query terms: lowercase words, ignoring single letters but keeping numbers like module 3
+export function queryTerms(query: string): string[] {
+  return [...new Set(wordsOf(query).filter((word) => word.length > 1 || /\d/.test(word)))];
+}
+
+// How often each word occurs in a text, counting at most MAX_TEXT_HITS per word
+function wordCounts(text: string): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of wordsOf(text)) {
+    counts.set(word, Math.min(MAX_TEXT_HITS, (counts.get(word) ?? 0) + 1));
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]).slice(0, MAX_WORDS));
+}
+
+// For each file with a word starting with the term: the term's occurrences in
+// its text and whether its name has such a word
+async function termMatches(term: string): Promise<Map<string, { hits: number; name: boolean }>> {
+  const postings: Posting[] = await kv.getByPrefix(`term_${term}`);
+  const matches = new Map<string, { hits: number; name: boolean }>();
+  for (const posting of postings) {
+    if (!posting.word.startsWith(term)) continue;
+    const match = matches.get(posting.fileId) ?? { hits: 0, name: false };
+    match.hits = Math.min(MAX_TEXT_HITS, match.hits + posting.hits);
+    match.name ||= !!posting.name;
+    matches.set(posting.fileId, match);
+  }
+  return matches;
+}
+
+// The text normalized like query terms, with the offset in `text` of each of
+// its characters; normalizing can change lengths, e.g. for accented letters
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const piece = normalize(char);
+    normalized += piece;
+    offsets.push(...Array(piece.length).fill(offset));
+    offset += char.length;
+  }
+  return { normalized, offsets };
+}
+
+// A window of text around the first matching term, trimmed to whole words
+function makeSnippet(text: string, terms: string[]): string {
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const positions = terms.map((term) => normalized.indexOf(term)).filter((i) => i !== -1);
+  if (positions.length === 0) {
+    return text.slice(0, SNIPPET_LENGTH).replace(/\s+/g, ' ');
+  }
+
+  const first = offsets[Math.min(...positions)];
+  let start = Math.max(0, first - SNIPPET_LENGTH / 3);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > first ? text.lastIndexOf(' ', end) : end;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+function scoreFile(location: IndexedLocation, terms: string[], matches: Array<Map<string, { hits: number; name: boolean }>>): number {
+  const fields = {
+    subject: normalize(location.subject),
+    department: normalize(location.department),
+    category: `${categoryTerms(location.contentType)} ${location.module ? `module ${location.module}` : ''} semester ${location.semester}`,
+  };
+
+  let score = 0;
+  for (const [i, term] of terms.entries()) {
+    const match = matches[i].get(location.fileId);
+    const textHits = match?.hits ?? 0;
+    const termScore =
+      (match?.name ? WEIGHTS.name : 0) +
+      (fields.subject.includes(term) ? WEIGHTS.subject : 0) +
+      (fields.department.includes(term) ? WEIGHTS.department : 0) +
+      (fields.category.includes(term) ? WEIGHTS.category : 0) +
+      textHits * WEIGHTS.text;
+    // Every term has to match somewhere
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+// Rank the files matching every query term. Only files of subjects listed in
+// `visible` (normally the public catalog) are returned.
+export async function search(query: string, visible: Catalog, options: SearchOptions = {}): Promise<{ terms: string[]; results: SearchResult[] }> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return { terms, results: [] };
+  }
+
+  // Names and text match through the postings of the terms; subject and
+  // category metadata through the file index
+  const [matches, locations] = await Promise.all([
+    Promise.all(terms.map(termMatches)),
+    allLocations(),
+  ]);
+
+  const ranked = locations
+    .filter((location) =>
+      !!visible.subjects[location.department]?.[location.semester]?.includes(location.subject) &&
+      (!options.department || location.department === options.department) &&
+      (!options.semester || location.semester === options.semester))
+    .map((location) => ({ location, score: scoreFile(location, terms, matches) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+
+  // Load the current records of the matching files, one read per subject
+  const keys = [...new Set(ranked.map(({ location }) => contentKey(location.department, location.semester, location.subject)))];
+  const contents: Array<SubjectContent | undefined> = await Promise.all(keys.map((key) => kv.get(key)));
+  const records = new Map(
+    contents.flatMap((content) => (content ? placedFiles(content).map(({ file }) => [file.id, file] as const) : []))
+  );
+
+  // Full text is only read for the results shown
+  const documents: SearchDocument[] = ranked.length > 0 ? await kv.mget(ranked.map(({ location }) => searchKey(location.fileId))) : [];
+  const texts = new Map(documents.map((document) => [document.fileId, document.text]));
+
+  const results = ranked.flatMap(({ location, score }) => {
+    const { fileId, ...fileLocation } = location;
+    const file = records.get(fileId);
+    if (!file) return [];
+    return [{ file, location: fileLocation, score, snippet: makeSnippet(texts.get(fileId) ?? '', terms) }];
+  });
+
+  return { terms, results };
+}
@@ -0,0 +1,42 @@
+// Shared service-role Supabase client and helpers for the documents bucket.
+import { createClient } from "npm:@supabase/supabase-js";
+
+// Initialize Supabase client for server operations (using service role key)
+export const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+export const BUCKET_NAME = 'make-fd1978ca-documents';
+
+export const bucket = () => supabase.storage.from(BUCKET_NAME);
+
+// Stream an object from the bucket instead of reading it into memory whole.
+// Resolves to null when the object can't be read.
+export async function openObject(path: string): Promise<ReadableStream<Uint8Array> | null> {
+  const { data, error } = await bucket().createSignedUrl(path, 60);
+  if (error || !data) {
+    console.error(`Error signing ${path}:`, error);
+    return null;
+  }
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    console.error(`Error reading ${path}:`, response.statusText);
+    return null;
+  }
+  return response.body;
+}
+
+// Create storage buckets on startup
+export async function initializeStorage() {
+  try {
+    const { data: buckets } = await supabase.storage.listBuckets();
+    const bucketExists = buckets?.some(bucket => bucket.name === BUCKET_NAME);
+    if (!bucketExists) {
+      await supabase.storage.createBucket(BUCKET_NAME, { public: false });
+      console.log(`Created storage bucket: ${BUCKET_NAME}`);
+    }
+  } catch (error) {
+    console.error('Error initializing storage:', error);
+  }
+}
@@ -0,0 +1,233 @@
+// Optional student accounts. A profile (department, semester and USN) lives
+// under `student_${userId}` and the files and subjects a student starred under
+// `bookmarks_${userId}`, so both follow the student across devices.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { supabase } from "./storage.tsx";
+import { FileLocation, FileRecord, SubjectRename, withContentLock } from "./content.tsx";
+import { findFile } from "./files.tsx";
+import { superAdminEmails } from "./access.tsx";
+import { hasPendingInvite } from "./invites.tsx";
+
+const MAX_BOOKMARKS = 200;
+
+export type ProfileField = 'email' | 'password' | 'department' | 'semester' | 'usn';
+
+export interface StudentProfile {
+  userId: string;
+  email: string;
+  department: string;
+  semester: string;
+  usn: string;
+  updatedAt: string;
+}
+
+export interface SubjectBookmark {
+  department: string;
+  semester: string;
+  subject: string;
+  addedAt: string;
+}
+
+export interface Bookmarks {
+  // Lets renames find every student's bookmarks
+  userId?: string;
+  files: Array<{ fileId: string; addedAt: string }>;
+  subjects: SubjectBookmark[];
+}
+
+// Bookmarks as shown to the student, with each starred file's current record
+export interface ResolvedBookmarks {
+  files: Array<{ file: FileRecord; location: FileLocation; addedAt: string }>;
+  subjects: SubjectBookmark[];
+}
+
+// Raised for invalid profiles and bookmarks; carries the HTTP status and,
+// for profile forms, one message per field.
+export class StudentError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400, public fieldErrors: Partial<Record<ProfileField, string>> = {}) {
+    super(message);
+  }
+}
+
+const profileKey = (userId: string) => `student_${userId}`;
+const bookmarksKey = (userId: string) => `bookmarks_${userId}`;
+
+// University seat numbers, e.g. 1AT21CS001
+const USN_PATTERN = /^[1-4][A-Z]{2}\d{2}[A-Z]{2,3}\d{3}$/;
+
+const sameSubject = (a: Omit<SubjectBookmark, 'addedAt'>, b: Omit<SubjectBookmark, 'addedAt'>) =>
+  a.department === b.department && a.semester === b.semester && a.subject === b.subject;
+
+// Check the profile fields against the public catalog
+async function parseProfile(fields: Record<string, unknown>): Promise<Pick<StudentProfile, 'department' | 'semester' | 'usn'>> {
+  const current = catalog.publicCatalog(await catalog.loadCatalog());
+  const department = typeof fields.department === 'string' ? fields.department : '';
+  const semester = fields.semester === undefined || fields.semester === null ? '' : String(fields.semester);
+  const usn = typeof fields.usn === 'string' ? fields.usn.replace(/\s+/g, '').toUpperCase() : '';
+
+  const errors: Partial<Record<ProfileField, string>> = {};
+  if (!current.departments.includes(department)) {
+    errors.department = department ? `Unknown department ${department}` : 'Department is required';
+  }
+  if (!current.semesters.map(String).includes(semester)) {
+    errors.semester = semester ? `Unknown semester ${semester}` : 'Semester is required';
+  }
+  if (!USN_PATTERN.test(usn)) {
+    errors.usn = usn ? 'USN should look like 1AT21CS001' : 'USN is required';
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new StudentError('Invalid profile', 400, errors);
+  }
+  return { department, semester, usn };
+}
+
+export async function getProfile(userId: string): Promise<StudentProfile | null> {
+  return (await kv.get(profileKey(userId))) ?? null;
+}
+
+// How a student is credited on contributions: their USN, or the
+// name part of their email before a profile is saved
+export async function displayName(userId: string, email: string): Promise<string> {
+  const profile = await getProfile(userId);
+  return profile?.usn || email.split('@')[0] || 'Student';
+}
+
+// How a student is shown on public comments: their USN with the roll number
+// hidden, e.g. 1AT21CS***, so comments can't be traced to one student
+export async function commentAuthor(userId: string): Promise<string> {
+  const profile = await getProfile(userId);
+  return profile?.usn ? `${profile.usn.slice(0, -3)}***` : 'Student';
+}
+
+export async function saveProfile(userId: string, email: string, fields: Record<string, unknown>): Promise<StudentProfile> {
+  const profile: StudentProfile = {
+    userId,
+    email,
+    ...(await parseProfile(fields)),
+    updatedAt: new Date().toISOString(),
+  };
+  await kv.set(profileKey(userId), profile);
+  return profile;
+}
+
+// Create a student account with its profile. The account stays unconfirmed,
+// and can't sign in, until the student follows the link emailed to them.
+// Emails reserved for admins (by environment or a pending invite) can't be
+// used, since staff roles are granted to those addresses.
+export async function signUp(fields: Record<string, unknown>): Promise<StudentProfile> {
+  const email = typeof fields.email === 'string' ? fields.email.trim().toLowerCase() : '';
+  const password = typeof fields.password === 'string' ? fields.password : '';
+  const errors: Partial<Record<ProfileField, string>> = {};
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+    errors.email = 'A valid email is required';
+  }
+  if (password.length < 8) {
+    errors.password = 'Password must be at least 8 characters';
+  }
+  let profile: Pick<StudentProfile, 'department' | 'semester' | 'usn'> | null = null;
+  try {
+    profile = await parseProfile(fields);
+  } catch (error) {
+    if (!(error instanceof StudentError)) throw error;
+    Object.assign(errors, error.fieldErrors);
+  }
+  if (!profile || Object.keys(errors).length > 0) {
+    throw new StudentError('Invalid sign-up details', 400, errors);
+  }
+
+  if (superAdminEmails().includes(email) || await hasPendingInvite(email)) {
+    throw new StudentError(`${email} is reserved for a staff account`, 409, {
+      email: 'This email is reserved for staff; use your invite link or the admin sign in',
+    });
+  }
+
+  const { data, error } = await supabase.auth.admin.createUser({ email, password, email_confirm: false });
+  if (error || !data.user) {
+    const exists = error?.message?.includes('already been registered') || error?.message?.includes('email_exists');
+    throw new StudentError(
+      exists ? `${email} already has an account` : error?.message ?? 'Failed to create account',
+      exists ? 409 : 400,
+      exists ? { email: 'This email already has an account; sign in instead' } : {},
+    );
+  }
+  const saved = await saveProfile(data.user.id, email, profile);
+  const { error: mailError } = await supabase.auth.resend({ type: 'signup', email });
+  if (mailError) {
+    console.error('Failed to send confirmation email:', mailError);
+  }
+  return saved;
+}
+
+async function loadBookmarks(userId: string): Promise<Bookmarks> {
+  return (await kv.get(bookmarksKey(userId))) ?? { files: [], subjects: [] };
+}
+
+// Starred files that still exist, and starred subjects still offered to students
+export async function listBookmarks(userId: string): Promise<ResolvedBookmarks> {
+  const bookmarks = await loadBookmarks(userId);
+  const current = catalog.publicCatalog(await catalog.loadCatalog());
+  const files = await Promise.all(bookmarks.files.map(async ({ fileId, addedAt }) => {
+    const found = await findFile(fileId);
+    return found ? { file: found.file, location: found.location, addedAt } : null;
+  }));
+  return {
+    files: files.filter((entry) => entry !== null),
+    subjects: bookmarks.subjects.filter(({ department, semester, subject }) =>
+      catalog.listSubjects(current, department, semester).includes(subject)),
+  };
+}
+
+// Add or remove a bookmark. Changes for one student run one at a time so
+// quick successive stars don't overwrite each other.
+function updateBookmarks(userId: string, change: (bookmarks: Bookmarks) => Bookmarks): Promise<Bookmarks> {
+  return withContentLock(bookmarksKey(userId), async () => {
+    const next = change(await loadBookmarks(userId));
+    if (next.files.length + next.subjects.length > MAX_BOOKMARKS) {
+      throw new StudentError(`You can keep at most ${MAX_BOOKMARKS} bookmarks`, 409);
+    }
+    await kv.set(bookmarksKey(userId), { ...next, userId });
+    return next;
+  });
+}
+
+// Follow a catalog rename in every student's starred subjects
+export async function relocateSubjects(rename: SubjectRename): Promise<void> {
+  const stored: Bookmarks[] = await kv.getByPrefix('bookmarks_');
+  for (const { userId } of stored.filter((bookmarks) => bookmarks.subjects.some(rename))) {
+    if (!userId) continue;
+    await updateBookmarks(userId, (bookmarks) => ({
+      ...bookmarks,
+      subjects: bookmarks.subjects.map((entry) => ({ ...entry, ...rename(entry) })),
+    }));
+  }
+}
+
+export async function starFile(userId: string, fileId: string): Promise<Bookmarks> {
+  if (!(await findFile(fileId))) {
+    throw new StudentError('File not found', 404);
+  }
+  return updateBookmarks(userId, (bookmarks) => bookmarks.files.some((entry) => entry.fileId === fileId)
+    ? bookmarks
+    : { ...bookmarks, files: [{ fileId, addedAt: new Date().toISOString() }, ...bookmarks.files] });
+}
+
+export const unstarFile = (userId: string, fileId: string) =>
+  updateBookmarks(userId, (bookmarks) => ({ ...bookmarks, files: bookmarks.files.filter((entry) => entry.fileId !== fileId) }));
+
+export async function starSubject(userId: string, department: string, semester: string, subject: string): Promise<Bookmarks> {
+  const current = catalog.publicCatalog(await catalog.loadCatalog());
+  if (!catalog.listSubjects(current, department, semester).includes(subject)) {
+    throw new StudentError('Subject not found', 404);
+  }
+  const target = { department, semester, subject };
+  return updateBookmarks(userId, (bookmarks) => bookmarks.subjects.some((entry) => sameSubject(entry, target))
+    ? bookmarks
+    : { ...bookmarks, subjects: [{ ...target, addedAt: new Date().toISOString() }, ...bookmarks.subjects] });
+}
+
+export const unstarSubject = (userId: string, department: string, semester: string, subject: string) =>
+  updateBookmarks(userId, (bookmarks) => ({
+    ...bookmarks,
+    subjects: bookmarks.subjects.filter((entry) => !sameSubject(entry, { department, semester, subject })),
+  }));
@@ -0,0 +1,176 @@
+// Trash bin for deleted files. Deleting takes a record out of its subject and
+// keeps it under `trash_${fileId}` with its storage objects untouched, so it
+// can be restored until it is purged after the retention period.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { bucket } from "./storage.tsx";
+import {
+  FileLocation,
+  FileRecord,
+  SubjectContent,
+  allFiles,
+  contentKey,
+  emptyContent,
+  fileList,
+  removeFromContent,
+  storedPaths,
+  withContentLock,
+} from "./content.tsx";
+import { removeLocations, setLocations, subjectLocations } from "./file_index.tsx";
+import { FieldErrors, validateLocation } from "./uploads.tsx";
+import { removeDocuments } from "./search.tsx";
+import { withLockedFile } from "./files.tsx";
+
+// Days a deleted file can be restored for; TRASH_RETENTION_DAYS overrides it
+export const RETENTION_DAYS = Number(Deno.env.get('TRASH_RETENTION_DAYS')) || 30;
+
+export interface TrashedFile {
+  file: FileRecord;
+  location: FileLocation;
+  deletedAt: string;
+  deletedBy: string;
+  purgeAt: string;
+}
+
+// Raised for trash operations that can't be carried out; carries the HTTP status.
+export class TrashError extends Error {
+  constructor(message: string, public status: 404 | 409 = 404) {
+    super(message);
+  }
+}
+
+const trashKey = (fileId: string) => `trash_${fileId}`;
+
+const locationKey = ({ department, semester, subject }: FileLocation) => contentKey(department, semester, subject);
+
+export async function findTrashed(fileId: string): Promise<TrashedFile | null> {
+  return await kv.get(trashKey(fileId)) ?? null;
+}
+
+async function loadEntry(fileId: string): Promise<TrashedFile> {
+  const entry = await findTrashed(fileId);
+  if (!entry) {
+    throw new TrashError('File not found in trash');
+  }
+  return entry;
+}
+
+// Trashed files, most recently deleted first. `scope` limits the result to
+// files from those departments (null for everything).
+export async function listTrash(scope: string[] | null): Promise<TrashedFile[]> {
+  const entries: TrashedFile[] = await kv.getByPrefix('trash_');
+  return entries
+    .filter((entry) => scope === null || scope.includes(entry.location.department))
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+// Move a file to the trash. Returns null when the file doesn't exist. The
+// search document is kept for a restore; search skips it while the file is
+// out of the index.
+export async function trashFile(fileId: string, deletedBy: string): Promise<TrashedFile | null> {
+  return withLockedFile(fileId, async (found) => {
+    const now = new Date();
+    const entry: TrashedFile = {
+      file: found.file,
+      location: found.location,
+      deletedAt: now.toISOString(),
+      deletedBy,
+      purgeAt: new Date(now.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    await kv.set(trashKey(fileId), entry);
+
+    removeFromContent(found.content, fileId);
+    await kv.set(locationKey(found.location), found.content);
+    await removeLocations([fileId]);
+    return entry;
+  });
+}
+
+// Move every file of a subject to the trash before the subject is deleted, so
+// they can be restored (recreating the subject) until they are purged
+export async function trashSubject(department: string, semester: string, subject: string, deletedBy: string): Promise<TrashedFile[]> {
+  const key = contentKey(department, semester, subject);
+  return withContentLock(key, async () => {
+    const content: SubjectContent | undefined = await kv.get(key);
+    if (!content) {
+      return [];
+    }
+    const now = new Date();
+    const locations = new Map(subjectLocations(department, semester, subject, content));
+    const entries: TrashedFile[] = allFiles(content).map((file) => ({
+      file,
+      location: locations.get(file.id)!,
+      deletedAt: now.toISOString(),
+      deletedBy,
+      purgeAt: new Date(now.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    }));
+    if (entries.length > 0) {
+      await kv.mset(entries.map((entry) => trashKey(entry.file.id)), entries);
+    }
+    await kv.del(key);
+    await removeLocations(entries.map((entry) => entry.file.id));
+    return entries;
+  });
+}
+
+// Put a trashed file back where it was deleted from. Restores and purges of
+// a file hold its trash key's lock, so it can't be put back twice.
+export function restoreFile(fileId: string): Promise<TrashedFile> {
+  return withContentLock(trashKey(fileId), async () => {
+    const entry = await loadEntry(fileId);
+
+    const errors: FieldErrors = {};
+    const location = await validateLocation({ ...entry.location }, errors, Boolean(entry.file.url));
+    const problem = Object.values(errors)[0];
+    if (problem) {
+      throw new TrashError(`${entry.file.name} can't be restored: ${problem}`, 409);
+    }
+
+    // The subject may have been deleted since
+    await catalog.addSubject(location.department, location.semester, location.subject);
+
+    const key = locationKey(location);
+    await withContentLock(key, async () => {
+      const content: SubjectContent = await kv.get(key) || emptyContent();
+      fileList(content, location.contentType, location.module).push(entry.file);
+      await kv.set(key, content);
+      await setLocations([[fileId, location]]);
+    });
+    await kv.del(trashKey(fileId));
+    return entry;
+  });
+}
+
+// Delete a trashed file for good, keeping storage objects that a live record
+// or another trashed file still uses
+export function purgeFile(fileId: string): Promise<TrashedFile> {
+  return withContentLock(trashKey(fileId), async () => {
+    const entry = await loadEntry(fileId);
+
+    const content: SubjectContent | undefined = await kv.get(locationKey(entry.location));
+    const others = (await listTrash(null)).filter((other) => other.file.id !== fileId).map((other) => other.file);
+    const inUse = new Set([...(content ? allFiles(content) : []), ...others].flatMap(storedPaths));
+
+    const paths = storedPaths(entry.file).filter((path) => !inUse.has(path));
+    if (paths.length > 0) {
+      const { error } = await bucket().remove(paths);
+      if (error) {
+        console.error('Error deleting file from storage:', error);
+      }
+    }
+
+    await kv.del(trashKey(fileId));
+    await removeDocuments([fileId]);
+    return entry;
+  });
+}
+
+// Purge every file whose retention period has passed, returning them
+export async function purgeExpired(): Promise<TrashedFile[]> {
+  const now = new Date().toISOString();
+  const expired = (await listTrash(null)).filter((entry) => entry.purgeAt <= now);
+  for (const entry of expired) {
+    await purgeFile(entry.file.id);
+  }
+  return expired;
+}
@@ -0,0 +1,330 @@
+// Upload service shared by the /upload and /admin/upload routes: validates the
+// multipart form, stores the file and records it in the subject's content.
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { bucket } from "./storage.tsx";
+import { setLocations } from "./file_index.tsx";
+import { indexDocument } from "./search.tsx";
+import { extractFileText } from "./extract_text.tsx";
+import {
+  ContentType,
+  EXAM_SESSIONS,
+  ExamSession,
+  FileLocation,
+  FilePlacement,
+  FileRecord,
+  PaperMetadata,
+  contentKey,
+  emptyContent,
+  fileList,
+  locationPath,
+  placedFiles,
+  withContentLock,
+} from "./content.tsx";
+
+export type UploadField =
+  | 'file' | 'url' | 'title' | 'department' | 'semester' | 'subject' | 'contentType' | 'module'
+  | 'examYear' | 'session' | 'scheme' | 'paperCode' | 'iaNumber';
+export type FieldErrors = Partial<Record<UploadField, string>>;
+
+// Raised when an upload or move is invalid; carries one message per field.
+export class ValidationError extends Error {
+  constructor(public fieldErrors: FieldErrors) {
+    super('Invalid upload');
+  }
+}
+
+// Raised when the uploaded bytes already exist in the subject. When the copy
+// is filed elsewhere in the subject the upload can be retried as a link.
+export class DuplicateFileError extends Error {
+  constructor(public existing: FileRecord, public placement: FilePlacement, public canLink: boolean) {
+    super(`${existing.name} has already been uploaded to this subject`);
+  }
+}
+
+// What to do when the uploaded bytes already exist in the subject
+export type DuplicateAction = 'reject' | 'link';
+
+export const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+
+// Extensions accepted by the dashboard's file picker and their MIME types
+const ALLOWED_TYPES: Record<string, string[]> = {
+  pdf: ['application/pdf'],
+  doc: ['application/msword'],
+  docx: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  txt: ['text/plain'],
+  ppt: ['application/vnd.ms-powerpoint'],
+  pptx: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+};
+
+// Browsers send these when they don't recognise a file; the extension decides then
+const GENERIC_TYPES = ['', 'application/octet-stream'];
+
+export interface UploadRequest extends FileLocation {
+  file: File;
+  duplicateAction: DuplicateAction;
+  metadata?: PaperMetadata;
+  // Credit for files published from student contributions
+  contributedBy?: string;
+}
+
+export const fileExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// Strip directories and anything that isn't safe in a storage key
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const extension = fileExtension(base);
+  const stem = extension ? base.slice(0, -(extension.length + 1)) : base;
+  const safeStem = stem
+    .normalize('NFKD')
+    .replace(/[^\w.\- ]+/g, '')
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/^[._-]+/, '')
+    .slice(0, 100) || 'file';
+  return extension ? `${safeStem}.${extension}` : safeStem;
+}
+
+const field = (value: unknown) => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value));
+
+// Check where a file should be filed against the catalog, collecting any
+// problems in `errors`. Shared by uploads and file moves; `links` is set when
+// filing a link, which only link categories take.
+export async function validateLocation(fields: Record<string, unknown>, errors: FieldErrors, links = false): Promise<FileLocation> {
+  const department = field(fields.department);
+  const semester = field(fields.semester);
+  const subject = field(fields.subject);
+  const contentType = field(fields.contentType);
+  const moduleValue = field(fields.module);
+
+  const current = await catalog.loadCatalog();
+
+  if (!department) {
+    errors.department = 'Department is required';
+  } else if (!catalog.hasDepartment(current, department)) {
+    errors.department = `Unknown department ${department}`;
+  }
+
+  if (!semester) {
+    errors.semester = 'Semester is required';
+  } else if (!catalog.hasSemester(current, semester)) {
+    errors.semester = `Unknown semester ${semester}`;
+  }
+
+  const subjectError = catalog.nameError(subject, 'Subject');
+  if (subjectError) {
+    errors.subject = subjectError;
+  }
+
+  // New subjects are created with the default layout
+  const layout = catalog.subjectLayout(current, department, semester, subject);
+  const category = layout.categories.includes(contentType) ? catalog.findCategory(current, contentType) : undefined;
+  if (!category) {
+    errors.contentType = `Content type must be one of ${layout.categories.join(', ')}`;
+  } else if (!!category.links !== links) {
+    errors.contentType = links ? `${category.label} holds files, not links` : `${category.label} holds links, not files`;
+  }
+
+  let module: number | undefined;
+  if (category?.modular) {
+    module = Number(moduleValue);
+    if (!moduleValue || !Number.isInteger(module) || module < 1 || module > layout.modules) {
+      errors.module = `Module must be between 1 and ${layout.modules}`;
+    }
+  }
+
+  return { department, semester, subject, contentType, ...(module ? { module } : {}) };
+}
+
+const FIRST_EXAM_YEAR = 1990;
+const MAX_IA_NUMBER = 3;
+
+// Check paper metadata fields for a file of the given content type, collecting
+// problems in `errors`. Blank fields are left out; undefined when all are blank.
+export function parseMetadata(fields: Record<string, unknown>, contentType: ContentType, errors: FieldErrors): PaperMetadata | undefined {
+  const metadata: PaperMetadata = {};
+
+  const examYear = field(fields.examYear);
+  if (examYear) {
+    const year = Number(examYear);
+    const latest = new Date().getFullYear() + 1;
+    if (!Number.isInteger(year) || year < FIRST_EXAM_YEAR || year > latest) {
+      errors.examYear = `Exam year must be between ${FIRST_EXAM_YEAR} and ${latest}`;
+    } else {
+      metadata.examYear = year;
+    }
+  }
+
+  const session = field(fields.session);
+  if (session) {
+    if (contentType !== 'previousYearPaper') {
+      errors.session = 'Exam session only applies to previous year papers';
+    } else if (!EXAM_SESSIONS.includes(session as ExamSession)) {
+      errors.session = `Exam session must be one of ${EXAM_SESSIONS.join(', ')}`;
+    } else {
+      metadata.session = session as ExamSession;
+    }
+  }
+
+  const scheme = field(fields.scheme);
+  if (scheme) {
+    if (!/^[\w .-]{1,20}$/.test(scheme)) {
+      errors.scheme = 'Scheme must be up to 20 letters, digits, spaces, dots or dashes';
+    } else {
+      metadata.scheme = scheme;
+    }
+  }
+
+  const paperCode = field(fields.paperCode).toUpperCase();
+  if (paperCode) {
+    if (!/^[A-Z0-9-]{2,20}$/.test(paperCode)) {
+      errors.paperCode = 'Paper code must be 2-20 letters, digits or dashes';
+    } else {
+      metadata.paperCode = paperCode;
+    }
+  }
+
+  const iaNumber = field(fields.iaNumber);
+  if (iaNumber) {
+    const number = Number(iaNumber);
+    if (contentType !== 'iaPaper') {
+      errors.iaNumber = 'IA number only applies to IA papers';
+    } else if (!Number.isInteger(number) || number < 1 || number > MAX_IA_NUMBER) {
+      errors.iaNumber = `IA number must be between 1 and ${MAX_IA_NUMBER}`;
+    } else {
+      metadata.iaNumber = number;
+    }
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+// Metadata that still applies once a file is filed under `contentType`
+export function applicableMetadata(metadata: PaperMetadata | undefined, contentType: ContentType): PaperMetadata | undefined {
+  if (!metadata) return undefined;
+  const { session, iaNumber, ...rest } = metadata;
+  const kept: PaperMetadata = {
+    ...rest,
+    ...(contentType === 'previousYearPaper' && session ? { session } : {}),
+    ...(contentType === 'iaPaper' && iaNumber ? { iaNumber } : {}),
+  };
+  return Object.keys(kept).length > 0 ? kept : undefined;
+}
+
+// What's wrong with an uploaded file, if anything. Shared by uploads and replacements.
+export function fileError(file: unknown): string | null {
+  if (!(file instanceof File)) {
+    return 'File is required';
+  }
+  const extension = fileExtension(file.name);
+  if (!ALLOWED_TYPES[extension]) {
+    return 'Only PDF, DOC, DOCX, TXT, PPT and PPTX files are allowed';
+  }
+  if (!GENERIC_TYPES.includes(file.type) && !ALLOWED_TYPES[extension].includes(file.type)) {
+    return `File type ${file.type} does not match the .${extension} extension`;
+  }
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return `File exceeds the ${MAX_FILE_SIZE / (1024 * 1024)} MB limit`;
+  }
+  return null;
+}
+
+// The MIME type to store a validated file with
+export const mimeTypeFor = (file: File) =>
+  GENERIC_TYPES.includes(file.type) ? ALLOWED_TYPES[fileExtension(file.name)][0] : file.type;
+
+export async function validateUpload(formData: FormData): Promise<UploadRequest> {
+  const errors: FieldErrors = {};
+  const file = formData.get('file');
+  const location = await validateLocation(Object.fromEntries(formData), errors);
+
+  const metadata = parseMetadata(Object.fromEntries(formData), location.contentType, errors);
+
+  const problem = fileError(file);
+  if (problem) {
+    errors.file = problem;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const duplicateAction: DuplicateAction = formData.get('duplicateAction') === 'link' ? 'link' : 'reject';
+
+  return { ...location, file: file as File, duplicateAction, ...(metadata ? { metadata } : {}) };
+}
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Store a validated upload and add it to the subject's content record.
+// Bytes already present in the subject are never stored twice: the upload is
+// rejected with a DuplicateFileError, or recorded as a link to the existing
+// object when `duplicateAction` is 'link'.
+export async function storeUpload({ file, duplicateAction, metadata, contributedBy, ...location }: UploadRequest): Promise<FileRecord> {
+  const { department, semester, subject, contentType, module } = location;
+  const extension = fileExtension(file.name);
+  const mimeType = mimeTypeFor(file);
+  const bytes = await file.arrayBuffer();
+  const sha256 = await sha256Hex(bytes);
+
+  const key = contentKey(department, semester, subject);
+  const fileRecord = await withContentLock(key, async () => {
+    const content = await kv.get(key) || emptyContent();
+
+    const fileId = crypto.randomUUID();
+    let filePath = `${locationPath(location)}${fileId}_${sanitizeFileName(file.name)}`;
+
+    const duplicate = placedFiles(content).find((placed) => placed.file.sha256 === sha256);
+    if (duplicate) {
+      const samePlace = duplicate.contentType === contentType && duplicate.module === module;
+      if (samePlace || duplicateAction !== 'link') {
+        const { file: existing, ...placement } = duplicate;
+        throw new DuplicateFileError(existing, placement, !samePlace);
+      }
+      filePath = duplicate.file.path;
+    } else {
+      const { error } = await bucket().upload(filePath, file, { contentType: mimeType });
+      if (error) {
+        throw new Error(`Failed to upload ${filePath}: ${error.message}`);
+      }
+    }
+
+    // Add to subject if it doesn't exist
+    await catalog.addSubject(department, semester, subject);
+
+    const record: FileRecord = {
+      id: fileId,
+      name: file.name.split(/[\\/]/).pop()!.slice(0, 200),
+      path: filePath,
+      uploadedAt: new Date().toISOString(),
+      contentType,
+      module,
+      size: file.size,
+      mimeType,
+      sha256,
+      ...(metadata ? { metadata } : {}),
+      ...(contributedBy ? { contributedBy } : {}),
+    };
+
+    fileList(content, contentType, module).push(record);
+    await kv.set(key, content);
+    await setLocations([[record.id, location]]);
+    return record;
+  });
+
+  await indexDocument(fileRecord.id, fileRecord.name, await extractFileText(new Uint8Array(bytes), extension));
+  return fileRecord;
+}
+
+export async function handleUpload(formData: FormData): Promise<FileRecord> {
+  return storeUpload(await validateUpload(formData));
+}
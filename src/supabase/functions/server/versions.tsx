@@ -0,0 +1,135 @@
+// File versions. Replacing a file keeps its id, and so every link to it,
+// while the previous storage object is kept as a version. Rolling back makes
+// an old version current again as a new version, so history is never lost.
+import * as kv from "./kv_store.tsx";
+import { bucket } from "./storage.tsx";
+import { FileLocation, FileRecord, FileVersion, SubjectContent, contentKey, fileList, locationPath, placedFiles } from "./content.tsx";
+import { withLockedFile } from "./files.tsx";
+import { ValidationError, fileError, fileExtension, mimeTypeFor, sanitizeFileName, sha256Hex } from "./uploads.tsx";
+import { indexDocument } from "./search.tsx";
+import { extractFileText } from "./extract_text.tsx";
+
+// Raised for rollbacks to versions that don't exist; carries the HTTP status.
+export class VersionError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+  }
+}
+
+export interface VersionChange {
+  file: FileRecord;
+  location: FileLocation;
+  previous: FileRecord;
+}
+
+const currentVersion = (file: FileRecord) => file.version ?? 1;
+
+const nextVersion = (file: FileRecord) =>
+  Math.max(currentVersion(file), ...(file.versions ?? []).map((v) => v.version)) + 1;
+
+// The current state of a record as a version entry
+const asVersion = (file: FileRecord): FileVersion => ({
+  version: currentVersion(file),
+  name: file.name,
+  path: file.path,
+  uploadedAt: file.updatedAt ?? file.uploadedAt,
+  size: file.size,
+  mimeType: file.mimeType,
+  sha256: file.sha256,
+  ...(file.restoredFrom ? { restoredFrom: file.restoredFrom } : {}),
+});
+
+// Swap in the updated record and save the subject's content. Callers hold
+// the subject's content lock and pass the content they read under it.
+async function saveRecord(location: FileLocation, content: SubjectContent, updated: FileRecord) {
+  const placed = placedFiles(content).find(({ file }) => file.id === updated.id)!;
+  const list = fileList(content, placed.contentType, placed.module);
+  list[list.indexOf(placed.file)] = updated;
+  await kv.set(contentKey(location.department, location.semester, location.subject), content);
+}
+
+// Upload a new version of a file. Returns null when the file doesn't exist.
+export async function replaceFile(fileId: string, file: unknown): Promise<VersionChange | null> {
+  const problem = fileError(file);
+  if (problem) {
+    throw new ValidationError({ file: problem });
+  }
+  const upload = file as File;
+  const bytes = await upload.arrayBuffer();
+  const sha256 = await sha256Hex(bytes);
+
+  const change = await withLockedFile(fileId, async (found) => {
+    if (found.file.url) {
+      throw new ValidationError({ file: 'Links have no file to replace' });
+    }
+    if (sha256 === found.file.sha256) {
+      throw new ValidationError({ file: 'This file is identical to the current version' });
+    }
+
+    const version = nextVersion(found.file);
+    const path = `${locationPath(found.location)}${fileId}_v${version}_${sanitizeFileName(upload.name)}`;
+    const mimeType = mimeTypeFor(upload);
+    const { error } = await bucket().upload(path, upload, { contentType: mimeType });
+    if (error) {
+      throw new Error(`Failed to upload ${path}: ${error.message}`);
+    }
+
+    const updated: FileRecord = {
+      ...found.file,
+      name: upload.name.split(/[\\/]/).pop()!.slice(0, 200),
+      path,
+      size: upload.size,
+      mimeType,
+      sha256,
+      version,
+      updatedAt: new Date().toISOString(),
+      versions: [asVersion(found.file), ...(found.file.versions ?? [])],
+    };
+    delete updated.restoredFrom;
+
+    await saveRecord(found.location, found.content, updated);
+    return { file: updated, location: found.location, previous: found.file };
+  });
+  if (change) {
+    await indexDocument(fileId, change.file.name, await extractFileText(new Uint8Array(bytes), fileExtension(upload.name)));
+  }
+  return change;
+}
+
+// Make an earlier version current again. Returns null when the file doesn't exist.
+export async function rollbackFile(fileId: string, version: unknown): Promise<VersionChange | null> {
+  const change = await withLockedFile(fileId, async (found) => {
+    const target = found.file.versions?.find((v) => v.version === Number(version));
+    if (!target) {
+      throw new VersionError(`Version ${version} of ${found.file.name} not found`, 404);
+    }
+
+    const updated: FileRecord = {
+      ...found.file,
+      name: target.name,
+      path: target.path,
+      size: target.size,
+      mimeType: target.mimeType,
+      sha256: target.sha256,
+      version: nextVersion(found.file),
+      restoredFrom: target.version,
+      updatedAt: new Date().toISOString(),
+      versions: [asVersion(found.file), ...(found.file.versions ?? [])],
+    };
+
+    await saveRecord(found.location, found.content, updated);
+    return { file: updated, location: found.location, previous: found.file };
+  });
+  if (!change) {
+    return null;
+  }
+
+  // Search should match the restored text
+  const { data, error } = await bucket().download(change.file.path);
+  if (error || !data) {
+    console.error(`Error downloading ${change.file.path} for indexing:`, error);
+  } else {
+    await indexDocument(fileId, change.file.name, await extractFileText(new Uint8Array(await data.arrayBuffer()), fileExtension(change.file.name)));
+  }
+  return change;
+}
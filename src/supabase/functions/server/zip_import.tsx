@@ -0,0 +1,240 @@
+// Bulk import from a ZIP archive laid out like the storage bucket:
+// `Department/Semester/Subject/category/[moduleN/]file`. Planning checks
+// every entry without changing anything, so the same archive can be previewed
+// (dry run) and then imported.
+import { unzipSync } from "npm:fflate";
+import * as kv from "./kv_store.tsx";
+import * as catalog from "./catalog.tsx";
+import { FileLocation, SubjectContent, contentKey, placedFiles } from "./content.tsx";
+import {
+  DuplicateFileError,
+  FieldErrors,
+  MAX_FILE_SIZE,
+  ValidationError,
+  fileError,
+  sha256Hex,
+  storeUpload,
+  validateLocation,
+} from "./uploads.tsx";
+
+// The archive is held in memory while it is imported, next to one inflated
+// entry at a time, so both have to fit in the edge function's memory
+export const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 50 MB
+const MAX_ENTRIES = 1000;
+
+// An archive's file entries, inflated one at a time when read
+export interface ArchiveEntries {
+  // Entry paths with their declared unpacked sizes
+  sizes: Record<string, number>;
+  read(path: string): Uint8Array;
+}
+
+export type ImportStatus = 'create' | 'duplicate' | 'invalid';
+
+export interface ImportItem {
+  // Path of the entry inside the archive
+  path: string;
+  name: string;
+  size: number;
+  location?: FileLocation;
+  status: ImportStatus;
+  reason?: string;
+}
+
+export interface ImportPlan {
+  items: ImportItem[];
+  // Subjects that don't exist yet and will be created
+  newSubjects: Array<{ department: string; semester: string; subject: string }>;
+  summary: Record<ImportStatus, number>;
+}
+
+export type ImportResult = 'created' | 'duplicate' | 'failed';
+
+export interface ImportReport {
+  items: Array<ImportItem & { result: ImportResult; fileId?: string }>;
+  newSubjects: ImportPlan['newSubjects'];
+  summary: Record<ImportResult, number>;
+}
+
+// Raised when the archive itself can't be read; carries the HTTP status.
+export class ImportError extends Error {
+  constructor(message: string, public status: 400 | 413 = 400) {
+    super(message);
+  }
+}
+
+const LAYOUT_HINT = 'Expected Department/Semester/Subject/category/[moduleN/]file';
+
+// Folders and files that archivers add and that aren't content
+const isJunk = (path: string) => path.split('/').some((part) => part === '__MACOSX' || part.startsWith('.'));
+
+// List the file entries of an uploaded archive without inflating them
+export async function readArchive(archive: unknown): Promise<ArchiveEntries> {
+  if (!(archive instanceof File)) {
+    throw new ImportError('A ZIP archive is required');
+  }
+  if (!archive.name.toLowerCase().endsWith('.zip')) {
+    throw new ImportError('Only .zip archives can be imported');
+  }
+  if (archive.size > MAX_ARCHIVE_SIZE) {
+    throw new ImportError(`Archive exceeds the ${MAX_ARCHIVE_SIZE / (1024 * 1024)} MB limit`, 413);
+  }
+
+  // Entries are checked by their declared size, as listed in the archive;
+  // fflate inflates each one into a buffer of exactly that size
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const sizes: Record<string, number> = {};
+  let problem: ImportError | null = null;
+  try {
+    unzipSync(data, {
+      filter: (entry) => {
+        if (problem || entry.name.endsWith('/') || isJunk(entry.name)) return false;
+        sizes[entry.name] = entry.originalSize;
+        if (entry.originalSize > MAX_FILE_SIZE) {
+          problem = new ImportError(`${entry.name} exceeds the ${MAX_FILE_SIZE / (1024 * 1024)} MB file limit`, 413);
+        } else if (Object.keys(sizes).length > MAX_ENTRIES) {
+          problem = new ImportError(`The archive contains more than ${MAX_ENTRIES} files; import at most ${MAX_ENTRIES} at a time`);
+        }
+        return false;
+      },
+    });
+  } catch (error) {
+    throw new ImportError(`The archive could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+  if (problem) {
+    throw problem;
+  }
+
+  if (Object.keys(sizes).length === 0) {
+    throw new ImportError('The archive contains no files');
+  }
+  return {
+    sizes,
+    read(path) {
+      try {
+        return unzipSync(data, { filter: (entry) => entry.name === path })[path];
+      } catch (error) {
+        throw new ImportError(`${path} could not be read: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+  };
+}
+
+// Split an entry path into location fields, matching department, subject and
+// category names to the catalog regardless of case. Categories can be named
+// by id or label.
+function parsePath(path: string, current: catalog.Catalog): Record<string, string> | null {
+  const parts = path.split('/');
+  if (parts.length !== 5 && parts.length !== 6) {
+    return null;
+  }
+  const [departmentName, semester, subjectName, typeName] = parts;
+  const department = current.departments.find((d) => d.toLowerCase() === departmentName.toLowerCase()) ?? departmentName;
+  const subject = catalog.listSubjects(current, department, semester)
+    .find((s) => s.toLowerCase() === subjectName.trim().toLowerCase()) ?? subjectName;
+  const category = current.categories.find(({ id, label }) =>
+    [id, label].some((name) => name.toLowerCase() === typeName.toLowerCase()));
+  const contentType = category?.id ?? typeName;
+
+  if (parts.length === 6) {
+    const module = parts[4].match(/^module\s*(\d+)$/i)?.[1];
+    return category?.modular && module ? { department, semester, subject, contentType, module } : null;
+  }
+  return { department, semester, subject, contentType };
+}
+
+// Work out what importing the archive would do, without changing anything.
+// Files outside `scope` (null for every department) are marked invalid.
+export async function planImport(entries: ArchiveEntries, scope: string[] | null): Promise<ImportPlan> {
+  const current = await catalog.loadCatalog();
+  const folders = new Map<string, { location?: FileLocation; reason?: string }>();
+  // sha256 values per subject, from stored files and earlier archive entries
+  const seen = new Map<string, Map<string, string>>();
+  const newSubjects = new Map<string, ImportPlan['newSubjects'][number]>();
+
+  const items: ImportItem[] = [];
+  for (const path of Object.keys(entries.sizes).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))) {
+    const name = path.split('/').pop()!;
+    const folder = path.slice(0, path.length - name.length);
+    const item: ImportItem = { path, name, size: entries.sizes[path], status: 'invalid' };
+    items.push(item);
+
+    // Each folder is checked against the catalog once
+    if (!folders.has(folder)) {
+      const fields = parsePath(path, current);
+      if (!fields) {
+        folders.set(folder, { reason: LAYOUT_HINT });
+      } else {
+        const errors: FieldErrors = {};
+        const location = await validateLocation(fields, errors);
+        const problem = Object.values(errors)[0]
+          ?? (scope && !scope.includes(location.department) ? `You cannot manage the ${location.department} department` : undefined);
+        folders.set(folder, problem ? { reason: problem } : { location });
+      }
+    }
+    const { location, reason } = folders.get(folder)!;
+    if (!location) {
+      item.reason = reason;
+      continue;
+    }
+    item.location = location;
+
+    const bytes = entries.read(path);
+    const problem = fileError(new File([bytes], name));
+    if (problem) {
+      item.reason = problem;
+      continue;
+    }
+
+    const key = contentKey(location.department, location.semester, location.subject);
+    if (!seen.has(key)) {
+      const content: SubjectContent | undefined = await kv.get(key);
+      seen.set(key, new Map((content ? placedFiles(content) : []).flatMap(({ file }) => (file.sha256 ? [[file.sha256, file.name]] : []))));
+    }
+    if (!catalog.listSubjects(current, location.department, location.semester).includes(location.subject)) {
+      newSubjects.set(key, { department: location.department, semester: location.semester, subject: location.subject });
+    }
+
+    const sha256 = await sha256Hex(bytes.slice().buffer);
+    const existing = seen.get(key)!.get(sha256);
+    if (existing) {
+      item.status = 'duplicate';
+      item.reason = `Identical to ${existing}, already in this subject`;
+      continue;
+    }
+    seen.get(key)!.set(sha256, name);
+    item.status = 'create';
+  }
+
+  const summary: ImportPlan['summary'] = { create: 0, duplicate: 0, invalid: 0 };
+  items.forEach((item) => summary[item.status]++);
+  return { items, newSubjects: [...newSubjects.values()], summary };
+}
+
+// Store every file the plan would create, skipping duplicates. Archives with
+// invalid entries are rejected by the caller before this runs.
+export async function runImport(entries: ArchiveEntries, plan: ImportPlan): Promise<ImportReport> {
+  const items: ImportReport['items'] = [];
+  for (const item of plan.items) {
+    if (item.status !== 'create') {
+      items.push({ ...item, result: 'duplicate' });
+      continue;
+    }
+    try {
+      const record = await storeUpload({ ...item.location!, file: new File([entries.read(item.path)], item.name), duplicateAction: 'reject' });
+      items.push({ ...item, result: 'created', fileId: record.id });
+    } catch (error) {
+      if (error instanceof DuplicateFileError) {
+        items.push({ ...item, result: 'duplicate', reason: error.message });
+      } else {
+        console.error(`Error importing ${item.path}:`, error);
+        const reason = error instanceof ValidationError ? Object.values(error.fieldErrors)[0] : 'Failed to store file';
+        items.push({ ...item, result: 'failed', reason });
+      }
+    }
+  }
+
+  const summary: ImportReport['summary'] = { created: 0, duplicate: 0, failed: 0 };
+  items.forEach((item) => summary[item.result]++);
+  return { items, newSubjects: plan.newSubjects, summary };
+}
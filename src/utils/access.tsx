@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { projectId } from './supabase/info';
+
+export type Role = 'super-admin' | 'department-admin' | 'moderator' | 'student';
+
+export type Permission =
+  | 'catalog:structure'
+  | 'catalog:subjects'
+  | 'files:upload'
+  | 'files:moderate'
+  | 'roles:manage'
+  | 'search:reindex'
+  | 'audit:view'
+  | 'insights:view';
+
+export interface RoleRecord {
+  userId: string;
+  email: string;
+  role: Role;
+  departments: string[];
+  updatedAt: string;
+}
+
+// Whether the user has an authenticator, and whether this session used it
+export type MfaStatus = 'not-enrolled' | 'pending' | 'verified';
+
+export interface Access extends RoleRecord {
+  permissions: Permission[];
+  // null when every department may be managed
+  scope: string[] | null;
+  mfa: MfaStatus;
+}
+
+export interface Invite {
+  id: string;
+  email: string;
+  role: Role;
+  departments: string[];
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  'super-admin': 'Super admin',
+  'department-admin': 'Department admin',
+  'moderator': 'Moderator',
+  'student': 'Student',
+};
+
+export const can = (access: Access | null, permission: Permission) => access?.permissions.includes(permission) ?? false;
+
+export const canManageDepartment = (access: Access | null, department: string) =>
+  !!access && (access.scope === null || access.scope.includes(department));
+
+// The signed-in user's role and permissions, or null when they can't be loaded
+export async function fetchAccess(token: string): Promise<Access | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/me`,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      }
+    );
+
+    if (response.ok) {
+      return await response.json();
+    }
+    console.error('Failed to fetch access:', response.statusText);
+  } catch (error) {
+    console.error('Error fetching access:', error);
+  }
+  return null;
+}
+
+// Loads the signed-in user's role and permissions from the server
+export function useAccess(token: string) {
+  const [access, setAccess] = useState<Access | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAccess(token).then((loaded) => {
+      setAccess(loaded);
+      setLoading(false);
+    });
+  }, [token]);
+
+  return { access, loading };
+}
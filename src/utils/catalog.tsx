@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectId, publicAnonKey } from './supabase/info';
+
+// A kind of content a subject can offer, e.g. previous year papers or lab manuals
+export interface Category {
+  id: string;
+  label: string;
+  // Files are filed under a module, like notes
+  modular: boolean;
+  // Holds web links, e.g. lecture videos, instead of uploaded files
+  links?: boolean;
+}
+
+// The categories a subject offers, in tab order, and how many modules it has
+export interface SubjectLayout {
+  categories: string[];
+  modules: number;
+}
+
+export const DEFAULT_LAYOUT: SubjectLayout = { categories: ['previousYearPaper', 'iaPaper', 'notes'], modules: 5 };
+export const MAX_MODULES = 12;
+
+export interface Catalog {
+  departments: string[];
+  semesters: number[];
+  // department -> semester -> subject names
+  subjects: Record<string, Record<string, string[]>>;
+  archivedDepartments: string[];
+  archivedSubjects: Record<string, Record<string, string[]>>;
+  categories: Category[];
+  // department -> semester -> subject -> layout, for subjects not using DEFAULT_LAYOUT
+  layouts: Record<string, Record<string, Record<string, SubjectLayout>>>;
+}
+
+const EMPTY_CATALOG: Catalog = {
+  departments: [],
+  semesters: [],
+  subjects: {},
+  archivedDepartments: [],
+  archivedSubjects: {},
+  categories: [],
+  layouts: {},
+};
+
+export const getSubjects = (catalog: Catalog, department: string, semester: string) =>
+  catalog.subjects[department]?.[semester] ?? [];
+
+export const getLayout = (catalog: Catalog, department: string, semester: string, subject: string): SubjectLayout =>
+  catalog.layouts?.[department]?.[semester]?.[subject] ?? DEFAULT_LAYOUT;
+
+// The categories a subject offers, in its tab order
+export const subjectCategories = (catalog: Catalog, department: string, semester: string, subject: string): Category[] =>
+  getLayout(catalog, department, semester, subject).categories.flatMap((id) => catalog.categories.filter((c) => c.id === id));
+
+export const categoryLabel = (categories: Category[], id: string) =>
+  categories.find((category) => category.id === id)?.label ?? id;
+
+// e.g. "Notes, Module 3"
+export const placementLabel = (categories: Category[], { contentType, module }: { contentType: string; module?: number }) =>
+  `${categoryLabel(categories, contentType)}${module ? `, Module ${module}` : ''}`;
+
+export const isSubjectArchived = (catalog: Catalog, department: string, semester: string, subject: string) =>
+  catalog.archivedSubjects[department]?.[semester]?.includes(subject) ?? false;
+
+// Loads the academic catalog from the server. Pass the admin token when
+// available; students use the public anon key and never see archived entries.
+export function useCatalog(token?: string, includeArchived = false) {
+  const [catalog, setCatalog] = useState<Catalog>(EMPTY_CATALOG);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/catalog${includeArchived ? '?includeArchived=true' : ''}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token ?? publicAnonKey}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        setCatalog(await response.json());
+      } else {
+        console.error('Failed to fetch catalog:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, includeArchived]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { catalog, setCatalog, loading, refresh };
+}
@@ -0,0 +1,48 @@
+import { FileLocation, FileRecord, PaperMetadata, getSignedUrl, saveUrl } from './files';
+
+export type ContributionStatus = 'pending' | 'approved' | 'rejected';
+
+export const CONTRIBUTION_STATUS_LABELS: Record<ContributionStatus, string> = {
+  pending: 'Waiting for review',
+  approved: 'Published',
+  rejected: 'Rejected',
+};
+
+// A file a student submitted for the moderators to review
+export interface Contribution {
+  id: string;
+  name: string;
+  path: string;
+  size: number;
+  mimeType: string;
+  location: FileLocation;
+  metadata?: PaperMetadata;
+  note: string;
+  contributor: { userId: string; email: string; name: string };
+  submittedAt: string;
+  status: ContributionStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  // Why it was rejected
+  reason?: string;
+  // The published file, once approved
+  fileId?: string;
+}
+
+// A pending contribution as a file record, for previews and downloads
+export const contributionFile = (contribution: Contribution): FileRecord => ({
+  id: contribution.id,
+  name: contribution.name,
+  path: contribution.path,
+  uploadedAt: contribution.submittedAt,
+  size: contribution.size,
+  mimeType: contribution.mimeType,
+});
+
+// Pending files are only signed for moderators
+export const getContributionUrl = (contribution: Contribution, token: string) =>
+  getSignedUrl(`admin/contributions/${contribution.id}/url`, token);
+
+export async function downloadContribution(contribution: Contribution, token: string) {
+  saveUrl(await getContributionUrl(contribution, token), contribution.name);
+}
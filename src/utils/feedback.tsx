@@ -0,0 +1,54 @@
+import { FileLocation, FileRecord } from './files';
+
+export type FlagReason = 'wrong-subject' | 'illegible' | 'duplicate' | 'copyright';
+export type Resolution = 'dismissed' | 'fixed' | 'moved' | 'deleted';
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  'wrong-subject': 'Wrong subject or category',
+  illegible: 'Illegible or blurry',
+  duplicate: 'Duplicate of another file',
+  copyright: 'Copyright problem',
+};
+
+export interface FeedbackSummary {
+  average: number | null;
+  ratings: number;
+  comments: number;
+}
+
+export interface FileComment {
+  id: string;
+  author: string;
+  text: string;
+  at: string;
+  // Written by the signed-in student
+  mine: boolean;
+}
+
+export interface FileFeedback {
+  summary: FeedbackSummary;
+  comments: FileComment[];
+  myRating: number | null;
+}
+
+export interface Flag {
+  id: string;
+  fileId: string;
+  fileName: string;
+  location: FileLocation;
+  reason: FlagReason;
+  details: string;
+  reporter: { userId: string; email: string };
+  createdAt: string;
+  status: 'open' | 'resolved';
+}
+
+// A reported file and its open reports
+export interface QueueItem {
+  fileId: string;
+  fileName: string;
+  // null once the file has been deleted
+  file: FileRecord | null;
+  location: FileLocation;
+  flags: Flag[];
+}
@@ -0,0 +1,214 @@
+import { projectId, publicAnonKey } from './supabase/info';
+
+export interface FileRecord {
+  id: string;
+  name: string;
+  path: string;
+  uploadedAt: string;
+  contentType?: string;
+  module?: number;
+  size?: number;
+  mimeType?: string;
+  // Version number of the current upload; missing for files never replaced
+  version?: number;
+  updatedAt?: string;
+  // Earlier uploads, newest first
+  versions?: FileVersion[];
+  metadata?: PaperMetadata;
+  // Name of the student who contributed the file
+  contributedBy?: string;
+  // Set for links: the web address; links have no stored file
+  url?: string;
+}
+
+export type ExamSession = 'dec-jan' | 'jun-jul';
+
+export const EXAM_SESSION_LABELS: Record<ExamSession, string> = {
+  'dec-jan': 'Dec/Jan',
+  'jun-jul': 'Jun/Jul',
+};
+
+// Academic details of a question paper
+export interface PaperMetadata {
+  examYear?: number;
+  session?: ExamSession;
+  scheme?: string;
+  paperCode?: string;
+  iaNumber?: number;
+}
+
+// Short labels for a paper's metadata, e.g. ["2023 Dec/Jan", "2022 scheme", "21CS53"]
+export function metadataLabels(metadata: PaperMetadata | undefined): string[] {
+  if (!metadata) return [];
+  const { examYear, session, scheme, paperCode, iaNumber } = metadata;
+  const exam = [examYear, session && EXAM_SESSION_LABELS[session]].filter(Boolean).join(' ');
+  return [
+    iaNumber ? `IA${iaNumber}` : '',
+    exam,
+    scheme ? `${scheme} scheme` : '',
+    paperCode ?? '',
+  ].filter(Boolean);
+}
+
+export interface FileVersion {
+  version: number;
+  name: string;
+  path: string;
+  uploadedAt: string;
+  size?: number;
+  restoredFrom?: number;
+}
+
+export interface FileLocation {
+  department: string;
+  semester: string;
+  subject: string;
+  // A category id from the catalog
+  contentType: string;
+  module?: number;
+}
+
+// A subject's files by category, as returned by the content route. Modular
+// categories hold one list per module, keyed `moduleN`.
+export type SubjectContent = Record<string, FileRecord[] | Record<string, FileRecord[]>>;
+
+// Papers keep the plural keys they were first stored under
+const LIST_KEYS: Record<string, string> = { previousYearPaper: 'previousYearPapers', iaPaper: 'iaPapers' };
+
+// The files of a category, or of one module of a modular category
+export function categoryFiles(content: SubjectContent, contentType: string, module?: number): FileRecord[] {
+  const list = content[LIST_KEYS[contentType] ?? contentType];
+  if (module) {
+    return (Array.isArray(list) ? [] : list?.[`module${module}`]) ?? [];
+  }
+  return Array.isArray(list) ? list : [];
+}
+
+export type PreviewKind = 'pdf' | 'image' | 'text' | 'office';
+
+const PREVIEW_EXTENSIONS: Record<string, PreviewKind> = {
+  pdf: 'pdf',
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', svg: 'image',
+  txt: 'text', md: 'text', csv: 'text',
+  doc: 'office', docx: 'office', ppt: 'office', pptx: 'office', xls: 'office', xlsx: 'office',
+};
+
+// How a file can be shown in the browser, or null when it can only be downloaded
+export function previewKind(file: Pick<FileRecord, 'name' | 'mimeType'>): PreviewKind | null {
+  if (file.mimeType === 'application/pdf') return 'pdf';
+  if (file.mimeType?.startsWith('image/')) return 'image';
+  if (file.mimeType === 'text/plain') return 'text';
+  return PREVIEW_EXTENSIONS[file.name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+}
+
+export type UsageEvent = 'download' | 'view';
+
+// Ask the server for a short-lived signed URL for a published file. Pass
+// `event` to count the request in the download analytics.
+export async function getFileUrl(fileId: string, token = publicAnonKey, event?: UsageEvent): Promise<string | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/download`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ fileId, event }),
+      }
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.url;
+    }
+    console.error('Failed to get file URL:', response.statusText);
+  } catch (error) {
+    console.error('Error getting file URL:', error);
+  }
+  return null;
+}
+
+// Fetch a signed URL from an authenticated route, e.g. for files that aren't published
+export async function getSignedUrl(route: string, token: string): Promise<string | null> {
+  try {
+    const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/${route}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    if (response.ok) {
+      const data = await response.json();
+      return data.url;
+    }
+    console.error('Failed to get file URL:', response.statusText);
+  } catch (error) {
+    console.error('Error getting file URL:', error);
+  }
+  return null;
+}
+
+// Fetch a signed URL and start the download; student downloads are counted
+export async function downloadFile(file: Pick<FileRecord, 'id' | 'name'>, token = publicAnonKey, count = false) {
+  saveUrl(await getFileUrl(file.id, token, count ? 'download' : undefined), file.name);
+}
+
+// Earlier versions are only signed for staff
+export async function downloadVersion(fileId: string, version: FileVersion, token: string) {
+  saveUrl(await getSignedUrl(`admin/files/${fileId}/versions/${version.version}/url`, token), version.name);
+}
+
+// Start downloading a signed URL under the given name
+export function saveUrl(url: string | null, fileName: string) {
+  if (!url) return;
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// `fileIds` limits the bundle to some of the files in scope
+export type BundleScope = Pick<FileLocation, 'department' | 'semester' | 'subject'> & Partial<Pick<FileLocation, 'contentType' | 'module'>> & { fileIds?: string[] };
+
+// Download a subject, or one category or module of it, as a ZIP.
+// Returns an error message when there is nothing to download.
+export async function downloadBundle(scope: BundleScope, token = publicAnonKey): Promise<string | null> {
+  const { department, semester, subject, contentType, module, fileIds } = scope;
+  const params = new URLSearchParams();
+  if (contentType) params.set('contentType', contentType);
+  if (module) params.set('module', String(module));
+  if (fileIds) params.set('ids', fileIds.join(','));
+
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/bundle/${encodeURIComponent(department)}/${encodeURIComponent(semester)}/${encodeURIComponent(subject)}?${params}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      }
+    );
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return errorData.error || response.statusText;
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const fileName = decodeURIComponent(disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1] ?? '') || `${subject}.zip`;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+    return null;
+  } catch (error) {
+    console.error('Error downloading bundle:', error);
+    return 'The download could not be started';
+  }
+}
@@ -0,0 +1,110 @@
+import { supabase } from './supabase/client';
+import { projectId } from './supabase/info';
+
+export interface TotpEnrollment {
+  factorId: string;
+  // Image URL for the authenticator QR code
+  qrCode: string;
+  secret: string;
+}
+
+// The current session's access token, e.g. after a verification raised its assurance level
+async function currentToken(): Promise<string> {
+  const { data, error } = await supabase.auth.getSession();
+  if (error || !data.session) {
+    throw new Error(error?.message ?? 'Your session has expired. Please sign in again.');
+  }
+  return data.session.access_token;
+}
+
+// True when the signed-in user has an authenticator but this session hasn't used it yet
+export async function needsMfaChallenge(): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) {
+    throw error;
+  }
+  return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+}
+
+// Check a code from the user's authenticator and return the upgraded session's token
+export async function verifyTotp(code: string): Promise<string> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) {
+    throw error;
+  }
+  const factor = data.totp[0];
+  if (!factor) {
+    throw new Error('No authenticator is set up for this account');
+  }
+
+  const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+  if (verifyError) {
+    throw verifyError;
+  }
+  return currentToken();
+}
+
+// Start TOTP enrollment, clearing any earlier attempt that was never verified
+export async function enrollTotp(): Promise<TotpEnrollment> {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) {
+    throw listError;
+  }
+  for (const factor of factors.all.filter((f) => f.factor_type === 'totp' && f.status === 'unverified')) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'Authenticator app' });
+  if (error) {
+    throw error;
+  }
+  const qrCode = data.totp.qr_code.startsWith('data:')
+    ? data.totp.qr_code
+    : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`;
+  return { factorId: data.id, qrCode, secret: data.totp.secret };
+}
+
+// Finish enrollment with a first code; returns the upgraded session's token
+export async function confirmTotp(factorId: string, code: string): Promise<string> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) {
+    throw error;
+  }
+  return currentToken();
+}
+
+async function mfaRequest(path: string, token: string, body?: unknown) {
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/admin/mfa/${path}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(body ?? {}),
+    }
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Unknown error');
+  }
+  return data;
+}
+
+// Recovery codes can only be issued from a session that passed two-factor authentication
+export async function createRecoveryCodes(token: string): Promise<string[]> {
+  const { codes } = await mfaRequest('recovery-codes', token);
+  return codes;
+}
+
+// Use a recovery code in place of the authenticator. The factor is removed,
+// so the refreshed session's token is returned for re-enrollment.
+export async function redeemRecoveryCode(token: string, code: string): Promise<string> {
+  await mfaRequest('recover', token, { code });
+  const { data, error } = await supabase.auth.refreshSession();
+  if (error || !data.session) {
+    throw new Error(error?.message ?? 'Your session has expired. Please sign in again.');
+  }
+  return data.session.access_token;
+}
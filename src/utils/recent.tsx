@@ -0,0 +1,41 @@
+import { useState, useCallback } from 'react';
+import { FileLocation, FileRecord } from './files';
+
+// A subject or file the user opened, remembered for the command palette
+export type RecentItem =
+  | { kind: 'subject'; department: string; semester: string; subject: string }
+  | { kind: 'file'; file: Pick<FileRecord, 'id' | 'name' | 'path'>; location: FileLocation };
+
+const MAX_RECENT = 8;
+
+const recentId = (item: RecentItem) =>
+  item.kind === 'file' ? `file:${item.file.id}` : `subject:${item.department}/${item.semester}/${item.subject}`;
+
+function readRecent(storageKey: string): RecentItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+// Most recently used subjects and files, newest first, kept in localStorage
+// under `storageKey` so each portal has its own list.
+export function useRecentItems(storageKey: string) {
+  const [recent, setRecent] = useState<RecentItem[]>(() => readRecent(storageKey));
+
+  const remember = useCallback((item: RecentItem) => {
+    setRecent((current) => {
+      const next = [item, ...current.filter((other) => recentId(other) !== recentId(item))].slice(0, MAX_RECENT);
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      } catch (error) {
+        console.error('Failed to save recent items:', error);
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  return { recent, remember };
+}
@@ -0,0 +1,172 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+// Client-side routes. Student URLs follow the portal hierarchy, e.g.
+// /browse/CSE/3/Data%20Structures/notes/module-2, and /files/:id links to one file.
+// Invite links are /admin/invite/:token.
+// Student tabs are named after the subject's categories; papers keep their original slugs
+export type StudentTab = string;
+export type AdminTab = 'content' | 'catalog' | 'users' | 'activity' | 'trash' | 'insights' | 'coverage' | 'reports' | 'contributions';
+
+export interface Selection {
+  department?: string;
+  semester?: string;
+  subject?: string;
+}
+
+export type StudentRoute = { page: 'student'; tab?: StudentTab; module?: number; fileId?: string } & Selection;
+export type AdminRoute = { page: 'admin-dashboard'; tab: AdminTab } & Selection;
+export type Route = StudentRoute | AdminRoute | { page: 'admin-login' } | { page: 'accept-invite'; token: string };
+
+const TAB_SLUGS: Record<string, StudentTab> = { previousYearPaper: 'previous-year', iaPaper: 'ia' };
+
+export const categoryTab = (contentType: string): StudentTab => TAB_SLUGS[contentType] ?? contentType;
+
+export const tabCategory = (tab: StudentTab): string =>
+  Object.keys(TAB_SLUGS).find((contentType) => TAB_SLUGS[contentType] === tab) ?? tab;
+const ADMIN_TABS: AdminTab[] = ['content', 'catalog', 'users', 'activity', 'trash', 'insights', 'coverage', 'reports', 'contributions'];
+
+const NAVIGATE_EVENT = 'anh:navigate';
+
+const currentUrl = () => `${window.location.pathname}${window.location.search}`;
+
+// Selection parts that don't form a prefix of department/semester/subject
+// (e.g. a semester picked before a department) go in the query string.
+function selectionPath({ department, semester, subject }: Selection): { segments: string[]; query: URLSearchParams } {
+  const segments: string[] = [];
+  const query = new URLSearchParams();
+  const parts: Array<[keyof Selection, string | undefined]> = [['department', department], ['semester', semester], ['subject', subject]];
+  for (const [key, value] of parts) {
+    if (!value) continue;
+    if (segments.length === parts.findIndex(([name]) => name === key)) {
+      segments.push(encodeURIComponent(value));
+    } else {
+      query.set(key, value);
+    }
+  }
+  return { segments, query };
+}
+
+const withQuery = (path: string, query: URLSearchParams) => (query.toString() ? `${path}?${query}` : path);
+
+// Malformed escapes in a hand-edited URL are kept as typed
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+function parseSelection(segments: string[], query: URLSearchParams): Selection {
+  const [department, semester, subject] = segments.map(decodeSegment);
+  return {
+    department: department || query.get('department') || undefined,
+    semester: semester || query.get('semester') || undefined,
+    subject: subject || query.get('subject') || undefined,
+  };
+}
+
+export function parseRoute(pathname: string, search = ''): Route {
+  const segments = pathname.split('/').filter(Boolean);
+  const query = new URLSearchParams(search);
+
+  if (segments[0] === 'admin') {
+    if (segments[1] === 'login') {
+      return { page: 'admin-login' };
+    }
+    if (segments[1] === 'invite' && segments[2]) {
+      return { page: 'accept-invite', token: decodeSegment(segments[2]) };
+    }
+    if (segments[1] !== 'content' && ADMIN_TABS.includes(segments[1] as AdminTab)) {
+      return { page: 'admin-dashboard', tab: segments[1] as AdminTab, ...parseSelection([], query) };
+    }
+    return { page: 'admin-dashboard', tab: 'content', ...parseSelection(segments.slice(2), query) };
+  }
+
+  if (segments[0] === 'files' && segments[1]) {
+    return { page: 'student', fileId: decodeSegment(segments[1]) };
+  }
+
+  if (segments[0] === 'browse') {
+    const [tab, module] = segments.slice(4, 6);
+    const route: StudentRoute = { page: 'student', ...parseSelection(segments.slice(1, 4), query) };
+    // Tabs the subject doesn't offer are ignored by the portal
+    if (tab) {
+      route.tab = decodeSegment(tab);
+      const moduleNumber = Number(module?.replace('module-', ''));
+      if (Number.isInteger(moduleNumber) && moduleNumber > 0) {
+        route.module = moduleNumber;
+      }
+    }
+    return route;
+  }
+
+  return { page: 'student' };
+}
+
+export function routePath(route: Route): string {
+  if (route.page === 'admin-login') {
+    return '/admin/login';
+  }
+
+  if (route.page === 'accept-invite') {
+    return `/admin/invite/${encodeURIComponent(route.token)}`;
+  }
+
+  if (route.page === 'admin-dashboard') {
+    const { segments, query } = selectionPath(route);
+    // The other tabs keep the content selection so switching back restores it
+    if (route.tab !== 'content') {
+      segments.forEach((segment, i) => query.set(['department', 'semester', 'subject'][i], decodeSegment(segment)));
+      return withQuery(`/admin/${route.tab}`, query);
+    }
+    return withQuery(segments.length > 0 ? `/admin/content/${segments.join('/')}` : '/admin', query);
+  }
+
+  if (route.fileId) {
+    return `/files/${encodeURIComponent(route.fileId)}`;
+  }
+
+  const { segments, query } = selectionPath(route);
+  if (segments.length === 3 && route.tab) {
+    segments.push(encodeURIComponent(route.tab));
+    if (route.module) {
+      segments.push(`module-${route.module}`);
+    }
+  }
+  if (segments.length === 0) {
+    return withQuery(query.toString() ? '/browse' : '/', query);
+  }
+  return withQuery(`/browse/${segments.join('/')}`, query);
+}
+
+// Go to a route, adding a history entry unless `replace` is set
+export function navigate(route: Route, { replace = false } = {}) {
+  const path = routePath(route);
+  if (path === currentUrl()) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+// The route for the current URL, updated on navigate() and back/forward
+export function useRoute(): Route {
+  const url = useSyncExternalStore(subscribe, currentUrl);
+  return useMemo(() => {
+    const [pathname, search] = url.split('?');
+    return parseRoute(pathname, search);
+  }, [url]);
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react';
+import { projectId } from './supabase/info';
+import { supabase } from './supabase/client';
+import { FileLocation, FileRecord } from './files';
+
+export type ProfileField = 'email' | 'password' | 'department' | 'semester' | 'usn';
+
+export interface StudentProfile {
+  userId: string;
+  email: string;
+  department: string;
+  semester: string;
+  usn: string;
+  updatedAt: string;
+}
+
+export interface SubjectBookmark {
+  department: string;
+  semester: string;
+  subject: string;
+  addedAt: string;
+}
+
+export interface Bookmarks {
+  files: Array<{ file: FileRecord; location: FileLocation; addedAt: string }>;
+  subjects: SubjectBookmark[];
+}
+
+const NO_BOOKMARKS: Bookmarks = { files: [], subjects: [] };
+
+const studentUrl = (path: string) => `https://${projectId}.supabase.co/functions/v1/make-server-fd1978ca/student/${path}`;
+
+const subjectPath = (department: string, semester: string, subject: string) =>
+  [department, semester, subject].map(encodeURIComponent).join('/');
+
+// The signed-in student's session, profile and bookmarks. Students sign in
+// through Supabase auth, so this follows the auth state rather than a prop.
+export function useStudentAccount() {
+  const [token, setToken] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
+  const [bookmarks, setBookmarks] = useState<Bookmarks>(NO_BOOKMARKS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession()
+      .then(({ data: { session } }) => {
+        setToken(session?.access_token ?? null);
+        setEmail(session?.user.email ?? '');
+        setUserId(session?.user.id ?? null);
+        if (!session) setLoading(false);
+      })
+      .catch((error) => {
+        console.error('Error checking student session:', error);
+        setLoading(false);
+      });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setToken(session?.access_token ?? null);
+      setEmail(session?.user.email ?? '');
+      setUserId(session?.user.id ?? null);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  // Profile and bookmarks are loaded once per account, not on every token refresh
+  const [accountEmail, setAccountEmail] = useState('');
+  useEffect(() => {
+    if (!token) {
+      setProfile(null);
+      setBookmarks(NO_BOOKMARKS);
+      setAccountEmail('');
+      return;
+    }
+    if (email === accountEmail) return;
+    setAccountEmail(email);
+
+    const fetchAccount = async () => {
+      setLoading(true);
+      try {
+        const headers = { 'Authorization': `Bearer ${token}` };
+        const [profileResponse, bookmarksResponse] = await Promise.all([
+          fetch(studentUrl('profile'), { headers }),
+          fetch(studentUrl('bookmarks'), { headers }),
+        ]);
+        if (profileResponse.ok) {
+          setProfile((await profileResponse.json()).profile);
+        } else {
+          console.error('Failed to fetch profile:', profileResponse.statusText);
+        }
+        if (bookmarksResponse.ok) {
+          setBookmarks(await bookmarksResponse.json());
+        } else {
+          console.error('Failed to fetch bookmarks:', bookmarksResponse.statusText);
+        }
+      } catch (error) {
+        console.error('Error fetching student account:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAccount();
+  }, [token, email]);
+
+  // Add or remove a bookmark; resolves to an error message when it failed
+  const updateBookmark = useCallback(async (path: string, starred: boolean): Promise<string | null> => {
+    if (!token) return 'Sign in to save bookmarks';
+    try {
+      const response = await fetch(studentUrl(`bookmarks/${path}`), {
+        method: starred ? 'DELETE' : 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        return data.error || 'Failed to update bookmark';
+      }
+      setBookmarks(data);
+      return null;
+    } catch (error) {
+      console.error('Error updating bookmark:', error);
+      return String(error);
+    }
+  }, [token]);
+
+  const isFileStarred = (fileId: string) => bookmarks.files.some((entry) => entry.file.id === fileId);
+
+  const isSubjectStarred = (department: string, semester: string, subject: string) =>
+    bookmarks.subjects.some((entry) => entry.department === department && entry.semester === semester && entry.subject === subject);
+
+  const toggleFile = (fileId: string) => updateBookmark(`files/${encodeURIComponent(fileId)}`, isFileStarred(fileId));
+
+  const toggleSubject = (department: string, semester: string, subject: string) =>
+    updateBookmark(`subjects/${subjectPath(department, semester, subject)}`, isSubjectStarred(department, semester, subject));
+
+  const signOut = async () => {
+    try {
+      await supabase.auth.signOut();
+    } catch (error) {
+      console.error('Sign out error:', error);
+      setToken(null);
+    }
+  };
+
+  return { token, userId, email, profile, setProfile, bookmarks, loading, isFileStarred, isSubjectStarred, toggleFile, toggleSubject, signOut };
+}